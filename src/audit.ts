@@ -0,0 +1,95 @@
+import type {
+  AuditErrorListener,
+  AuditEvent,
+  AuditListener,
+  AuditSink,
+} from "./types";
+
+// ─────────────────────────────────────────────
+//  Audit Emitter
+// ─────────────────────────────────────────────
+
+/**
+ * Minimal synchronous event emitter for audit events.
+ *
+ * Every listener runs even if an earlier one throws. Errors are handed to
+ * `onError` rather than thrown: the mutation that produced the event has
+ * already been applied, and the caller must not mistake it for a failure.
+ */
+export class AuditEmitter {
+  private readonly _listeners = new Set<AuditListener>();
+  private readonly _onError: AuditErrorListener;
+
+  constructor(onError: AuditErrorListener = () => {}) {
+    this._onError = onError;
+  }
+
+  /** Register a listener. Returns a function that removes it again. */
+  subscribe(listener: AuditListener): () => void {
+    if (typeof listener !== "function") {
+      throw new TypeError(
+        "[MajikAPI] onAudit(): 'listener' must be a function.",
+      );
+    }
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  emit(event: AuditEvent): void {
+    for (const listener of [...this._listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        try {
+          this._onError(error, event);
+        } catch {
+          // Nothing left to report to.
+        }
+      }
+    }
+  }
+
+  /** Number of registered listeners. */
+  get size(): number {
+    return this._listeners.size;
+  }
+}
+
+// ─────────────────────────────────────────────
+//  In-Memory Sink
+// ─────────────────────────────────────────────
+
+/**
+ * Reference AuditSink that keeps events in an array. Intended for tests.
+ *
+ * @example
+ * const sink = new InMemoryAuditSink();
+ * const stop = MajikAPI.onAudit((event) => sink.write(event));
+ *
+ * key.setRateLimit(5, "seconds");
+ * sink.events.at(-1)?.changes;
+ * // → [{ path: "settings.rateLimit.amount", before: 100, after: 5 }, …]
+ */
+export class InMemoryAuditSink implements AuditSink {
+  private readonly _events: AuditEvent[] = [];
+
+  write(event: AuditEvent): void {
+    this._events.push(structuredClone(event));
+  }
+
+  /** Every event written so far, oldest first. */
+  get events(): AuditEvent[] {
+    return structuredClone(this._events);
+  }
+
+  /** Events about one key, oldest first. */
+  forKey(entityId: string): AuditEvent[] {
+    return this.events.filter((event) => event.entity_id === entityId);
+  }
+
+  clear(): void {
+    this._events.length = 0;
+  }
+}
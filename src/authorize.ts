@@ -0,0 +1,148 @@
+import { matchDomain } from "./domain";
+import { matchIP } from "./ip";
+import { MajikAPIPolicyRegistry, resolveSettings } from "./policies";
+import type { MajikAPIRevocationList } from "./revocation-list";
+import { matchScope, normalizeScope } from "./scopes";
+import { formatTimeWindow, matchTimeWindow } from "./time-windows";
+import type {
+  MajikAPIAuthorizationDecision,
+  MajikAPIAuthorizationRule,
+  MajikAPIAuthorizeRequest,
+  MajikAPIDenialReason,
+  MajikAPIJSON,
+} from "./types";
+
+// ─────────────────────────────────────────────
+//  Request Authorization
+// ─────────────────────────────────────────────
+
+/**
+ * Evaluate an incoming request against a serialised key.
+ *
+ * This is the standalone form of `MajikAPI.authorize()` and works directly on
+ * a Supabase row or Redis cache hit without reconstructing the class.
+ *
+ * Checks run in a fixed order and stop at the first failure:
+ *   1. revoked    — revoked_at is set (see `revoke()`), or the revocation
+ *                   list revokes the key's id or hash. Rows from before
+ *                   schema_version 4 that mark revocation with an epoch
+ *                   valid_until count as revoked too.
+ *   2. not_yet_valid — valid_from is still in the future.
+ *   3. expired    — valid_until has passed.
+ *   4. restricted — the key is manually disabled.
+ *   5. outside_time_window — only when the key has time windows and `now`
+ *                   is in none of them.
+ *   6. ipWhitelist      — only when enabled. A missing IP is denied.
+ *   7. domainWhitelist  — only when enabled. A missing origin is denied.
+ *   8. allowedMethods   — only when non-empty. A missing method is denied.
+ *   9. scopes           — only when the request lists required scopes.
+ *
+ * An enabled whitelist with no entries denies every request.
+ *
+ * For keys on a policy, pass the policy registry so allowedMethods and
+ * scopes are resolved from the policy and the key's overrides.
+ *
+ * When `data` comes from a cache, pass the gateway's MajikAPIRevocationList
+ * (as `revocations` or `request.revocations`) so keys revoked or rotated
+ * since the record was cached are denied.
+ */
+export function authorize(
+  data: MajikAPIJSON,
+  request: MajikAPIAuthorizeRequest = {},
+  policies?: MajikAPIPolicyRegistry | null,
+  revocations?: MajikAPIRevocationList | null,
+): MajikAPIAuthorizationDecision {
+  const now = request.now ?? new Date();
+  const matched: MajikAPIAuthorizationRule[] = [];
+
+  const validUntil = data.valid_until ? new Date(data.valid_until) : null;
+  if (data.revoked_at) {
+    return deny("revoked", { type: "status", value: data.revoked_at });
+  }
+  if (validUntil?.getTime() === 0) {
+    return deny("revoked", { type: "status", value: data.valid_until });
+  }
+  const entry = (revocations ?? request.revocations)?.check(data) ?? null;
+  if (entry !== null) {
+    return deny("revoked", { type: "status", value: entry.revoked_at });
+  }
+  if (data.valid_from && now < new Date(data.valid_from)) {
+    return deny("not_yet_valid", { type: "status", value: data.valid_from });
+  }
+  if (validUntil !== null && now > validUntil) {
+    return deny("expired", { type: "status", value: data.valid_until });
+  }
+
+  if (data.restricted) {
+    return deny("restricted", { type: "status", value: null });
+  }
+
+  const { timeWindows, ipWhitelist, domainWhitelist, allowedMethods, scopes } =
+    resolveSettings(data, policies);
+
+  if (timeWindows && timeWindows.length > 0) {
+    const window = matchTimeWindow(timeWindows, now);
+    if (window === null) {
+      return deny("outside_time_window", { type: "timeWindows", value: null });
+    }
+    matched.push({ type: "timeWindows", value: formatTimeWindow(window) });
+  }
+
+  if (ipWhitelist.enabled) {
+    const ip = request.ip?.trim();
+    const entry = ip ? matchIP(ip, ipWhitelist.addresses) : null;
+    if (entry === null) {
+      return deny("ip_not_allowed", { type: "ipWhitelist", value: null });
+    }
+    matched.push({ type: "ipWhitelist", value: entry });
+  }
+
+  if (domainWhitelist.enabled) {
+    const origin = request.origin?.trim();
+    const entry = origin ? matchDomain(origin, domainWhitelist.domains) : null;
+    if (entry === null) {
+      return deny("domain_not_allowed", {
+        type: "domainWhitelist",
+        value: null,
+      });
+    }
+    matched.push({ type: "domainWhitelist", value: entry });
+  }
+
+  if (allowedMethods && allowedMethods.length > 0) {
+    const method = request.method?.trim().toUpperCase();
+    // Validation accepts any case, so stored rows and policies may vary.
+    const allowed = allowedMethods.map((m) => m.toUpperCase());
+    if (!method || !allowed.includes(method)) {
+      return deny("method_not_allowed", {
+        type: "allowedMethods",
+        value: null,
+      });
+    }
+    matched.push({ type: "allowedMethods", value: method });
+  }
+
+  for (const required of request.scopes ?? []) {
+    const granted = matchScope(required, scopes ?? []);
+    if (granted === null) {
+      return deny("insufficient_scope", {
+        type: "scopes",
+        value: normalizeScope(required),
+      });
+    }
+    matched.push({ type: "scopes", value: granted });
+  }
+
+  return { allowed: true, reason: null, rule: null, matched };
+}
+
+// ─────────────────────────────────────────────
+//  Private Helpers
+// ─────────────────────────────────────────────
+
+function deny(
+  reason: MajikAPIDenialReason,
+  rule: MajikAPIAuthorizationRule,
+): MajikAPIAuthorizationDecision {
+  return { allowed: false, reason, rule, matched: [] };
+}
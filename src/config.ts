@@ -0,0 +1,92 @@
+import { generateAPIKey } from "./key-format";
+import { MajikAPI } from "./majik-api";
+import { MajikAPIRepository } from "./store";
+import type {
+  MajikAPIConfig,
+  MajikAPICreateOptions,
+  MajikAPIJSON,
+  MajikAPILoadOptions,
+  MajikAPIRepositoryOptions,
+  MajikAPIStore,
+} from "./types";
+import { assertValid, validateMajikAPIConfig } from "./validation";
+
+// ─────────────────────────────────────────────
+//  Configuration
+// ─────────────────────────────────────────────
+
+/**
+ * create(), fromJSON() and a repository bound to one MajikAPIConfig, so a
+ * deployment sets its ceilings, defaults, key format, hasher and clock once.
+ * Keys remember the config they were created or loaded with — setters
+ * enforce its ceiling, and expiry and audit timestamps use its clock.
+ *
+ * Build one with createMajikAPI().
+ */
+export class MajikAPIFactory {
+  private readonly _config: MajikAPIConfig;
+
+  constructor(config: MajikAPIConfig = {}) {
+    assertValid(validateMajikAPIConfig(config), "createMajikAPI");
+    // Fail on a bad key format now rather than on the first create().
+    generateAPIKey(config.keyFormat);
+    // Copy the data fields, so neither the caller nor a key can change them
+    // later. Functions and the hasher are shared as given.
+    this._config = {
+      ...config,
+      maxRateLimit: structuredClone(config.maxRateLimit),
+      maxRateLimitByTier: structuredClone(config.maxRateLimitByTier),
+      defaultSettings: structuredClone(config.defaultSettings),
+      keyFormat: structuredClone(config.keyFormat),
+    };
+  }
+
+  get config(): Readonly<MajikAPIConfig> {
+    return this._config;
+  }
+
+  /** MajikAPI.create() with this configuration. */
+  create(
+    ownerID: string,
+    text?: string,
+    options: MajikAPICreateOptions = {},
+  ): MajikAPI {
+    return MajikAPI.create(ownerID, text, { ...options, config: this._config });
+  }
+
+  /** MajikAPI.fromJSON() with this configuration. */
+  fromJSON(data: MajikAPIJSON, options: MajikAPILoadOptions = {}): MajikAPI {
+    return MajikAPI.fromJSON(data, { ...options, config: this._config });
+  }
+
+  /** A MajikAPIRepository that loads keys with this configuration. */
+  repository(
+    store: MajikAPIStore,
+    options: MajikAPIRepositoryOptions = {},
+  ): MajikAPIRepository {
+    return new MajikAPIRepository(store, {
+      ...options,
+      config: this._config,
+    });
+  }
+}
+
+/**
+ * Configure the library for a deployment. Throws a MajikAPIValidationError
+ * listing every invalid field.
+ *
+ * @example
+ * const majik = createMajikAPI({
+ *   maxRateLimit: { amount: 2000, frequency: "minutes" },
+ *   maxRateLimitByTier: { enterprise: { amount: 20_000, frequency: "minutes" } },
+ *   ownerTier: (ownerId) => tiers.get(ownerId) ?? null,
+ *   defaultSettings: { rateLimit: { amount: 300, frequency: "minutes" } },
+ *   keyFormat: { prefix: "acme" },
+ * });
+ *
+ * const key = majik.create(userId);
+ * key.setRateLimit(1500, "minutes"); // within this deployment's ceiling
+ */
+export function createMajikAPI(config: MajikAPIConfig = {}): MajikAPIFactory {
+  return new MajikAPIFactory(config);
+}
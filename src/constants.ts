@@ -2,7 +2,14 @@
 //  Constants
 // ─────────────────────────────────────────────
 
-import { RateLimit, RateLimitFrequency } from "./types";
+import {
+  MajikAPIPolicyField,
+  MajikAPIRevocationReason,
+  MajikAPIWeekday,
+  QuotaFrequency,
+  RateLimit,
+  RateLimitFrequency,
+} from "./types";
 
 export const DEFAULT_RATE_LIMIT: RateLimit = {
   amount: 100,
@@ -10,8 +17,9 @@ export const DEFAULT_RATE_LIMIT: RateLimit = {
 } as const;
 
 /**
- * Hard ceiling for any rate limit set on a MajikAPI key.
- * No key — regardless of trust level — may exceed this without bypassSafeLimit.
+ * Default ceiling for any rate limit set on a MajikAPI key.
+ * No key may exceed it without bypassSafeLimit unless the deployment
+ * configures another ceiling — see MajikAPIConfig.maxRateLimit.
  * Expressed in req/min for normalisation purposes; stored as a RateLimit for
  * consistency with the rest of the API.
  */
@@ -20,9 +28,86 @@ export const MAX_RATE_LIMIT: RateLimit = {
   frequency: "minutes",
 } as const;
 
-/** Multipliers to convert each frequency unit into requests-per-minute. */
+/** Every valid RateLimitFrequency. */
+export const RATE_LIMIT_FREQUENCIES: readonly RateLimitFrequency[] = [
+  "seconds",
+  "minutes",
+  "hours",
+  "days",
+];
+
+/** Every valid QuotaFrequency. */
+export const QUOTA_FREQUENCIES: readonly QuotaFrequency[] = [
+  "hours",
+  "days",
+  "weeks",
+  "months",
+  "quarters",
+  "years",
+];
+
+/** HTTP methods accepted by setAllowedMethods(). */
+export const HTTP_METHODS: readonly string[] = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+];
+
+/** Every MajikAPIWeekday, Monday first. */
+export const WEEKDAYS: readonly MajikAPIWeekday[] = [
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+  "sun",
+];
+
+/** Every valid MajikAPIRevocationReason. */
+export const REVOCATION_REASONS: readonly MajikAPIRevocationReason[] = [
+  "compromised",
+  "owner_request",
+  "policy",
+  "superseded",
+  "unspecified",
+];
+
+/** The settings a policy can define, in the order they are explained. */
+export const POLICY_FIELDS: readonly MajikAPIPolicyField[] = [
+  "rateLimit",
+  "rateLimits",
+  "quota",
+  "allowedMethods",
+  "scopes",
+];
+
+/**
+ * Length of each frequency window, in minutes. Divide an amount by it to get
+ * requests per minute — see toRequestsPerMinute().
+ */
 export const TO_MINUTES: Record<RateLimitFrequency, number> = {
   seconds: 1 / 60,
   minutes: 1,
   hours: 60,
+  days: 1440,
 };
+
+/** Default leading segment of generated keys ("mjk_live_…"). */
+export const DEFAULT_KEY_PREFIX = "mjk";
+
+/** Default environment segment of generated keys. */
+export const DEFAULT_KEY_ENVIRONMENT = "live";
+
+/** Default length of the public key id segment, in base62 characters. */
+export const DEFAULT_KEY_ID_LENGTH = 8;
+
+/**
+ * Version of the MajikAPIJSON shape written by toJSON(). Bump it together
+ * with a new migration in migrations.ts whenever the serialised form changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
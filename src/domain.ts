@@ -0,0 +1,135 @@
+// ─────────────────────────────────────────────
+//  Domain & Origin Matching
+// ─────────────────────────────────────────────
+//
+//  Wildcard semantics for DomainWhitelist entries:
+//
+//    "example.com"   — matches exactly example.com.
+//    "*.example.com" — matches any subdomain at any depth (api.example.com,
+//                      a.b.example.com) but NOT the apex example.com itself.
+//                      Whitelist both entries to allow the apex as well.
+//    "*"             — matches every host.
+//    "localhost"     — matches the loopback host name (any port).
+//
+//  A wildcard whose base is a public suffix ("*.com", "*.co.uk",
+//  "*.github.io") is rejected, since it would admit unrelated sites. Rows
+//  saved before that rule may still hold one; it loads but never matches.
+//  Hosts are compared in lowercase ASCII form, so IDN entries and origins
+//  (bücher.de ↔ xn--bcher-kva.de) match either way. Ports are ignored.
+// ─────────────────────────────────────────────
+
+import { PUBLIC_SUFFIXES } from "./public-suffixes";
+
+const LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+const TLD = /^([a-z]{2,63}|xn--[a-z0-9-]{1,59})$/;
+
+/**
+ * Convert a host name to lowercase ASCII (punycode) form.
+ * Returns null when the input is not a valid host name.
+ */
+export function toASCIIHost(host: string): string | null {
+  const trimmed = host.trim().replace(/\.$/, "");
+  if (trimmed === "" || /[\s/?#@:]/.test(trimmed)) return null;
+  try {
+    return new URL(`http://${trimmed}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the host from an `Origin` or `Referer` header value.
+ * Accepts full URLs ("https://app.example.com:8443/path") as well as bare
+ * hosts ("app.example.com"). The result is lowercase ASCII with no port or
+ * trailing dot. Returns null for "null" origins and unparsable values.
+ */
+export function extractHost(origin: string): string | null {
+  if (typeof origin !== "string") return null;
+  const value = origin.trim();
+  if (value === "" || value === "null") return null;
+
+  try {
+    const url = new URL(value.includes("://") ? value : `http://${value}`);
+    const host = url.hostname.replace(/\.$/, "");
+    return host === "" ? null : host;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when `domain` is a public suffix — either listed in the bundled
+ * public-suffix list or a single label (the PSL default rule).
+ * "localhost" is not considered a public suffix.
+ */
+export function isPublicSuffix(domain: string): boolean {
+  const host = toASCIIHost(domain);
+  if (host === null) return false;
+  if (host === "localhost") return false;
+  return !host.includes(".") || PUBLIC_SUFFIXES.has(host);
+}
+
+/**
+ * Normalise a whitelist entry to lowercase ASCII form, preserving a leading
+ * "*." wildcard. Returns null when the entry is not a valid domain pattern,
+ * including wildcards over a public suffix.
+ */
+export function normalizeDomainEntry(entry: string): string | null {
+  if (typeof entry !== "string") return null;
+  const trimmed = entry.trim();
+  if (trimmed === "*") return "*";
+
+  const wildcard = trimmed.startsWith("*.");
+  const host = toASCIIHost(wildcard ? trimmed.slice(2) : trimmed);
+  if (host === null) return null;
+
+  if (host === "localhost") return wildcard ? "*.localhost" : "localhost";
+
+  const labels = host.split(".");
+  if (labels.length < 2) return null;
+  if (!labels.every((l) => LABEL.test(l))) return null;
+  if (!TLD.test(labels[labels.length - 1])) return null;
+  if (wildcard && isPublicSuffix(host)) return null;
+
+  return wildcard ? `*.${host}` : host;
+}
+
+/**
+ * True when `entry` is a wildcard over a multi-label public suffix
+ * ("*.co.uk", "*.github.io"). New entries like this are rejected, but
+ * stored ones are tolerated on load; domainMatches() never matches them.
+ */
+export function isPublicSuffixWildcard(entry: string): boolean {
+  if (typeof entry !== "string") return false;
+  const trimmed = entry.trim();
+  if (!trimmed.startsWith("*.")) return false;
+  const base = normalizeDomainEntry(trimmed.slice(2));
+  return base !== null && isPublicSuffix(base);
+}
+
+/**
+ * True when `host` (already extracted, see `extractHost()`) is covered by
+ * the whitelist `entry`.
+ */
+export function domainMatches(host: string, entry: string): boolean {
+  const pattern = normalizeDomainEntry(entry);
+  const target = toASCIIHost(host);
+  if (pattern === null || target === null) return false;
+
+  if (pattern === "*") return true;
+  if (pattern.startsWith("*.")) return target.endsWith(pattern.slice(1));
+  return target === pattern;
+}
+
+/**
+ * Return the first whitelist entry covering the host of `origin`, or null.
+ * `origin` may be a full `Origin`/`Referer` URL or a bare host name.
+ */
+export function matchDomain(
+  origin: string,
+  entries: readonly string[],
+): string | null {
+  const host = extractHost(origin);
+  if (host === null) return null;
+  return entries.find((entry) => domainMatches(host, entry)) ?? null;
+}
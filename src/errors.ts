@@ -0,0 +1,202 @@
+import type {
+  MajikAPIErrorCode,
+  MajikAPIValidationIssue,
+  RateLimitFrequency,
+} from "./types";
+
+// ─────────────────────────────────────────────
+//  Base Class
+// ─────────────────────────────────────────────
+
+/**
+ * Base class of every error the library throws on purpose. Branch on
+ * `code` (or `instanceof` a subclass) instead of parsing messages.
+ *
+ * @example
+ * try {
+ *   key.setRateLimit(10_000, "minutes");
+ * } catch (error) {
+ *   if (error instanceof MajikAPIError) res.status(400).json(error.toJSON());
+ *   else throw error;
+ * }
+ */
+export class MajikAPIError extends Error {
+  readonly code: MajikAPIErrorCode;
+
+  constructor(code: MajikAPIErrorCode, message: string) {
+    super(message);
+    this.name = "MajikAPIError";
+    this.code = code;
+  }
+
+  /** `{ error, message }` — safe to send to API clients. */
+  toJSON(): { error: MajikAPIErrorCode; message: string } {
+    return { error: this.code, message: this.message };
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Validation
+// ─────────────────────────────────────────────
+
+/**
+ * Thrown when input fails validation. `issues` lists every problem found —
+ * one for setters that check a single value, all of them for fromJSON(),
+ * create() and validate(). The message describes the first.
+ */
+export class MajikAPIValidationError extends MajikAPIError {
+  readonly issues: MajikAPIValidationIssue[];
+
+  /**
+   * @param issues - At least one issue.
+   * @param method - Name of the throwing method, for the message.
+   */
+  constructor(issues: MajikAPIValidationIssue[], method?: string) {
+    const [first] = issues;
+    const more =
+      issues.length > 1
+        ? ` (and ${issues.length - 1} more issue${issues.length > 2 ? "s" : ""})`
+        : "";
+    super(
+      "validation_failed",
+      `[MajikAPI] ${method ? `${method}(): ` : ""}${first?.message ?? "Validation failed."}${more}`,
+    );
+    this.name = "MajikAPIValidationError";
+    this.issues = issues;
+  }
+
+  toJSON(): {
+    error: MajikAPIErrorCode;
+    message: string;
+    issues: MajikAPIValidationIssue[];
+  } {
+    return { ...super.toJSON(), issues: this.issues };
+  }
+}
+
+/**
+ * Thrown by setRateLimit() and setRateLimits() when a requested rate is
+ * above the key's `maxRateLimit` and `bypassSafeLimit` was not passed.
+ */
+export class MajikAPIRateLimitCeilingError extends MajikAPIError {
+  readonly amount: number;
+  readonly frequency: RateLimitFrequency;
+  /** The requested rate, normalised to requests per minute. */
+  readonly requestedPerMinute: number;
+  /** The ceiling that applied, normalised to requests per minute. */
+  readonly ceilingPerMinute: number;
+
+  constructor(
+    amount: number,
+    frequency: RateLimitFrequency,
+    requestedPerMinute: number,
+    ceilingPerMinute: number,
+    ceiling: string,
+    method = "setRateLimit",
+  ) {
+    super(
+      "rate_limit_ceiling",
+      `[MajikAPI] ${method}(): The requested rate (${amount} per ${frequency} ` +
+        `≈ ${requestedPerMinute.toFixed(4)} req/min) exceeds the system ceiling of ` +
+        `${ceilingPerMinute.toFixed(4)} req/min (${ceiling}). ` +
+        `Pass bypassSafeLimit = true to override this guard.`,
+    );
+    this.name = "MajikAPIRateLimitCeilingError";
+    this.amount = amount;
+    this.frequency = frequency;
+    this.requestedPerMinute = requestedPerMinute;
+    this.ceilingPerMinute = ceilingPerMinute;
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Key State
+// ─────────────────────────────────────────────
+
+/**
+ * Thrown when an operation needs an active key and the key is pending,
+ * restricted or revoked. Expired keys throw MajikAPIExpiredError instead.
+ */
+export class MajikAPIInactiveKeyError extends MajikAPIError {
+  readonly id: string;
+  readonly status: "pending" | "restricted" | "revoked";
+
+  constructor(
+    id: string,
+    status: "pending" | "restricted" | "revoked",
+    method: string,
+  ) {
+    super(
+      "key_inactive",
+      `[MajikAPI] ${method}(): Key "${id}" is ${status} and cannot be used for this operation.`,
+    );
+    this.name = "MajikAPIInactiveKeyError";
+    this.id = id;
+    this.status = status;
+  }
+}
+
+/** Thrown when an operation needs an active key and the key has expired. */
+export class MajikAPIExpiredError extends MajikAPIError {
+  readonly id: string;
+  readonly validUntil: Date;
+
+  constructor(id: string, validUntil: Date, method: string) {
+    super(
+      "key_expired",
+      `[MajikAPI] ${method}(): Key "${id}" expired at ${validUntil.toISOString()}.`,
+    );
+    this.name = "MajikAPIExpiredError";
+    this.id = id;
+    this.validUntil = validUntil;
+  }
+}
+
+/** Thrown by requireScopes() when the key lacks a required scope. */
+export class MajikAPIInsufficientScopeError extends MajikAPIError {
+  readonly id: string;
+  /** The required scopes the key does not grant. */
+  readonly missing: string[];
+
+  constructor(id: string, missing: string[]) {
+    super(
+      "insufficient_scope",
+      `[MajikAPI] requireScopes(): Key "${id}" is missing required scope(s): ${missing.join(", ")}`,
+    );
+    this.name = "MajikAPIInsufficientScopeError";
+    this.id = id;
+    this.missing = missing;
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Storage
+// ─────────────────────────────────────────────
+
+/**
+ * Thrown by a store when a write is based on an outdated version of a row —
+ * someone else saved the key in the meantime. Reload the key, re-apply the
+ * change and save again.
+ */
+export class MajikAPIVersionConflictError extends MajikAPIError {
+  readonly id: string;
+  readonly expectedVersion: number;
+  readonly actualVersion: number | null;
+
+  constructor(
+    id: string,
+    expectedVersion: number,
+    actualVersion: number | null,
+  ) {
+    super(
+      "version_conflict",
+      actualVersion === null
+        ? `[MajikAPI] Key "${id}" no longer exists (expected version ${expectedVersion}).`
+        : `[MajikAPI] Key "${id}" was modified concurrently (expected version ${expectedVersion}, found ${actualVersion}).`,
+    );
+    this.name = "MajikAPIVersionConflictError";
+    this.id = id;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+}
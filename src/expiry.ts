@@ -0,0 +1,327 @@
+import type { MajikAPI } from "./majik-api";
+import type { MajikAPIRepository } from "./store";
+import type {
+  MajikAPIClock,
+  MajikAPIExpiryEvent,
+  MajikAPIExpiryNotice,
+  MajikAPIExpiryReport,
+  MajikAPIExpiryScannerOptions,
+  MajikAPIExpiryScanOptions,
+  MajikAPIJSON,
+  MajikAPIRenewalAction,
+  MajikAPIRenewalPolicy,
+  MajikAPIRotatedKey,
+} from "./types";
+import { assertPositiveInteger, assertString, systemClock } from "./utils";
+
+const DAY_MS = 86_400_000;
+
+// ─────────────────────────────────────────────
+//  Expiry Scanner
+// ─────────────────────────────────────────────
+//
+//  Keys with a valid_until stop working the moment it passes. The scanner
+//  walks the store on a schedule (a cron job, a queue worker) and reports
+//  keys that are about to expire, so owners hear about it in time, and
+//  renews the keys whose renewal policy says so.
+// ─────────────────────────────────────────────
+
+/**
+ * Finds keys that are about to expire and applies renewal policies.
+ * Needs a store that implements `list()`.
+ *
+ * A scan reports an "expiring" event when a key is inside one of the
+ * thresholds (30, 7 and 1 days by default). Pass the previous report's
+ * `notices` and each threshold is reported once per key and expiry date;
+ * a key created or given a new expiry since is reported again. Pass its
+ * `scannedAt` as `since` and keys that expired since then are reported as
+ * "expired".
+ *
+ * Renewals run before events are worked out, so a key that was extended
+ * far enough is not reported as expiring. Revoked keys are ignored, and
+ * only active keys are renewed. Keys rotated by a policy are listed in the
+ * report's `rotatedKeys` with their new plaintext; hand it to the owner and
+ * keep it out of logs.
+ *
+ * @example
+ * const scanner = new MajikAPIExpiryScanner(repository, {
+ *   renewalPolicy: (key) =>
+ *     key.policyId === "service"
+ *       ? { action: "extend", days: 90, ifUsedWithinDays: 30 }
+ *       : null,
+ *   lastUsedAt: (key) => lastSeen.get(key.id) ?? null,
+ * });
+ *
+ * const report = await scanner.scan({
+ *   since: lastReport?.scannedAt,
+ *   notices: lastReport?.notices,
+ * });
+ * for (const event of report.events) await mailer.expiryNotice(event);
+ * for (const action of report.actions) await auditLog.write(action);
+ * for (const rotated of report.rotatedKeys) await vault.deliver(rotated);
+ */
+export class MajikAPIExpiryScanner {
+  private readonly _repository: MajikAPIRepository;
+  /** Ascending. */
+  private readonly _thresholds: number[];
+  private readonly _renewalPolicy: MajikAPIExpiryScannerOptions["renewalPolicy"];
+  private readonly _lastUsedAt: MajikAPIExpiryScannerOptions["lastUsedAt"];
+  private readonly _actor: string;
+  private readonly _pageSize: number;
+  private readonly _clock: MajikAPIClock;
+
+  constructor(
+    repository: MajikAPIRepository,
+    options: MajikAPIExpiryScannerOptions = {},
+  ) {
+    if (typeof repository?.store?.list !== "function") {
+      throw new TypeError(
+        "[MajikAPI] MajikAPIExpiryScanner: The repository's store must implement list().",
+      );
+    }
+    const thresholds = options.thresholdsDays ?? [30, 7, 1];
+    if (!Array.isArray(thresholds) || thresholds.length === 0) {
+      throw new TypeError(
+        "[MajikAPI] MajikAPIExpiryScanner: 'thresholdsDays' must be a non-empty array of day counts.",
+      );
+    }
+    thresholds.forEach((days, i) =>
+      assertPositiveInteger(days, `options.thresholdsDays[${i}]`),
+    );
+
+    this._repository = repository;
+    this._thresholds = [...new Set(thresholds)].sort((a, b) => a - b);
+    this._renewalPolicy = options.renewalPolicy;
+    this._lastUsedAt = options.lastUsedAt;
+    this._actor = options.actor ?? "system:expiry-scanner";
+    assertString(this._actor, "options.actor");
+    this._pageSize = options.pageSize ?? 500;
+    assertPositiveInteger(this._pageSize, "options.pageSize");
+    this._clock = options.clock ?? systemClock;
+  }
+
+  /** The thresholds in use, smallest first. */
+  get thresholdsDays(): number[] {
+    return [...this._thresholds];
+  }
+
+  /**
+   * Walk every key expiring within the largest threshold, renew those whose
+   * policy applies and report what was found and done. A row that fails to
+   * load, or a renewal that fails (e.g. on a version conflict), is reported
+   * as "failed" and the scan goes on.
+   */
+  async scan(
+    options: MajikAPIExpiryScanOptions = {},
+  ): Promise<MajikAPIExpiryReport> {
+    const now = this._clock();
+    const since = options.since ?? null;
+    const notices = new Map(
+      (options.notices ?? []).map((notice) => [notice.keyId, notice]),
+    );
+    const horizon = new Date(
+      now.getTime() + this._thresholds[this._thresholds.length - 1] * DAY_MS,
+    );
+    const report: MajikAPIExpiryReport = {
+      scannedAt: now,
+      since,
+      scanned: 0,
+      events: [],
+      actions: [],
+      notices: [],
+      rotatedKeys: [],
+    };
+
+    const store = this._repository.store;
+    let cursor: string | null = null;
+    do {
+      const page = await store.list!({
+        cursor,
+        limit: this._pageSize,
+        expiresBefore: horizon,
+      });
+      for (const row of page.rows) {
+        report.scanned += 1;
+        await this.scanKey(row, now, horizon, since, notices, options, report);
+      }
+      cursor = page.cursor;
+    } while (cursor !== null);
+
+    return report;
+  }
+
+  private async scanKey(
+    row: MajikAPIJSON,
+    now: Date,
+    horizon: Date,
+    since: Date | null,
+    notices: Map<string, MajikAPIExpiryNotice>,
+    options: MajikAPIExpiryScanOptions,
+    report: MajikAPIExpiryReport,
+  ): Promise<void> {
+    if (row.valid_until === null || row.revoked_at) return;
+    const validUntil = new Date(row.valid_until);
+    if (validUntil >= horizon) return;
+
+    let key: MajikAPI;
+    try {
+      key = this._repository.load(row);
+    } catch (error) {
+      report.actions.push({
+        type: "failed",
+        keyId: row.id,
+        ownerId: row.owner_id,
+        previousValidUntil: validUntil,
+        validUntil,
+        reason: error instanceof Error ? error.message : String(error),
+        saved: false,
+      });
+      return;
+    }
+    if (key.isRevoked()) return;
+
+    let expiresAt = validUntil;
+    if (validUntil > now && key.status === "active") {
+      const action = await this.renew(
+        key,
+        validUntil,
+        now,
+        options.dryRun ?? false,
+        report.rotatedKeys,
+      );
+      if (action !== null) {
+        report.actions.push(action);
+        expiresAt = action.validUntil;
+      }
+    }
+
+    const remaining = expiresAt.getTime() - now.getTime();
+    if (remaining <= 0) {
+      // Reported once: by the first scan after the key expired.
+      if (since !== null && expiresAt > since) {
+        report.events.push(this.eventFor(key, expiresAt, "expired", 0, null));
+      }
+      return;
+    }
+
+    const threshold = this.thresholdFor(remaining);
+    if (threshold === null) return;
+    const notice = notices.get(key.id);
+    const expiry = expiresAt.toISOString();
+    const reported =
+      notice !== undefined &&
+      notice.validUntil === expiry &&
+      notice.thresholdDays <= threshold;
+    if (!reported) {
+      report.events.push(
+        this.eventFor(key, expiresAt, "expiring", remaining, threshold),
+      );
+    }
+    report.notices.push({
+      keyId: key.id,
+      validUntil: expiry,
+      thresholdDays: reported ? notice.thresholdDays : threshold,
+    });
+  }
+
+  /**
+   * Apply the key's renewal policy if it is due. null when none applies.
+   * The new plaintext of a saved rotation goes to `rotatedKeys`.
+   */
+  private async renew(
+    key: MajikAPI,
+    validUntil: Date,
+    now: Date,
+    dryRun: boolean,
+    rotatedKeys: MajikAPIRotatedKey[],
+  ): Promise<MajikAPIRenewalAction | null> {
+    const policy: MajikAPIRenewalPolicy | null =
+      this._renewalPolicy?.(key) ?? null;
+    if (policy === null) return null;
+    const within = policy.renewWithinDays ?? this._thresholds[0];
+    if (validUntil.getTime() - now.getTime() > within * DAY_MS) return null;
+
+    const base = {
+      keyId: key.id,
+      ownerId: key.ownerId,
+      previousValidUntil: validUntil,
+      validUntil,
+      saved: false,
+    };
+
+    if (policy.action === "extend" && policy.ifUsedWithinDays !== undefined) {
+      if (!this._lastUsedAt) {
+        return {
+          ...base,
+          type: "skipped",
+          reason:
+            "The policy needs recent usage, but no lastUsedAt is configured.",
+        };
+      }
+      const lastUsed = await this._lastUsedAt(key);
+      const idleMs =
+        lastUsed === null ? Infinity : now.getTime() - lastUsed.getTime();
+      if (idleMs > policy.ifUsedWithinDays * DAY_MS) {
+        return {
+          ...base,
+          type: "skipped",
+          reason: `Not used in the last ${policy.ifUsedWithinDays} days.`,
+        };
+      }
+    }
+
+    try {
+      assertPositiveInteger(policy.days, "policy.days");
+      const renewed = new Date(validUntil.getTime() + policy.days * DAY_MS);
+      key.setActor(this._actor);
+      if (policy.action === "rotate") {
+        key.rotate(undefined, { gracePeriodMs: policy.gracePeriodMs });
+      }
+      key.setExpiry(renewed);
+      if (!dryRun) await this._repository.save(key);
+      if (policy.action === "rotate" && !dryRun) {
+        rotatedKeys.push({
+          keyId: key.id,
+          ownerId: key.ownerId,
+          rawApiKey: key.rawApiKey as string,
+        });
+      }
+
+      return {
+        ...base,
+        type: policy.action === "rotate" ? "rotated" : "extended",
+        validUntil: renewed,
+        saved: !dryRun,
+      };
+    } catch (error) {
+      return {
+        ...base,
+        type: "failed",
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private eventFor(
+    key: MajikAPI,
+    validUntil: Date,
+    type: MajikAPIExpiryEvent["type"],
+    msUntilExpiry: number,
+    thresholdDays: number | null,
+  ): MajikAPIExpiryEvent {
+    return {
+      type,
+      keyId: key.id,
+      ownerId: key.ownerId,
+      name: key.name,
+      validUntil,
+      msUntilExpiry,
+      thresholdDays,
+    };
+  }
+
+  /** The smallest threshold `ms` falls inside, or null. */
+  private thresholdFor(ms: number): number | null {
+    return this._thresholds.find((days) => ms <= days * DAY_MS) ?? null;
+  }
+}
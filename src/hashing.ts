@@ -0,0 +1,260 @@
+// ─────────────────────────────────────────────
+//  Key Hashing
+// ─────────────────────────────────────────────
+//
+//  Two stored formats are understood:
+//
+//    v1 (legacy)  "<base64 sha256(rawKey)>"
+//    v2           "v2$hmac-sha256$<pepperId>$<base64 hmac(pepper, rawKey)>"
+//
+//  v2 keys the hash with a server-side pepper, so a leaked api_key column
+//  cannot be checked offline against guessed keys. The pepper id makes
+//  pepper rotation possible: new hashes use the current pepper while hashes
+//  made with older peppers keep verifying (flagged needsRehash).
+// ─────────────────────────────────────────────
+
+import { hash as sha256Digest } from "@stablelib/sha256";
+import type {
+  KeyHashVerification,
+  MajikAPIKeyHasher,
+  ParsedKeyHash,
+  PepperedKeyHasherOptions,
+} from "./types";
+import {
+  arrayToBase64,
+  base64ToArray,
+  hmacSHA256,
+  timingSafeEqual,
+} from "./utils";
+
+const V2_PREFIX = "v2$hmac-sha256$";
+const PEPPER_ID = /^[A-Za-z0-9_-]{1,32}$/;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Split a stored hash into its parts. Returns null for strings that are in
+ * neither the legacy nor the v2 format.
+ */
+export function parseKeyHash(stored: string): ParsedKeyHash | null {
+  if (typeof stored !== "string") return null;
+
+  if (stored.startsWith("v2$")) {
+    const parts = stored.split("$");
+    if (parts.length !== 4 || parts[1] !== "hmac-sha256") return null;
+    if (!PEPPER_ID.test(parts[2]) || !BASE64.test(parts[3])) return null;
+    return {
+      version: 2,
+      algorithm: "hmac-sha256",
+      pepperId: parts[2],
+      digest: parts[3],
+    };
+  }
+
+  if (!BASE64.test(stored)) return null;
+  return { version: 1, algorithm: "sha256", pepperId: null, digest: stored };
+}
+
+const NO_MATCH: KeyHashVerification = { valid: false, needsRehash: false };
+
+/** Constant-time comparison of a computed digest against a stored one. */
+function digestMatches(computed: Uint8Array, storedDigest: string): boolean {
+  const stored = base64ToArray(storedDigest);
+  return stored !== null && timingSafeEqual(computed, stored);
+}
+
+function encode(text: string) {
+  return new TextEncoder().encode(text);
+}
+
+async function webCryptoSHA256(data: BufferSource): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+// ─────────────────────────────────────────────
+//  Legacy Hasher
+// ─────────────────────────────────────────────
+
+/**
+ * The original unkeyed SHA-256 hasher. This is the default so existing
+ * deployments keep working; prefer PepperedKeyHasher for new ones.
+ */
+export class LegacySHA256Hasher implements MajikAPIKeyHasher {
+  hash(rawKey: string): string {
+    return arrayToBase64(sha256Digest(encode(rawKey)));
+  }
+
+  verify(rawKey: string, storedHash: string): KeyHashVerification {
+    const parsed = parseKeyHash(storedHash);
+    if (parsed?.version !== 1) return NO_MATCH;
+    const valid = digestMatches(sha256Digest(encode(rawKey)), parsed.digest);
+    return { valid, needsRehash: false };
+  }
+
+  async verifyAsync(
+    rawKey: string,
+    storedHash: string,
+  ): Promise<KeyHashVerification> {
+    const parsed = parseKeyHash(storedHash);
+    if (parsed?.version !== 1) return NO_MATCH;
+    const digest = await webCryptoSHA256(encode(rawKey));
+    return { valid: digestMatches(digest, parsed.digest), needsRehash: false };
+  }
+
+  candidates(rawKey: string): string[] {
+    return [this.hash(rawKey)];
+  }
+
+  needsRehash(): boolean {
+    return false;
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Peppered (HMAC) Hasher
+// ─────────────────────────────────────────────
+
+/**
+ * HMAC-SHA-256 hasher keyed with a server-side pepper.
+ *
+ * @example
+ * const hasher = new PepperedKeyHasher({
+ *   peppers: { "2026-01": process.env.MAJIK_PEPPER_2026_01! },
+ *   currentPepperId: "2026-01",
+ * });
+ * const key = MajikAPI.create(userId, undefined, { hasher });
+ */
+export class PepperedKeyHasher implements MajikAPIKeyHasher {
+  private readonly _peppers: Map<string, Uint8Array>;
+  private readonly _currentPepperId: string;
+  private readonly _acceptLegacy: boolean;
+  private readonly _cryptoKeys = new Map<string, Promise<CryptoKey>>();
+
+  constructor(options: PepperedKeyHasherOptions) {
+    if (typeof options !== "object" || options === null) {
+      throw new TypeError(
+        "[MajikAPI] PepperedKeyHasher: Expected an options object.",
+      );
+    }
+
+    this._peppers = new Map();
+    for (const [id, secret] of Object.entries(options.peppers ?? {})) {
+      if (!PEPPER_ID.test(id)) {
+        throw new TypeError(
+          `[MajikAPI] PepperedKeyHasher: Pepper id must be 1–32 characters of [A-Za-z0-9_-]. Received: ${JSON.stringify(id)}`,
+        );
+      }
+      const bytes = typeof secret === "string" ? encode(secret) : secret;
+      if (!(bytes instanceof Uint8Array) || bytes.length < 16) {
+        throw new RangeError(
+          `[MajikAPI] PepperedKeyHasher: Pepper "${id}" must be at least 16 bytes.`,
+        );
+      }
+      this._peppers.set(id, bytes);
+    }
+
+    if (!this._peppers.has(options.currentPepperId)) {
+      throw new TypeError(
+        `[MajikAPI] PepperedKeyHasher: "currentPepperId" must name one of the configured peppers. Received: ${JSON.stringify(options.currentPepperId)}`,
+      );
+    }
+    this._currentPepperId = options.currentPepperId;
+    this._acceptLegacy = options.acceptLegacy ?? true;
+  }
+
+  /** The pepper id used for new hashes. */
+  get currentPepperId(): string {
+    return this._currentPepperId;
+  }
+
+  hash(rawKey: string): string {
+    return this.hashWith(this._currentPepperId, rawKey);
+  }
+
+  verify(rawKey: string, storedHash: string): KeyHashVerification {
+    const parsed = parseKeyHash(storedHash);
+    if (parsed === null) return NO_MATCH;
+
+    if (parsed.version === 1) {
+      if (!this._acceptLegacy) return NO_MATCH;
+      const valid = digestMatches(sha256Digest(encode(rawKey)), parsed.digest);
+      return { valid, needsRehash: valid };
+    }
+
+    const pepper = this._peppers.get(parsed.pepperId as string);
+    if (pepper === undefined) return NO_MATCH;
+    const valid = digestMatches(
+      hmacSHA256(pepper, encode(rawKey)),
+      parsed.digest,
+    );
+    return {
+      valid,
+      needsRehash: valid && parsed.pepperId !== this._currentPepperId,
+    };
+  }
+
+  async verifyAsync(
+    rawKey: string,
+    storedHash: string,
+  ): Promise<KeyHashVerification> {
+    const parsed = parseKeyHash(storedHash);
+    if (parsed === null) return NO_MATCH;
+
+    if (parsed.version === 1) {
+      if (!this._acceptLegacy) return NO_MATCH;
+      const digest = await webCryptoSHA256(encode(rawKey));
+      const valid = digestMatches(digest, parsed.digest);
+      return { valid, needsRehash: valid };
+    }
+
+    const pepperId = parsed.pepperId as string;
+    if (!this._peppers.has(pepperId)) return NO_MATCH;
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await this.cryptoKey(pepperId),
+      encode(rawKey),
+    );
+    const valid = digestMatches(new Uint8Array(signature), parsed.digest);
+    return { valid, needsRehash: valid && pepperId !== this._currentPepperId };
+  }
+
+  candidates(rawKey: string): string[] {
+    const out = [this.hash(rawKey)];
+    for (const id of this._peppers.keys()) {
+      if (id !== this._currentPepperId) out.push(this.hashWith(id, rawKey));
+    }
+    if (this._acceptLegacy) {
+      out.push(arrayToBase64(sha256Digest(encode(rawKey))));
+    }
+    return out;
+  }
+
+  needsRehash(storedHash: string): boolean {
+    const parsed = parseKeyHash(storedHash);
+    return parsed !== null && parsed.pepperId !== this._currentPepperId;
+  }
+
+  private hashWith(pepperId: string, rawKey: string): string {
+    const pepper = this._peppers.get(pepperId) as Uint8Array;
+    const digest = hmacSHA256(pepper, encode(rawKey));
+    return `${V2_PREFIX}${pepperId}$${arrayToBase64(digest)}`;
+  }
+
+  /** Imported WebCrypto HMAC key for a pepper, created once and cached. */
+  private cryptoKey(pepperId: string): Promise<CryptoKey> {
+    let key = this._cryptoKeys.get(pepperId);
+    if (!key) {
+      key = crypto.subtle.importKey(
+        "raw",
+        new Uint8Array(this._peppers.get(pepperId) as Uint8Array),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      );
+      this._cryptoKeys.set(pepperId, key);
+    }
+    return key;
+  }
+}
+
+/** Shared default hasher instance (legacy SHA-256). */
+export const DEFAULT_KEY_HASHER: MajikAPIKeyHasher = new LegacySHA256Hasher();
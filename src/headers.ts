@@ -0,0 +1,121 @@
+import { TO_MINUTES } from "./constants";
+import type { MajikAPI } from "./majik-api";
+import type {
+  RateLimitHeaderOptions,
+  RateLimitHeaderState,
+  UsageReport,
+} from "./types";
+
+// ─────────────────────────────────────────────
+//  Rate-Limit & Quota Response Headers
+// ─────────────────────────────────────────────
+
+/**
+ * Build the response headers that tell a client where it stands against a
+ * key's rate limit and quota.
+ *
+ * IETF (draft-ietf-httpapi-ratelimit-headers), from the limiter decision:
+ *   RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset (seconds from now),
+ *   RateLimit-Policy ("<limit>;w=<window seconds>" of the reported rule,
+ *   plus the periodic quota as a second policy when a usage report is given).
+ *
+ * Legacy, for clients written against GitHub-style APIs:
+ *   X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset (Unix
+ *   seconds).
+ *
+ * Quota, for periodic quotas only:
+ *   X-Quota-Limit, X-Quota-Remaining, X-Quota-Reset (seconds from now).
+ *
+ * Retry-After (seconds) is set when the limiter or the quota denied the
+ * request — the later of the two when both did. Exhausted fixed quotas never
+ * reset, so they get no Retry-After.
+ *
+ * @example
+ * const rateLimit = await limiter.consume(key);
+ * const usage = await meter.consume(key);
+ * for (const [name, value] of Object.entries(
+ *   buildRateLimitHeaders(key, { rateLimit, usage }),
+ * )) {
+ *   res.setHeader(name, value);
+ * }
+ */
+export function buildRateLimitHeaders(
+  key: MajikAPI,
+  state: RateLimitHeaderState,
+  options: RateLimitHeaderOptions = {},
+): Record<string, string> {
+  const now = (state.now ?? new Date()).getTime();
+  const { rateLimit, usage } = state;
+  const quota = isPeriodicUsage(key, usage) ? usage : null;
+  const headers: Record<string, string> = {};
+
+  if (rateLimit) {
+    const resetSeconds = secondsUntil(rateLimit.resetAt, now);
+
+    if (options.ietf ?? true) {
+      const windowSeconds = TO_MINUTES[rateLimit.rule.frequency] * 60;
+      const policies = [`${rateLimit.limit};w=${windowSeconds}`];
+      if (quota) {
+        const quotaWindow = secondsBetween(quota.periodStart, quota.resetsAt);
+        policies.push(`${quota.limit};w=${quotaWindow};comment="quota"`);
+      }
+      headers["RateLimit-Limit"] = String(rateLimit.limit);
+      headers["RateLimit-Remaining"] = String(rateLimit.remaining);
+      headers["RateLimit-Reset"] = String(resetSeconds);
+      headers["RateLimit-Policy"] = policies.join(", ");
+    }
+
+    if (options.legacy ?? true) {
+      headers["X-RateLimit-Limit"] = String(rateLimit.limit);
+      headers["X-RateLimit-Remaining"] = String(rateLimit.remaining);
+      headers["X-RateLimit-Reset"] = String(
+        Math.ceil(rateLimit.resetAt.getTime() / 1000),
+      );
+    }
+  }
+
+  if (quota && (options.quota ?? true)) {
+    headers["X-Quota-Limit"] = String(quota.limit);
+    headers["X-Quota-Remaining"] = String(quota.remaining);
+    headers["X-Quota-Reset"] = String(
+      secondsUntil(quota.resetsAt as Date, now),
+    );
+  }
+
+  const waits: number[] = [];
+  if (rateLimit && !rateLimit.allowed) {
+    waits.push(Math.max(1, Math.ceil(rateLimit.retryAfterMs / 1000)));
+  }
+  if (quota && quota.allowed === false) {
+    waits.push(Math.max(1, secondsUntil(quota.resetsAt as Date, now)));
+  }
+  if (waits.length > 0) headers["Retry-After"] = String(Math.max(...waits));
+
+  return headers;
+}
+
+// ─────────────────────────────────────────────
+//  Private Helpers
+// ─────────────────────────────────────────────
+
+/** True when the report belongs to a periodic quota with a known reset. */
+function isPeriodicUsage(
+  key: MajikAPI,
+  usage: UsageReport | null | undefined,
+): usage is UsageReport {
+  return (
+    usage != null &&
+    key.quota?.type === "periodic" &&
+    usage.limit !== null &&
+    usage.resetsAt !== null
+  );
+}
+
+function secondsUntil(date: Date, now: number): number {
+  return Math.max(0, Math.ceil((date.getTime() - now) / 1000));
+}
+
+function secondsBetween(start: Date | null, end: Date | null): number {
+  if (start === null || end === null) return 0;
+  return Math.round((end.getTime() - start.getTime()) / 1000);
+}
@@ -1,2 +1,25 @@
 export * from "./majik-api";
+export * from "./audit";
+export * from "./authorize";
+export * from "./config";
+export * from "./domain";
+export * from "./errors";
+export * from "./expiry";
+export * from "./hashing";
+export * from "./headers";
+export * from "./ip";
+export * from "./json-schema";
+export * from "./key-cache";
+export * from "./key-format";
+export * from "./middleware";
+export * from "./migrations";
+export * from "./policies";
+export * from "./rate-limiter";
+export * from "./revocation-list";
+export * from "./routes";
+export * from "./scopes";
+export * from "./store";
+export * from "./time-windows";
+export * from "./usage";
+export * from "./validation";
 export type * from "./types";
@@ -0,0 +1,314 @@
+// ─────────────────────────────────────────────
+//  IP Address & CIDR Engine
+// ─────────────────────────────────────────────
+//
+//  All matching is done on a unified 128-bit space: IPv4 addresses are
+//  lifted into the IPv4-mapped IPv6 range (::ffff:0:0/96). This lets a
+//  whitelisted "10.0.0.0/8" match a client reported as "::ffff:10.1.2.3"
+//  (common behind dual-stack sockets) and vice versa.
+// ─────────────────────────────────────────────
+
+import { MajikAPIValidationError } from "./errors";
+import type { IPOverlap, IPRange, ParsedIP } from "./types";
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+
+// ─────────────────────────────────────────────
+//  Parsing
+// ─────────────────────────────────────────────
+
+function parseIPv4(input: string): bigint | null {
+  const octets = input.split(".");
+  if (octets.length !== 4) return null;
+
+  let value = 0n;
+  for (const octet of octets) {
+    if (!/^\d{1,3}$/.test(octet)) return null;
+    const n = parseInt(octet, 10);
+    if (n > 255) return null;
+    value = (value << 8n) | BigInt(n);
+  }
+  return value;
+}
+
+function parseIPv6(input: string): bigint | null {
+  let address = input;
+
+  // Rewrite a trailing dotted quad as the two 16-bit groups it occupies.
+  const lastColon = address.lastIndexOf(":");
+  if (address.includes(".", lastColon)) {
+    const v4 = parseIPv4(address.slice(lastColon + 1));
+    if (v4 === null) return null;
+    address =
+      address.slice(0, lastColon + 1) +
+      `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const parseGroups = (part: string): bigint[] | null => {
+    if (part === "") return [];
+    const out: bigint[] = [];
+    for (const g of part.split(":")) {
+      if (!/^[0-9a-fA-F]{1,4}$/.test(g)) return null;
+      out.push(BigInt(parseInt(g, 16)));
+    }
+    return out;
+  };
+
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if (head === null || tail === null) return null;
+
+  const explicit = head.length + tail.length;
+  if (halves.length === 2 ? explicit > 7 : explicit !== 8) return null;
+
+  const groups = [
+    ...head,
+    ...new Array<bigint>(8 - explicit).fill(0n),
+    ...tail,
+  ];
+  return groups.reduce((acc, g) => (acc << 16n) | g, 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. Supports compressed "::" notation,
+ * embedded/mapped IPv4 ("::ffff:192.0.2.1") and zone IDs ("fe80::1%eth0").
+ * Returns null for anything that is not a single address.
+ */
+export function parseIP(input: string): ParsedIP | null {
+  if (typeof input !== "string") return null;
+  const trimmed = input.trim();
+  if (trimmed === "") return null;
+
+  if (!trimmed.includes(":")) {
+    const value = parseIPv4(trimmed);
+    return value === null ? null : { version: 4, value, zone: null };
+  }
+
+  let address = trimmed;
+  let zone: string | null = null;
+  const percent = address.indexOf("%");
+  if (percent !== -1) {
+    zone = address.slice(percent + 1);
+    address = address.slice(0, percent);
+    if (!/^[0-9A-Za-z._~-]+$/.test(zone)) return null;
+  }
+
+  const value = parseIPv6(address);
+  return value === null ? null : { version: 6, value, zone };
+}
+
+/**
+ * Parse a CIDR range ("10.0.0.0/16", "2001:db8::/32") or a single address,
+ * which is treated as a full-length range. Host bits set in the input are
+ * cleared in the returned `network`.
+ */
+export function parseIPRange(input: string): IPRange | null {
+  if (typeof input !== "string") return null;
+  const trimmed = input.trim();
+  const slash = trimmed.indexOf("/");
+
+  const ip = parseIP(slash === -1 ? trimmed : trimmed.slice(0, slash));
+  if (ip === null) return null;
+
+  const bits = ip.version === 4 ? IPV4_BITS : IPV6_BITS;
+  let prefix = bits;
+  if (slash !== -1) {
+    const raw = trimmed.slice(slash + 1);
+    if (!/^\d{1,3}$/.test(raw)) return null;
+    prefix = parseInt(raw, 10);
+    if (prefix > bits) return null;
+  }
+
+  return {
+    version: ip.version,
+    network: ip.value & prefixMask(prefix, bits),
+    prefix,
+    zone: ip.zone,
+  };
+}
+
+// ─────────────────────────────────────────────
+//  Formatting & Normalisation
+// ─────────────────────────────────────────────
+
+function formatIPv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n]
+    .map((s) => ((value >> s) & 0xffn).toString())
+    .join(".");
+}
+
+function formatIPv6(value: bigint): string {
+  if (value >> 32n === 0xffffn) {
+    return `::ffff:${formatIPv4(value & 0xffffffffn)}`;
+  }
+
+  const groups: number[] = [];
+  for (let i = 7; i >= 0; i--) {
+    groups.push(Number((value >> BigInt(i * 16)) & 0xffffn));
+  }
+
+  // RFC 5952: compress the longest run (>= 2) of zero groups, leftmost first.
+  let bestStart = -1;
+  let bestLen = 0;
+  for (let i = 0; i < 8;) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLen && j - i >= 2) {
+      bestStart = i;
+      bestLen = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return (
+    hex.slice(0, bestStart).join(":") +
+    "::" +
+    hex.slice(bestStart + bestLen).join(":")
+  );
+}
+
+/** Canonical text form of an address (lowercase, RFC 5952 compression). */
+export function formatIP(ip: ParsedIP): string {
+  const text = ip.version === 4 ? formatIPv4(ip.value) : formatIPv6(ip.value);
+  return ip.zone ? `${text}%${ip.zone}` : text;
+}
+
+/**
+ * Canonical text form of a range. Full-length ranges are written as a bare
+ * address; everything else as "network/prefix".
+ */
+export function formatIPRange(range: IPRange): string {
+  const ip = formatIP({
+    version: range.version,
+    value: range.network,
+    zone: range.zone,
+  });
+  const bits = range.version === 4 ? IPV4_BITS : IPV6_BITS;
+  return range.prefix === bits ? ip : `${ip}/${range.prefix}`;
+}
+
+/**
+ * Normalise a whitelist entry so that equivalent spellings compare equal:
+ * "10.0.0.5/16" → "10.0.0.0/16", "2001:DB8:0:0::1/128" → "2001:db8::1".
+ * Throws a MajikAPIValidationError for anything that is not an address or
+ * CIDR range.
+ */
+export function normalizeIPEntry(entry: string): string {
+  const range = parseIPRange(entry);
+  if (range === null) {
+    throw new MajikAPIValidationError(
+      [
+        {
+          path: "entry",
+          code: "invalid_format",
+          message: `"entry" is not a valid IP address or CIDR: "${entry}"`,
+        },
+      ],
+      "normalizeIPEntry",
+    );
+  }
+  return formatIPRange(range);
+}
+
+// ─────────────────────────────────────────────
+//  Matching
+// ─────────────────────────────────────────────
+
+function prefixMask(prefix: number, bits: number): bigint {
+  const all = (1n << BigInt(bits)) - 1n;
+  return prefix === 0 ? 0n : (all << BigInt(bits - prefix)) & all;
+}
+
+/** Lift a range into the unified 128-bit space. */
+function unify(range: IPRange): { network: bigint; prefix: number } {
+  if (range.version === 6)
+    return { network: range.network, prefix: range.prefix };
+  return {
+    network: IPV4_MAPPED_PREFIX | range.network,
+    prefix: range.prefix + (IPV6_BITS - IPV4_BITS),
+  };
+}
+
+/** A single address as a full-length range, or null if `ip` is not one. */
+function addressRange(ip: string): IPRange | null {
+  const parsed = parseIP(ip);
+  if (parsed === null) return null;
+  return {
+    version: parsed.version,
+    network: parsed.value,
+    prefix: parsed.version === 4 ? IPV4_BITS : IPV6_BITS,
+    zone: parsed.zone,
+  };
+}
+
+function contains(outer: IPRange, inner: IPRange): boolean {
+  if (outer.zone !== null && outer.zone !== inner.zone) return false;
+  const a = unify(outer);
+  const b = unify(inner);
+  if (a.prefix > b.prefix) return false;
+  const mask = prefixMask(a.prefix, IPV6_BITS);
+  return (b.network & mask) === a.network;
+}
+
+/**
+ * True when `ip` falls inside `range`. Both arguments accept the same
+ * syntax as whitelist entries. An entry with a zone ID only matches
+ * addresses carrying the same zone; entries without a zone ignore it.
+ */
+export function ipInRange(ip: string, range: string): boolean {
+  const address = addressRange(ip);
+  const outer = parseIPRange(range);
+  if (address === null || outer === null) return false;
+  return contains(outer, address);
+}
+
+/**
+ * Return the first whitelist entry that contains `ip`, or null if none do.
+ * Invalid entries are skipped rather than thrown on.
+ */
+export function matchIP(ip: string, entries: readonly string[]): string | null {
+  const address = addressRange(ip);
+  if (address === null) return null;
+  for (const entry of entries) {
+    const range = parseIPRange(entry);
+    if (range !== null && contains(range, address)) return entry;
+  }
+  return null;
+}
+
+/**
+ * Detect duplicate and overlapping ranges within a list of whitelist
+ * entries. Invalid entries are ignored — validate them separately.
+ */
+export function findIPOverlaps(entries: readonly string[]): IPOverlap[] {
+  const parsed = entries
+    .map((entry) => ({ entry, range: parseIPRange(entry) }))
+    .filter((p): p is { entry: string; range: IPRange } => p.range !== null);
+
+  const overlaps: IPOverlap[] = [];
+  for (let i = 0; i < parsed.length; i++) {
+    for (let j = i + 1; j < parsed.length; j++) {
+      const a = parsed[i];
+      const b = parsed[j];
+      const aInB = contains(b.range, a.range);
+      const bInA = contains(a.range, b.range);
+      if (aInB && bInA) {
+        overlaps.push({ kind: "duplicate", entries: [a.entry, b.entry] });
+      } else if (aInB || bInA) {
+        overlaps.push({ kind: "overlap", entries: [a.entry, b.entry] });
+      }
+    }
+  }
+  return overlaps;
+}
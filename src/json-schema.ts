@@ -0,0 +1,217 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  HTTP_METHODS,
+  QUOTA_FREQUENCIES,
+  RATE_LIMIT_FREQUENCIES,
+  REVOCATION_REASONS,
+  WEEKDAYS,
+} from "./constants";
+
+// ─────────────────────────────────────────────
+//  JSON Schema
+// ─────────────────────────────────────────────
+
+const NON_EMPTY_STRING = { type: "string", minLength: 1 } as const;
+const DATE_TIME = { type: "string", format: "date-time" } as const;
+const TIME_OF_DAY = {
+  type: "string",
+  pattern: "^(([01][0-9]|2[0-3]):[0-5][0-9]|24:00)$",
+} as const;
+const SCOPE = {
+  type: "string",
+  pattern: "^(\\*|[a-z0-9][a-z0-9_-]*(:[a-z0-9][a-z0-9_-]*)*(:\\*)?)$",
+} as const;
+
+/**
+ * JSON Schema (draft 2020-12) for MajikAPIJSON in the current
+ * `schema_version`, exactly as `toJSON()` writes it. Use it for database
+ * check constraints (e.g. pg_jsonschema) and OpenAPI documents.
+ *
+ * It is stricter than fromJSON(), which also accepts rows with missing
+ * nullable columns and older schema versions. IP and domain entries are
+ * only checked to be strings — use validateMajikAPIJSON() for the rest.
+ *
+ * @example
+ * // OpenAPI 3.1
+ * components: { schemas: { MajikAPIKey: MAJIK_API_JSON_SCHEMA } }
+ */
+export const MAJIK_API_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "MajikAPIJSON",
+  description: "A serialised MajikAPI key. Never contains the raw key.",
+  type: "object",
+  additionalProperties: false,
+  required: [
+    "id",
+    "owner_id",
+    "parent_id",
+    "name",
+    "api_key",
+    "key_id",
+    "key_prefix",
+    "previous_keys",
+    "timestamp",
+    "restricted",
+    "valid_from",
+    "valid_until",
+    "revoked_at",
+    "revoked_by",
+    "revocation_reason",
+    "is_valid",
+    "settings",
+    "policy_id",
+    "overrides",
+    "schema_version",
+    "version",
+  ],
+  properties: {
+    id: NON_EMPTY_STRING,
+    owner_id: NON_EMPTY_STRING,
+    parent_id: { type: ["string", "null"], minLength: 1 },
+    name: NON_EMPTY_STRING,
+    api_key: NON_EMPTY_STRING,
+    key_id: { type: ["string", "null"], minLength: 1 },
+    key_prefix: { type: ["string", "null"], minLength: 1 },
+    previous_keys: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["api_key", "key_id", "expires_at"],
+        properties: {
+          api_key: NON_EMPTY_STRING,
+          key_id: { type: ["string", "null"], minLength: 1 },
+          expires_at: DATE_TIME,
+        },
+      },
+    },
+    timestamp: DATE_TIME,
+    restricted: { type: "boolean" },
+    valid_from: { type: ["string", "null"], format: "date-time" },
+    valid_until: { type: ["string", "null"], format: "date-time" },
+    revoked_at: { type: ["string", "null"], format: "date-time" },
+    revoked_by: { type: ["string", "null"], minLength: 1 },
+    revocation_reason: { enum: [...REVOCATION_REASONS, null] },
+    is_valid: { type: "boolean" },
+    settings: { $ref: "#/$defs/settings" },
+    policy_id: { type: ["string", "null"], minLength: 1 },
+    overrides: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        rateLimit: { $ref: "#/$defs/rateLimit" },
+        rateLimits: { $ref: "#/$defs/rateLimits" },
+        quota: { $ref: "#/$defs/quota" },
+        allowedMethods: { $ref: "#/$defs/allowedMethods" },
+        scopes: { $ref: "#/$defs/scopes" },
+      },
+    },
+    schema_version: { const: CURRENT_SCHEMA_VERSION },
+    version: { type: "integer", minimum: 0 },
+  },
+  $defs: {
+    settings: {
+      type: "object",
+      required: ["rateLimit", "quota", "ipWhitelist", "domainWhitelist"],
+      properties: {
+        rateLimit: { $ref: "#/$defs/rateLimit" },
+        rateLimits: { $ref: "#/$defs/rateLimits" },
+        quota: { $ref: "#/$defs/quota" },
+        ipWhitelist: {
+          type: "object",
+          additionalProperties: false,
+          required: ["enabled", "addresses"],
+          properties: {
+            enabled: { type: "boolean" },
+            addresses: { type: "array", items: NON_EMPTY_STRING },
+          },
+        },
+        domainWhitelist: {
+          type: "object",
+          additionalProperties: false,
+          required: ["enabled", "domains"],
+          properties: {
+            enabled: { type: "boolean" },
+            domains: { type: "array", items: NON_EMPTY_STRING },
+          },
+        },
+        allowedMethods: { $ref: "#/$defs/allowedMethods" },
+        scopes: { $ref: "#/$defs/scopes" },
+        timeWindows: { $ref: "#/$defs/timeWindows" },
+        metadata: { type: "object" },
+      },
+    },
+    rateLimit: {
+      type: "object",
+      additionalProperties: false,
+      required: ["amount", "frequency"],
+      properties: {
+        amount: { type: "integer", minimum: 1 },
+        frequency: { enum: RATE_LIMIT_FREQUENCIES },
+      },
+    },
+    rateLimits: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["amount", "frequency"],
+        properties: {
+          amount: { type: "integer", minimum: 1 },
+          frequency: { enum: RATE_LIMIT_FREQUENCIES },
+          method: { enum: HTTP_METHODS },
+          route: { type: "string", pattern: "^/" },
+        },
+      },
+    },
+    quota: {
+      oneOf: [
+        { type: "null" },
+        {
+          type: "object",
+          additionalProperties: false,
+          required: ["type", "limit"],
+          properties: {
+            type: { const: "fixed" },
+            limit: { type: "integer", minimum: 1 },
+          },
+        },
+        {
+          type: "object",
+          additionalProperties: false,
+          required: ["type", "limit", "frequency"],
+          properties: {
+            type: { const: "periodic" },
+            limit: { type: "integer", minimum: 1 },
+            frequency: { enum: QUOTA_FREQUENCIES },
+          },
+        },
+      ],
+    },
+    allowedMethods: {
+      type: "array",
+      items: { enum: HTTP_METHODS },
+      uniqueItems: true,
+    },
+    scopes: { type: "array", items: SCOPE, uniqueItems: true },
+    timeWindows: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["days", "start", "end", "timeZone"],
+        properties: {
+          days: {
+            type: "array",
+            items: { enum: WEEKDAYS },
+            minItems: 1,
+            uniqueItems: true,
+          },
+          start: TIME_OF_DAY,
+          end: TIME_OF_DAY,
+          timeZone: NON_EMPTY_STRING,
+        },
+      },
+    },
+  },
+} as const;
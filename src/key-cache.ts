@@ -0,0 +1,318 @@
+import { DEFAULT_KEY_HASHER } from "./hashing";
+import { MajikAPI } from "./majik-api";
+import type { MajikAPIRevocationList } from "./revocation-list";
+import { MajikAPIRepository } from "./store";
+import type {
+  CachedKeyResolverOptions,
+  MajikAPICachedKey,
+  MajikAPIClock,
+  MajikAPIJSON,
+  MajikAPIKeyCache,
+  MajikAPIKeyHasher,
+  MajikAPIKeyResolver,
+} from "./types";
+import {
+  assertNonNegativeInteger,
+  assertPositiveInteger,
+  systemClock,
+} from "./utils";
+
+// ─────────────────────────────────────────────
+//  In-Memory Shared Cache
+// ─────────────────────────────────────────────
+
+/**
+ * Reference MajikAPIKeyCache backed by a Map. Use it in tests in place of
+ * Redis. Expiry is evaluated lazily against `clock`.
+ */
+export class InMemoryMajikAPIKeyCache implements MajikAPIKeyCache {
+  private readonly _entries = new Map<
+    string,
+    { entry: MajikAPICachedKey; expiresAt: number }
+  >();
+  private readonly _clock: MajikAPIClock;
+
+  constructor(clock: MajikAPIClock = systemClock) {
+    this._clock = clock;
+  }
+
+  async get(key: string): Promise<MajikAPICachedKey | null> {
+    const found = this._entries.get(key);
+    if (!found) return null;
+    if (found.expiresAt <= this._clock().getTime()) {
+      this._entries.delete(key);
+      return null;
+    }
+    return structuredClone(found.entry);
+  }
+
+  async set(
+    key: string,
+    entry: MajikAPICachedKey,
+    ttlMs: number,
+  ): Promise<void> {
+    this._entries.set(key, {
+      entry: structuredClone(entry),
+      expiresAt: this._clock().getTime() + ttlMs,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this._entries.delete(key);
+  }
+
+  get size(): number {
+    return this._entries.size;
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Cached Resolver
+// ─────────────────────────────────────────────
+
+/**
+ * A MajikAPIKeyResolver that caches key records in front of another one,
+ * usually a MajikAPIRepository. Records are looked up in an in-process LRU
+ * first, then in the optional shared cache, and only then in the source.
+ *
+ * - A record is served for `ttlMs`, but never past the key's expiry or the
+ *   end of a rotation grace period, so the cache cannot keep a key alive.
+ * - With `staleWhileRevalidateMs`, an expired record is still served while
+ *   one background lookup refreshes it.
+ * - Concurrent misses for the same key share one lookup.
+ * - Keys the source does not find are not cached; give the repository a
+ *   MajikAPINegativeCache for that.
+ *
+ * Call watch() to drop cached records whenever a key is rotated, revoked or
+ * changed in this process, and invalidate() after saving changes made
+ * elsewhere. Each verify() resolves a fresh instance; changes to it do not
+ * touch the cache.
+ *
+ * @example
+ * const resolver = new CachedKeyResolver(repository, {
+ *   ttlMs: 30_000,
+ *   staleWhileRevalidateMs: 10_000,
+ *   shared: redisKeyCache,
+ * });
+ * resolver.watch();
+ * app.use("/v1", majikExpress({ resolver }));
+ */
+export class CachedKeyResolver implements MajikAPIKeyResolver {
+  private readonly _source: MajikAPIKeyResolver;
+  private readonly _ttlMs: number;
+  private readonly _staleMs: number;
+  private readonly _maxEntries: number;
+  private readonly _shared: MajikAPIKeyCache | undefined;
+  private readonly _prefix: string;
+  private readonly _hasher: MajikAPIKeyHasher;
+  private readonly _load: (row: MajikAPIJSON) => MajikAPI;
+  private readonly _revocations: MajikAPIRevocationList | undefined;
+  private readonly _clock: MajikAPIClock;
+  /** Lookup hash → entry, least recently used first. */
+  private readonly _entries = new Map<string, MajikAPICachedKey>();
+  /** Key id → lookup hashes it is cached under. */
+  private readonly _byId = new Map<string, Set<string>>();
+  private readonly _inflight = new Map<string, Promise<MajikAPIJSON | null>>();
+  /** Bumped by every invalidation, so lookups already running don't cache. */
+  private _generation = 0;
+
+  constructor(
+    source: MajikAPIKeyResolver,
+    options: CachedKeyResolverOptions = {},
+  ) {
+    if (typeof source?.verify !== "function") {
+      throw new TypeError(
+        "[MajikAPI] CachedKeyResolver: 'source' must have a verify(rawKey) method (e.g. a MajikAPIRepository).",
+      );
+    }
+    const repository = source instanceof MajikAPIRepository ? source : null;
+
+    this._source = source;
+    this._ttlMs = options.ttlMs ?? 60_000;
+    this._staleMs = options.staleWhileRevalidateMs ?? 0;
+    this._maxEntries = options.maxEntries ?? 1000;
+    assertPositiveInteger(this._ttlMs, "options.ttlMs");
+    assertNonNegativeInteger(this._staleMs, "options.staleWhileRevalidateMs");
+    assertPositiveInteger(this._maxEntries, "options.maxEntries");
+    this._shared = options.shared;
+    this._prefix = options.keyPrefix ?? "majik:key";
+    this._hasher = options.hasher ?? repository?.hasher ?? DEFAULT_KEY_HASHER;
+    this._load =
+      options.load ??
+      ((row) => (repository ? repository.load(row) : MajikAPI.fromJSON(row)));
+    this._revocations = options.revocations;
+    this._clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Resolve a raw key, from the cache when possible. Resolves null when the
+   * source does not know the key.
+   *
+   * Errors from a background refresh are swallowed; the stale record keeps
+   * being served until its stale window ends.
+   */
+  async verify(rawKey: string): Promise<MajikAPI | null> {
+    if (typeof rawKey !== "string" || rawKey.trim() === "") return null;
+    const raw = rawKey.trim();
+    const hash = this._hasher.hash(raw);
+    const now = this._clock().toISOString();
+
+    const entry = await this.lookup(hash);
+    if (entry !== null && now < entry.stale_until) {
+      if (now >= entry.fresh_until) {
+        this.refresh(raw, hash).catch(() => {});
+      }
+      return this._load(entry.row);
+    }
+
+    const row = await this.refresh(raw, hash);
+    return row === null ? null : this._load(row);
+  }
+
+  /**
+   * Drop every cached record of a key, in this process and in the shared
+   * cache. Pass the key itself to also reach shared-cache entries other
+   * processes created under its hashes; before it is saved, that includes
+   * hashes the save retires (see `getRetiredHashes()`).
+   */
+  async invalidate(key: MajikAPI | string): Promise<void> {
+    const id = typeof key === "string" ? key : key.id;
+    const hashes = new Set(this._byId.get(id));
+    if (key instanceof MajikAPI) {
+      hashes.add(key.apiKey);
+      key.previousKeys.forEach((k) => hashes.add(k.apiKey));
+      key.getRetiredHashes().forEach((k) => hashes.add(k.apiKey));
+    }
+
+    this._generation += 1;
+    this._byId.delete(id);
+    hashes.forEach((hash) => this._entries.delete(hash));
+    const shared = this._shared;
+    if (shared) {
+      await Promise.all(
+        [...hashes].map((hash) => shared.delete(this.sharedKey(hash))),
+      );
+    }
+  }
+
+  /**
+   * Invalidate a key whenever any instance of it is changed in this process
+   * — rotated, revoked, restricted, its settings edited, and so on. Returns
+   * a function that stops watching.
+   *
+   * Changes are seen when they are made, before they are saved: call
+   * invalidate() once more after saving so a lookup in between cannot cache
+   * the old row again.
+   */
+  watch(): () => void {
+    return MajikAPI.onAudit((event) => {
+      if (event.operation === "create" || event.operation === "derive") return;
+      this.invalidate(event.entity_id).catch(() => {});
+    });
+  }
+
+  /** Empty the in-process cache. The shared cache is left alone. */
+  clear(): void {
+    this._generation += 1;
+    this._entries.clear();
+    this._byId.clear();
+  }
+
+  /** Number of records in the in-process cache. */
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /** The cached entry from the LRU or shared cache, or null. */
+  private async lookup(hash: string): Promise<MajikAPICachedKey | null> {
+    let entry = this._entries.get(hash) ?? null;
+    if (entry !== null) {
+      this._entries.delete(hash);
+      this._entries.set(hash, entry);
+    } else if (this._shared) {
+      entry = await this._shared.get(this.sharedKey(hash));
+      if (entry !== null) this.remember(hash, entry);
+    }
+    if (entry !== null && this._revocations?.check(entry.row, hash)) {
+      await this.invalidate(entry.row.id);
+      return null;
+    }
+    return entry;
+  }
+
+  /** Look the key up in the source and cache the result. Coalesced by hash. */
+  private refresh(raw: string, hash: string): Promise<MajikAPIJSON | null> {
+    const pending = this._inflight.get(hash);
+    if (pending) return pending;
+
+    const generation = this._generation;
+    const promise = (async () => {
+      const key = await this._source.verify(raw);
+      if (key === null) {
+        this.forget(hash);
+        await this._shared?.delete(this.sharedKey(hash));
+        return null;
+      }
+
+      const row = key.toJSON();
+      if (generation === this._generation) {
+        const entry = this.entryFor(key, row);
+        const ttlMs = Date.parse(entry.stale_until) - this._clock().getTime();
+        if (ttlMs > 0) {
+          this.remember(hash, entry);
+          await this._shared?.set(this.sharedKey(hash), entry, ttlMs);
+        }
+      }
+      return row;
+    })().finally(() => this._inflight.delete(hash));
+
+    this._inflight.set(hash, promise);
+    return promise;
+  }
+
+  /**
+   * Freshness window for a record: `ttlMs`, then `staleWhileRevalidateMs`,
+   * both cut off when the key expires or a grace period ends — after that
+   * the record could accept a key that no longer verifies.
+   */
+  private entryFor(key: MajikAPI, row: MajikAPIJSON): MajikAPICachedKey {
+    const now = this._clock().getTime();
+    const deadlines = key.previousKeys.map((k) => k.expiresAt.getTime());
+    if (key.msUntilExpiry > 0) deadlines.push(now + key.msUntilExpiry);
+    const deadline = Math.min(Infinity, ...deadlines);
+
+    const freshUntil = Math.min(now + this._ttlMs, deadline);
+    const staleUntil = Math.min(freshUntil + this._staleMs, deadline);
+    return {
+      row,
+      fresh_until: new Date(freshUntil).toISOString(),
+      stale_until: new Date(staleUntil).toISOString(),
+    };
+  }
+
+  private remember(hash: string, entry: MajikAPICachedKey): void {
+    this._entries.delete(hash);
+    this._entries.set(hash, entry);
+    const hashes = this._byId.get(entry.row.id) ?? new Set<string>();
+    this._byId.set(entry.row.id, hashes.add(hash));
+
+    for (const oldest of this._entries.keys()) {
+      if (this._entries.size <= this._maxEntries) break;
+      this.forget(oldest);
+    }
+  }
+
+  /** Drop one hash from the LRU and from its key's index entry. */
+  private forget(hash: string): void {
+    const entry = this._entries.get(hash);
+    if (entry === undefined) return;
+    this._entries.delete(hash);
+    const siblings = this._byId.get(entry.row.id);
+    siblings?.delete(hash);
+    if (siblings?.size === 0) this._byId.delete(entry.row.id);
+  }
+
+  private sharedKey(hash: string): string {
+    return `${this._prefix}:${hash}`;
+  }
+}
@@ -0,0 +1,205 @@
+// ─────────────────────────────────────────────
+//  API Key Format
+// ─────────────────────────────────────────────
+//
+//  Generated keys look like:
+//
+//    mjk_live_3fK9aQ2z_Vb8…(43 chars)…_0aZ9xQ
+//    └┬┘ └┬─┘ └──┬───┘ └──────┬──────┘ └──┬─┘
+//  prefix  env  key id       secret      CRC-32
+//
+//  - prefix + env make keys recognisable by secret scanners and show at a
+//    glance which environment a key belongs to.
+//  - key id is public and safe to display ("mjk_live_3fK9aQ2z…").
+//  - secret is 256 bits from the platform CSPRNG, base62-encoded.
+//  - checksum is a CRC-32 of everything before it, so typos and truncated
+//    keys are rejected offline before any hashing or database lookup.
+// ─────────────────────────────────────────────
+
+import {
+  DEFAULT_KEY_ENVIRONMENT,
+  DEFAULT_KEY_ID_LENGTH,
+  DEFAULT_KEY_PREFIX,
+} from "./constants";
+import type { GeneratedAPIKey, KeyFormatOptions, ParsedAPIKey } from "./types";
+
+const BASE62 = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const SEGMENT = /^[a-z][a-z0-9]{0,15}$/;
+const BASE62_RE = /^[0-9A-Za-z]+$/;
+const CHECKSUM_LENGTH = 6;
+const SECRET_LENGTH = 43; // ⌈256 / log2(62)⌉
+
+// ─────────────────────────────────────────────
+//  Encoding Helpers
+// ─────────────────────────────────────────────
+
+/** Uniformly random base62 string using rejection sampling. */
+function randomBase62(length: number): string {
+  let out = "";
+  const buf = new Uint8Array(length * 2);
+  while (out.length < length) {
+    crypto.getRandomValues(buf);
+    for (const byte of buf) {
+      // 248 = 62 * 4 — discard the tail to avoid modulo bias.
+      if (byte < 248) out += BASE62[byte % 62];
+      if (out.length === length) break;
+    }
+  }
+  return out;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(input: string): number {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(input)) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function checksum(body: string): string {
+  let n = crc32(body);
+  let out = "";
+  for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+    out = BASE62[n % 62] + out;
+    n = Math.floor(n / 62);
+  }
+  return out;
+}
+
+function resolveFormat(options: KeyFormatOptions): {
+  prefix: string;
+  environment: string;
+  keyIdLength: number;
+} {
+  const prefix = options.prefix ?? DEFAULT_KEY_PREFIX;
+  const environment = options.environment ?? DEFAULT_KEY_ENVIRONMENT;
+  const keyIdLength = options.keyIdLength ?? DEFAULT_KEY_ID_LENGTH;
+
+  if (!SEGMENT.test(prefix)) {
+    throw new TypeError(
+      `[MajikAPI] Key format "prefix" must be 1–16 lowercase letters/digits starting with a letter. Received: ${JSON.stringify(prefix)}`,
+    );
+  }
+  if (!SEGMENT.test(environment)) {
+    throw new TypeError(
+      `[MajikAPI] Key format "environment" must be 1–16 lowercase letters/digits starting with a letter. Received: ${JSON.stringify(environment)}`,
+    );
+  }
+  if (!Number.isInteger(keyIdLength) || keyIdLength < 4 || keyIdLength > 32) {
+    throw new RangeError(
+      `[MajikAPI] Key format "keyIdLength" must be an integer between 4 and 32. Received: ${JSON.stringify(keyIdLength)}`,
+    );
+  }
+  return { prefix, environment, keyIdLength };
+}
+
+// ─────────────────────────────────────────────
+//  Public API
+// ─────────────────────────────────────────────
+
+/**
+ * Generate a new raw API key in the `<prefix>_<env>_<keyId>_<secret>_<crc>`
+ * format.
+ *
+ * @example
+ * const { rawKey, keyId } = generateAPIKey({ environment: "test" });
+ * // rawKey → "mjk_test_3fK9aQ2z_…_0aZ9xQ"
+ */
+export function generateAPIKey(
+  options: KeyFormatOptions = {},
+): GeneratedAPIKey {
+  const { prefix, environment, keyIdLength } = resolveFormat(options);
+  const keyId = randomBase62(keyIdLength);
+  const body = `${prefix}_${environment}_${keyId}_${randomBase62(SECRET_LENGTH)}`;
+  return {
+    rawKey: `${body}_${checksum(body)}`,
+    prefix,
+    environment,
+    keyId,
+  };
+}
+
+/**
+ * Parse and checksum-verify a raw key. Returns null when the input is not a
+ * well-formed key or the checksum does not match. Never throws.
+ *
+ * Pass `options.prefix`/`options.environment` to additionally require a
+ * specific prefix or environment.
+ */
+export function parseAPIKey(
+  raw: string,
+  options: KeyFormatOptions = {},
+): ParsedAPIKey | null {
+  if (typeof raw !== "string") return null;
+  const parts = raw.trim().split("_");
+  if (parts.length !== 5) return null;
+
+  const [prefix, environment, keyId, secret, crc] = parts;
+  if (!SEGMENT.test(prefix) || !SEGMENT.test(environment)) return null;
+  if (!BASE62_RE.test(keyId) || !BASE62_RE.test(secret)) return null;
+  if (crc.length !== CHECKSUM_LENGTH) return null;
+  if (options.prefix !== undefined && options.prefix !== prefix) return null;
+  if (
+    options.environment !== undefined &&
+    options.environment !== environment
+  ) {
+    return null;
+  }
+
+  const body = `${prefix}_${environment}_${keyId}_${secret}`;
+  if (checksum(body) !== crc) return null;
+
+  return { prefix, environment, keyId, secret, checksum: crc };
+}
+
+/**
+ * True when `raw` has the shape of a generated key — prefix, environment
+ * and three base62 segments — whether or not its checksum matches. Input of
+ * this shape that parseAPIKey() rejects is mistyped or truncated and cannot
+ * match any generated key, so it can be refused without a lookup.
+ *
+ * Pass `options.prefix`/`options.environment` to additionally require a
+ * specific prefix or environment. Custom keys (`create(owner, text)`) may
+ * have this shape too; require the configured prefix before refusing one.
+ */
+export function hasAPIKeyShape(
+  raw: string,
+  options: KeyFormatOptions = {},
+): boolean {
+  if (typeof raw !== "string") return false;
+  const parts = raw.trim().split("_");
+  if (parts.length !== 5) return false;
+  const [prefix, environment, ...rest] = parts;
+  if (options.prefix !== undefined && options.prefix !== prefix) return false;
+  if (
+    options.environment !== undefined &&
+    options.environment !== environment
+  ) {
+    return false;
+  }
+  return (
+    SEGMENT.test(prefix) &&
+    SEGMENT.test(environment) &&
+    rest.every((part) => BASE62_RE.test(part))
+  );
+}
+
+/** True when `raw` is a well-formed key with a valid checksum. */
+export function isWellFormedAPIKey(
+  raw: string,
+  options: KeyFormatOptions = {},
+): boolean {
+  return parseAPIKey(raw, options) !== null;
+}
@@ -1,41 +1,112 @@
-import { DEFAULT_RATE_LIMIT, MAX_RATE_LIMIT, TO_MINUTES } from "./constants";
+import { AuditEmitter } from "./audit";
+import { authorize } from "./authorize";
+import {
+  CURRENT_SCHEMA_VERSION,
+  HTTP_METHODS,
+  MAX_RATE_LIMIT,
+  POLICY_FIELDS,
+  QUOTA_FREQUENCIES,
+  REVOCATION_REASONS,
+  WEEKDAYS,
+} from "./constants";
+import { normalizeDomainEntry } from "./domain";
+import {
+  MajikAPIExpiredError,
+  MajikAPIInactiveKeyError,
+  MajikAPIInsufficientScopeError,
+  MajikAPIRateLimitCeilingError,
+  MajikAPIValidationError,
+} from "./errors";
+import { DEFAULT_KEY_HASHER } from "./hashing";
+import { findIPOverlaps, normalizeIPEntry, parseIPRange } from "./ip";
+import { generateAPIKey, parseAPIKey } from "./key-format";
+import { defaultMigrations } from "./migrations";
+import {
+  explainSettings,
+  MajikAPIPolicyRegistry,
+  resolveSettings,
+} from "./policies";
+import { normalizeRoute } from "./routes";
+import {
+  assertScopesInCatalogue,
+  intersectScopes,
+  matchScope,
+  normalizeScope,
+  normalizeScopeCatalogue,
+} from "./scopes";
+import { matchTimeWindow } from "./time-windows";
 import type {
+  AuditChange,
+  AuditErrorListener,
+  AuditEvent,
+  AuditListener,
   DomainWhitelist,
   IPWhitelist,
+  KeyFormatOptions,
+  MajikAPIAuditOperation,
+  MajikAPIAuthorizationDecision,
+  MajikAPIAuthorizeRequest,
+  MajikAPIChanges,
+  MajikAPIConfig,
   MajikAPICreateOptions,
+  MajikAPIDeriveOptions,
   MajikAPIJSON,
+  MajikAPIKeyHasher,
+  MajikAPILoadOptions,
+  MajikAPIMigrationResult,
+  MajikAPIPatch,
+  MajikAPIPolicyField,
+  MajikAPIPolicySettings,
+  MajikAPIRevocation,
+  MajikAPIRevocationReason,
+  MajikAPISettingExplanation,
   MajikAPISettings,
+  MajikAPIRotateOptions,
+  MajikAPITimeWindow,
+  MajikAPIValidationIssue,
+  MajikAPIVerifyResult,
   Quota,
   QuotaFrequency,
   RateLimit,
   RateLimitFrequency,
+  RateLimitRule,
 } from "./types";
 import {
   assertBoolean,
+  assertNonNegativeInteger,
   assertPositiveInteger,
   assertRateLimitFrequency,
   assertString,
   assertStringArray,
   buildDefaultSettings,
+  checkBoolean,
+  checkDomain,
+  checkIP,
+  checkISODate,
+  checkOneOf,
+  checkString,
+  diffJSON,
   generateID,
-  isValidISODate,
-  sha256,
+  systemClock,
+  toRequestsPerMinute,
   validateDomain,
   validateIP,
 } from "./utils";
-
-// ─────────────────────────────────────────────
-//  Constants
-// ─────────────────────────────────────────────
-
-const VALID_QUOTA_FREQUENCIES: QuotaFrequency[] = [
-  "hours",
-  "days",
-  "weeks",
-  "months",
-  "quarters",
-  "years",
-];
+import {
+  assertValid,
+  validateMajikAPIJSON,
+  validateMajikAPISettings,
+  validatePolicySettings,
+  validateRateLimitRules,
+  validateTimeWindows,
+} from "./validation";
+
+/** In-memory form of a MajikAPIPreviousKey. */
+interface PreviousKey {
+  api_key: string;
+  key_id: string | null;
+  expires_at: Date;
+}
 
 // ─────────────────────────────────────────────
 //  MajikAPI Class
@@ -49,24 +120,89 @@ export class MajikAPI {
   //
   //  _owner_id  — UUID of the user who owns this key. FK to auth.users.
   //
+  //  _parent_id — id of the key this one was derived from (see derive()),
+  //               or null for top-level keys.
+  //
   //  _api_key   — SHA-256 hash of the raw plaintext key. Has a UNIQUE INDEX
   //               in Postgres (not the PK). Used as the Redis cache key.
   //               The raw key is never stored or logged anywhere.
   //
+  //  _key_id / _key_prefix — Public parts of a formatted key
+  //               ("mjk_live_<keyId>_…"). Safe to display. null for keys
+  //               created from custom text that is not in that format.
+  //
+  //  _previous_keys — Old hashes still accepted during a grace-period
+  //               rotation. Expired entries are pruned lazily.
+  //
   //  _raw_api_key — Only populated immediately after create(). Cleared
   //                 (undefined) when reconstructed via fromJSON(). This is
   //                 the one and only moment the caller can read the plaintext.
+  //
+  //  _hasher    — Produces and checks _api_key. Not serialised; pass the
+  //               same hasher to create() and fromJSON().
+  //
+  //  _scope_catalogue — Known scopes, if the application registered any.
+  //               Not serialised; checked whenever scopes change.
+  //
+  //  _actor     — Who is making changes, recorded on audit events. Not
+  //               serialised.
+  //
+  //  _version   — Version of the stored row this state is based on. 0 until
+  //               first saved.
+  //
+  //  _baseline  — Serialised state as of the last load or save. getChanges()
+  //               diffs against it. Empty for keys never saved.
+  //
+  //  _policy_id — Policy the key follows, or null. _settings still holds
+  //               every field; policy fields there are only a fallback for
+  //               fields the policy leaves out.
+  //
+  //  _overrides — Per-key values for policy fields. Empty without a policy.
+  //
+  //  _policies  — Registry _policy_id is resolved from. Not serialised.
+  //
+  //  _revocation — When, by whom and why the key was revoked, or null.
+  //               Once set, every mutator throws.
+  //
+  //  _config    — Deployment-wide ceilings, defaults and clock. Not
+  //               serialised; pass the same config to create() and
+  //               fromJSON(), or use a MajikAPIFactory.
+  //
+  //  _valid_from — When the key becomes usable, or null for immediately.
   // ─────────────────────────────────────────────────────────────────────────
 
   private readonly _id: string;
   private readonly _owner_id: string;
+  private _parent_id: string | null;
   private _name: string;
   private _api_key: string;
+  private _key_id: string | null;
+  private _key_prefix: string | null;
+  private _previous_keys: PreviousKey[];
   private _raw_api_key: string | undefined;
   private readonly _timestamp: Date;
   private _restricted: boolean;
   private _valid_until: Date | null;
   private _settings: MajikAPISettings;
+  private _hasher: MajikAPIKeyHasher = DEFAULT_KEY_HASHER;
+  private _scope_catalogue: string[] | null = null;
+  private _actor: string | null = null;
+  private _version = 0;
+  private _baseline: Partial<MajikAPIJSON> = {};
+  private _policy_id: string | null = null;
+  private _overrides: MajikAPIPolicySettings = {};
+  private _policies: MajikAPIPolicyRegistry | null = null;
+  private _config: MajikAPIConfig = {};
+  private _revocation: MajikAPIRevocation | null = null;
+  private _valid_from: Date | null = null;
+  private readonly _audit = new AuditEmitter(MajikAPI.reportAuditError);
+
+  /** Listeners for audit events from every MajikAPI instance. */
+  private static readonly _globalAudit = new AuditEmitter(
+    MajikAPI.reportAuditError,
+  );
+  /** Listeners for errors thrown by audit listeners. */
+  private static readonly _auditErrors = new Set<AuditErrorListener>();
 
   // ─────────────────────────────────────────────
   //  Private Constructor
@@ -75,8 +211,12 @@ export class MajikAPI {
   private constructor(
     id: string,
     owner_id: string,
+    parent_id: string | null,
     name: string,
     api_key: string,
+    key_id: string | null,
+    key_prefix: string | null,
+    previous_keys: PreviousKey[],
     timestamp: Date,
     restricted: boolean,
     valid_until: Date | null,
@@ -85,8 +225,12 @@ export class MajikAPI {
   ) {
     this._id = id;
     this._owner_id = owner_id;
+    this._parent_id = parent_id;
     this._name = name;
     this._api_key = api_key;
+    this._key_id = key_id;
+    this._key_prefix = key_prefix;
+    this._previous_keys = previous_keys;
     this._timestamp = timestamp;
     this._restricted = restricted;
     this._valid_until = valid_until;
@@ -102,69 +246,145 @@ export class MajikAPI {
    * Create a brand-new MajikAPI key instance.
    *
    * @param ownerID - UUID of the user who owns this key. Required.
-   * @param text    - Optional raw key text. If omitted, a UUIDv4 is generated.
-   * @param options - Optional name, expiry, restrictions, and settings.
+   * @param text    - Optional raw key text. If omitted, a key in the
+   *                  `mjk_live_<keyId>_<secret>_<crc>` format is generated
+   *                  (see `options.keyFormat`).
+   * @param options - Optional name, expiry, restrictions, settings, and a
+   *                  scope catalogue to validate `settings.scopes` against.
    *
    * After creation, `instance.rawApiKey` holds the plaintext key. This is the
    * only moment it is accessible. Store it safely — it cannot be recovered.
+   *
+   * Throws a MajikAPIRateLimitCeilingError when the resulting rate limit or
+   * rules, including those from `config.defaultSettings`, exceed the
+   * owner's `maxRateLimit`.
    */
   static create(
     ownerID: string,
     text?: string,
     options: MajikAPICreateOptions = {},
   ): MajikAPI {
-    assertString(ownerID, "ownerID");
-
-    // Resolve raw key
-    let rawKey: string;
-    if (text !== undefined) {
-      if (typeof text !== "string" || text.trim() === "") {
-        throw new TypeError(
-          "[MajikAPI] create(): 'text' must be a non-empty string if provided.",
-        );
-      }
-      rawKey = text.trim();
-    } else {
-      rawKey = generateID();
-    }
+    const instance = MajikAPI.build(ownerID, text, options);
+    instance.assertSettingsWithinCeiling("create");
+    instance.emitAudit("create", diffJSON({}, instance.auditSnapshot()));
+    return instance;
+  }
 
+  /** create() without the audit event. Shared with derive(). */
+  private static build(
+    ownerID: string,
+    text?: string,
+    options: MajikAPICreateOptions = {},
+  ): MajikAPI {
+    const config = options.config ?? {};
+    const now = (config.clock ?? systemClock)();
     const name = options.name ?? "Unnamed Key";
-    if (typeof name !== "string" || name.trim() === "") {
-      throw new TypeError(
-        "[MajikAPI] create(): 'options.name' must be a non-empty string.",
-      );
-    }
-
     const restricted = options.restricted ?? false;
-    assertBoolean(restricted, "options.restricted");
+    // A copy: the defaults are shared by every key of the config.
+    const settings = structuredClone(
+      buildDefaultSettings({ ...config.defaultSettings, ...options.settings }),
+    );
 
-    let valid_until: Date | null = null;
-    if (options.valid_until !== undefined && options.valid_until !== null) {
-      valid_until = MajikAPI.parseDate(
-        options.valid_until,
-        "options.valid_until",
-      );
-      if (valid_until <= new Date()) {
-        throw new RangeError(
-          "[MajikAPI] create(): 'valid_until' must be a future date.",
-        );
-      }
-    }
+    // Collect every problem before throwing, so callers see them all at once.
+    const issues = [
+      checkString(ownerID, "ownerID"),
+      text === undefined ? null : checkString(text, "text"),
+      checkString(name, "options.name"),
+      checkBoolean(restricted, "options.restricted"),
+      options.valid_from === undefined || options.valid_from === null
+        ? null
+        : MajikAPI.checkDate(options.valid_from, "options.valid_from"),
+      options.valid_until === undefined || options.valid_until === null
+        ? null
+        : MajikAPI.checkFutureDate(
+            options.valid_until,
+            "options.valid_until",
+            now,
+          ),
+      options.policy === undefined || options.policy === null
+        ? null
+        : MajikAPI.checkPolicy(
+            options.policy,
+            options.policies ?? null,
+            "options.policy",
+          ),
+    ].filter((issue): issue is MajikAPIValidationIssue => issue !== null);
+    issues.push(
+      ...validateMajikAPISettings(settings, {
+        scopeCatalogue: options.scopeCatalogue,
+      }),
+    );
+    assertValid(issues, "create");
+
+    const rawKey =
+      text !== undefined
+        ? text.trim()
+        : generateAPIKey(options.keyFormat ?? config.keyFormat).rawKey;
+    const parsed = parseAPIKey(rawKey);
+
+    const valid_from =
+      options.valid_from === undefined || options.valid_from === null
+        ? null
+        : MajikAPI.parseDate(options.valid_from, "options.valid_from");
+    const valid_until =
+      options.valid_until === undefined || options.valid_until === null
+        ? null
+        : MajikAPI.parseDate(options.valid_until, "options.valid_until");
+    const conflict = MajikAPI.checkValidityRange(
+      valid_from,
+      valid_until,
+      "options.valid_until",
+    );
+    if (conflict) throw new MajikAPIValidationError([conflict], "create");
+    settings.allowedMethods = (settings.allowedMethods ?? []).map((m) =>
+      m.toUpperCase(),
+    );
+    settings.timeWindows = MajikAPI.normalizeTimeWindows(
+      settings.timeWindows ?? [],
+    );
+
+    const catalogue = MajikAPI.resolveScopeCatalogue(options.scopeCatalogue);
+    settings.scopes = MajikAPI.checkScopes(
+      settings.scopes ?? [],
+      catalogue,
+      "settings.scopes",
+    );
 
-    const settings = buildDefaultSettings(options.settings);
-    MajikAPI.validateSettings(settings);
+    const hasher = options.hasher ?? config.hasher ?? DEFAULT_KEY_HASHER;
 
-    return new MajikAPI(
+    const instance = new MajikAPI(
       generateID(), // _id        — stable primary key, separate from the key hash
       ownerID.trim(), // _owner_id
+      null, // _parent_id
       name.trim(), // _name
-      sha256(rawKey), // _api_key   — hash only, never store raw
-      new Date(), // _timestamp
+      hasher.hash(rawKey), // _api_key — hash only, never store raw
+      parsed?.keyId ?? null, // _key_id
+      parsed ? `${parsed.prefix}_${parsed.environment}` : null, // _key_prefix
+      [], // _previous_keys
+      now, // _timestamp
       restricted,
       valid_until,
       settings,
       rawKey, // _raw_api_key — only available on this fresh instance
     );
+    instance._hasher = hasher;
+    instance._config = config;
+    instance._valid_from = valid_from;
+    instance._scope_catalogue = catalogue;
+    instance._actor = options.actor ?? null;
+    instance._policies = options.policies ?? null;
+    instance._policy_id = options.policy ?? null;
+    if (instance._policy_id !== null) {
+      // Policy fields the caller set explicitly are per-key overrides.
+      for (const field of POLICY_FIELDS) {
+        if (options.settings?.[field] !== undefined) {
+          Object.assign(instance._overrides, {
+            [field]: structuredClone(settings[field]),
+          });
+        }
+      }
+    }
+    return instance;
   }
 
   // ─────────────────────────────────────────────
@@ -177,61 +397,130 @@ export class MajikAPI {
    *
    * `raw_api_key` is intentionally NOT restored — it is never in the JSON.
    * `is_valid` is intentionally NOT restored — it is a computed getter.
+   *
+   * Throws a MajikAPIValidationError listing every invalid field.
+   *
+   * Payloads from older schema versions are upgraded with `MajikAPI.migrate()`
+   * first. An upgraded key reports the migrated fields from getChanges(), so
+   * the next save writes the row back in the current schema.
+   *
+   * @param options.hasher         - The hasher the key was created with.
+   *                                 Required to verify peppered (v2) hashes.
+   * @param options.scopeCatalogue - Known scopes to validate stored scopes
+   *                                 against.
    */
-  static fromJSON(data: MajikAPIJSON): MajikAPI {
+  static fromJSON(
+    data: MajikAPIJSON,
+    options: MajikAPILoadOptions = {},
+  ): MajikAPI {
     if (typeof data !== "object" || data === null || Array.isArray(data)) {
-      throw new TypeError("[MajikAPI] fromJSON(): Expected a plain object.");
-    }
-
-    assertString(data.id, "id");
-    assertString(data.owner_id, "owner_id");
-    assertString(data.name, "name");
-    assertString(data.api_key, "api_key");
-    assertString(data.timestamp, "timestamp");
-
-    if (!isValidISODate(data.timestamp)) {
-      throw new TypeError(
-        `[MajikAPI] fromJSON(): 'timestamp' is not a valid ISO date: "${data.timestamp}"`,
+      throw new MajikAPIValidationError(
+        [
+          {
+            path: "",
+            code: "invalid_type",
+            message: "Expected a plain object.",
+          },
+        ],
+        "fromJSON",
       );
     }
 
-    if (typeof data.restricted !== "boolean") {
-      throw new TypeError(
-        "[MajikAPI] fromJSON(): 'restricted' must be a boolean.",
-      );
-    }
+    const original = data;
+    const migration = MajikAPI.migrate(data);
+    data = migration.data;
+
+    const catalogue = MajikAPI.resolveScopeCatalogue(options.scopeCatalogue);
+    assertValid(
+      validateMajikAPIJSON(data, {
+        scopeCatalogue: options.scopeCatalogue,
+        policies: options.policies,
+      }),
+      "fromJSON",
+    );
 
-    if (data.valid_until !== null && data.valid_until !== undefined) {
-      assertString(data.valid_until, "valid_until");
-      if (!isValidISODate(data.valid_until as string)) {
-        throw new TypeError(
-          "[MajikAPI] fromJSON(): 'valid_until' is not a valid ISO date.",
-        );
-      }
-    }
+    const previousKeys: PreviousKey[] = (data.previous_keys ?? []).map(
+      (entry) => ({
+        api_key: entry.api_key,
+        key_id: entry.key_id ?? null,
+        expires_at: new Date(entry.expires_at),
+      }),
+    );
 
-    if (typeof data.settings !== "object" || data.settings === null) {
-      throw new TypeError(
-        "[MajikAPI] fromJSON(): 'settings' must be an object.",
+    const settings = buildDefaultSettings(data.settings);
+    settings.scopes = MajikAPI.checkScopes(
+      settings.scopes ?? [],
+      catalogue,
+      "settings.scopes",
+    );
+
+    const overrides = structuredClone(data.overrides ?? {});
+    if (overrides.scopes !== undefined) {
+      overrides.scopes = MajikAPI.checkScopes(
+        overrides.scopes,
+        catalogue,
+        "overrides.scopes",
       );
     }
 
-    const settings = buildDefaultSettings(
-      data.settings as Partial<MajikAPISettings>,
-    );
-    MajikAPI.validateSettings(settings);
+    const version = data.version ?? 0;
 
-    return new MajikAPI(
+    const instance = new MajikAPI(
       data.id,
       data.owner_id,
+      data.parent_id ?? null,
       data.name,
       data.api_key,
+      data.key_id ?? null,
+      data.key_prefix ?? null,
+      previousKeys,
       new Date(data.timestamp),
       data.restricted as boolean,
       data.valid_until ? new Date(data.valid_until) : null,
       settings,
       undefined, // raw_api_key is never restored
     );
+    instance._hasher =
+      options.hasher ?? options.config?.hasher ?? DEFAULT_KEY_HASHER;
+    instance._config = options.config ?? {};
+    instance._valid_from = data.valid_from ? new Date(data.valid_from) : null;
+    instance._scope_catalogue = catalogue;
+    instance._actor = options.actor ?? null;
+    instance._policies = options.policies ?? null;
+    instance._policy_id = data.policy_id ?? null;
+    instance._overrides = overrides;
+    instance._revocation = data.revoked_at
+      ? {
+          revokedAt: new Date(data.revoked_at),
+          revokedBy: data.revoked_by ?? null,
+          reason: data.revocation_reason ?? "unspecified",
+        }
+      : null;
+    instance._version = version;
+    if (migration.applied.length > 0) {
+      const { version: _, ...stored } = original;
+      instance._baseline = stored;
+    } else {
+      instance._baseline = instance.persistedState();
+    }
+    return instance;
+  }
+
+  // ─────────────────────────────────────────────
+  //  Schema Migrations
+  // ─────────────────────────────────────────────
+
+  /**
+   * Upgrade a serialised key to the current `schema_version` without
+   * loading it. The input is not modified and the result is not validated —
+   * use fromJSON() for that.
+   *
+   * @example
+   * const { data, applied } = MajikAPI.migrate(legacyRow);
+   * applied; // → [{ from: 0, to: 1, description: "Add key format, …" }]
+   */
+  static migrate(data: unknown): MajikAPIMigrationResult {
+    return defaultMigrations.run(data, CURRENT_SCHEMA_VERSION);
   }
 
   // ─────────────────────────────────────────────
@@ -248,53 +537,160 @@ export class MajikAPI {
     return {
       id: this._id,
       owner_id: this._owner_id,
+      parent_id: this._parent_id,
       name: this._name,
       api_key: this._api_key,
+      key_id: this._key_id,
+      key_prefix: this._key_prefix,
+      previous_keys: this.livePreviousKeys().map((k) => ({
+        api_key: k.api_key,
+        key_id: k.key_id,
+        expires_at: k.expires_at.toISOString(),
+      })),
       timestamp: this._timestamp.toISOString(),
       restricted: this._restricted,
+      valid_from: this._valid_from?.toISOString() ?? null,
       valid_until: this._valid_until ? this._valid_until.toISOString() : null,
+      revoked_at: this._revocation?.revokedAt.toISOString() ?? null,
+      revoked_by: this._revocation?.revokedBy ?? null,
+      revocation_reason: this._revocation?.reason ?? null,
       is_valid: this.is_valid,
       settings: structuredClone(this._settings),
+      policy_id: this._policy_id,
+      overrides: structuredClone(this._overrides),
+      schema_version: CURRENT_SCHEMA_VERSION,
+      version: this._version,
     };
   }
 
   // ─────────────────────────────────────────────
-  //  Validation
+  //  Change Tracking
   // ─────────────────────────────────────────────
 
   /**
-   * Assert the integrity of all fields on this instance.
-   * Throws a descriptive error for the first field that fails.
+   * Fields changed since the key was loaded or last saved, as a minimal
+   * patch keyed by dotted path. For a key that has never been saved, every
+   * field is included.
+   *
+   * @example
+   * key.addIP("10.0.0.1");
+   * key.getChanges();
+   * // → { "settings.ipWhitelist.addresses": ["10.0.0.1"] }
    */
-  validate(): void {
-    assertString(this._id, "id");
-    assertString(this._owner_id, "owner_id");
-    assertString(this._name, "name");
-    assertString(this._api_key, "api_key");
-
-    if (
-      !(this._timestamp instanceof Date) ||
-      isNaN(this._timestamp.getTime())
-    ) {
-      throw new TypeError(
-        "[MajikAPI] validate(): 'timestamp' is not a valid Date.",
-      );
+  getChanges(): MajikAPIChanges {
+    const changes: MajikAPIChanges = {};
+    for (const { path, after } of diffJSON(
+      this._baseline,
+      this.persistedState(),
+    )) {
+      // Metadata keys and overrides can be deleted, which a value-only
+      // patch cannot say.
+      if (path.startsWith("settings.metadata.")) {
+        changes["settings.metadata"] = structuredClone(this._settings.metadata);
+      } else if (path.startsWith("overrides.")) {
+        changes["overrides"] = structuredClone(this._overrides);
+      } else {
+        changes[path] = after;
+      }
     }
+    return changes;
+  }
+
+  /** True when there are unsaved changes. */
+  hasChanges(): boolean {
+    return Object.keys(this.getChanges()).length > 0;
+  }
+
+  /** getChanges() with the id and version, for `MajikAPIStore.patch()`. */
+  getPatch(): MajikAPIPatch {
+    return { id: this._id, version: this._version, changes: this.getChanges() };
+  }
 
-    assertBoolean(this._restricted, "restricted");
+  /**
+   * Hashes the stored row answers to that this key no longer will, each with
+   * when it stops verifying: the old hash after rotate() (now, or at the end
+   * of its grace period) and previous keys dropped by finalizeRotation().
+   * Empty for a key that was never saved.
+   *
+   * Cached copies of the row keep accepting these hashes until they expire;
+   * MajikAPIRepository records them in its revocation list on save().
+   */
+  getRetiredHashes(): { apiKey: string; retiredAt: Date }[] {
+    const now = this.now();
+    const live = new Map(
+      this.livePreviousKeys().map((k) => [k.api_key, k.expires_at]),
+    );
+    const retired: { apiKey: string; retiredAt: Date }[] = [];
 
-    if (this._valid_until !== null) {
+    const stored = this._baseline.api_key;
+    if (stored !== undefined && stored !== this._api_key) {
+      retired.push({ apiKey: stored, retiredAt: live.get(stored) ?? now });
+    }
+    for (const k of this._baseline.previous_keys ?? []) {
+      const expiresAt = new Date(k.expires_at);
       if (
-        !(this._valid_until instanceof Date) ||
-        isNaN(this._valid_until.getTime())
+        expiresAt > now &&
+        !live.has(k.api_key) &&
+        k.api_key !== this._api_key
       ) {
-        throw new TypeError(
-          "[MajikAPI] validate(): 'valid_until' is not a valid Date.",
-        );
+        retired.push({ apiKey: k.api_key, retiredAt: now });
       }
     }
+    return retired;
+  }
 
-    MajikAPI.validateSettings(this._settings);
+  /**
+   * Record that the current state was written to storage: bumps `version`
+   * to match the stored row and clears getChanges(). MajikAPIRepository
+   * calls this for you; call it yourself after writing with your own code.
+   */
+  markPersisted(): void {
+    this._version += 1;
+    this._baseline = this.persistedState();
+  }
+
+  /**
+   * toJSON() without `version`, which stores manage themselves. `is_valid`
+   * stays in so a patch that restricts or expires the key refreshes it.
+   */
+  private persistedState(): Partial<MajikAPIJSON> {
+    const { version: _, ...rest } = this.toJSON();
+    return rest;
+  }
+
+  // ─────────────────────────────────────────────
+  //  Validation
+  // ─────────────────────────────────────────────
+
+  /**
+   * Assert the integrity of all fields on this instance.
+   * Throws a MajikAPIValidationError listing every field that fails.
+   */
+  validate(): void {
+    const issues = [
+      checkString(this._id, "id"),
+      checkString(this._owner_id, "owner_id"),
+      checkString(this._name, "name"),
+      checkString(this._api_key, "api_key"),
+      MajikAPI.checkDate(this._timestamp, "timestamp"),
+      checkBoolean(this._restricted, "restricted"),
+      this._valid_from === null
+        ? null
+        : MajikAPI.checkDate(this._valid_from, "valid_from"),
+      this._valid_until === null
+        ? null
+        : MajikAPI.checkDate(this._valid_until, "valid_until"),
+      MajikAPI.checkValidityRange(
+        this._valid_from,
+        this._valid_until,
+        "valid_until",
+      ),
+    ].filter((issue): issue is MajikAPIValidationIssue => issue !== null);
+    issues.push(
+      ...validateMajikAPISettings(this._settings),
+      ...validatePolicySettings(this._overrides, {}, "overrides"),
+    );
+    assertValid(issues, "validate");
   }
 
   // ─────────────────────────────────────────────
@@ -305,14 +701,141 @@ export class MajikAPI {
    * Hash `text` and compare against the stored api_key hash.
    * This is the correct way to verify an incoming key at your API gateway.
    * Returns true if the key matches.
+   *
+   * Digests are compared in constant time. For formatted keys, input with a
+   * bad checksum or a different key id is rejected before hashing.
+   * Never throws — malformed input simply returns false.
    */
   verify(text: string): boolean {
+    return this.tryVerify(text).ok;
+  }
+
+  /**
+   * Like verify(), but returns a result object explaining the outcome.
+   * Never throws, which makes it suitable for a hot request path.
+   *
+   * @example
+   * const result = key.tryVerify(header);
+   * if (!result.ok) return res.status(401).json({ error: result.reason });
+   */
+  tryVerify(text: string): MajikAPIVerifyResult {
+    const eligible = this.eligibleHashes(text);
+    if (!Array.isArray(eligible)) return eligible;
+    for (const candidate of eligible) {
+      try {
+        const { valid, needsRehash } = this._hasher.verify(
+          text.trim(),
+          candidate.api_key,
+        );
+        if (valid) return { ok: true, needsRehash, matched: candidate.matched };
+      } catch {
+        // Treat hasher failures as a non-match for this candidate.
+      }
+    }
+    return { ok: false, reason: "mismatch" };
+  }
+
+  /** Async verify() computed with WebCrypto (crypto.subtle). Never rejects. */
+  async verifyAsync(text: string): Promise<boolean> {
+    return (await this.tryVerifyAsync(text)).ok;
+  }
+
+  /** Async tryVerify() computed with WebCrypto (crypto.subtle). Never rejects. */
+  async tryVerifyAsync(text: string): Promise<MajikAPIVerifyResult> {
+    const eligible = this.eligibleHashes(text);
+    if (!Array.isArray(eligible)) return eligible;
+    for (const candidate of eligible) {
+      try {
+        const { valid, needsRehash } = await this._hasher.verifyAsync(
+          text.trim(),
+          candidate.api_key,
+        );
+        if (valid) return { ok: true, needsRehash, matched: candidate.matched };
+      } catch {
+        // Treat hasher failures as a non-match for this candidate.
+      }
+    }
+    return { ok: false, reason: "mismatch" };
+  }
+
+  /**
+   * Verify `text` and, if it matches a hash in an outdated format (legacy
+   * unkeyed SHA-256 or a retired pepper), re-hash it with the current
+   * hasher. Persist the key when `upgraded` is true.
+   *
+   * Only active keys are upgraded. A revoked, expired, pending or restricted
+   * key still verifies but keeps its stored hash, since revoked keys cannot
+   * be changed and there is no reason to rewrite a key that is not usable.
+   *
+   * @example
+   * const { valid, upgraded } = key.verifyAndUpgrade(rawKey);
+   * if (upgraded) await repository.save(key);
+   */
+  verifyAndUpgrade(text: string): { valid: boolean; upgraded: boolean } {
+    const result = this.tryVerify(text);
+    if (!result.ok) return { valid: false, upgraded: false };
+    // Previous keys are on their way out — only the current hash is upgraded.
+    if (
+      !result.needsRehash ||
+      result.matched !== "current" ||
+      !this.isActive()
+    ) {
+      return { valid: true, upgraded: false };
+    }
+    let upgradedHash: string;
+    try {
+      upgradedHash = this._hasher.hash(text.trim());
+    } catch {
+      // The key did verify; it keeps its old hash until the next attempt.
+      return { valid: true, upgraded: false };
+    }
+    this.mutate("verifyAndUpgrade", () => {
+      this._api_key = upgradedHash;
+    });
+    return { valid: true, upgraded: true };
+  }
+
+  /**
+   * Cheap input checks shared by the verify methods. Returns the hashes worth
+   * comparing against (current first, then live previous keys), or a failed
+   * result when the input can be rejected without hashing.
+   */
+  private eligibleHashes(
+    text: unknown,
+  ):
+    | { api_key: string; matched: "current" | "previous" }[]
+    | MajikAPIVerifyResult {
     if (typeof text !== "string" || text.trim() === "") {
-      throw new TypeError(
-        "[MajikAPI] verify(): Input must be a non-empty string.",
-      );
+      return { ok: false, reason: "malformed_input" };
     }
-    return sha256(text.trim()) === this._api_key;
+
+    const parsed = parseAPIKey(text);
+    const candidates = [
+      {
+        api_key: this._api_key,
+        key_id: this._key_id,
+        matched: "current" as const,
+      },
+      ...this.livePreviousKeys().map((k) => ({
+        api_key: k.api_key,
+        key_id: k.key_id,
+        matched: "previous" as const,
+      })),
+    ];
+
+    // Formatted keys must carry the matching key id; unformatted ones can't
+    // be pre-checked and always go through to hashing.
+    const eligible = candidates.filter(
+      (c) => c.key_id === null || parsed?.keyId === c.key_id,
+    );
+    if (eligible.length === 0) return { ok: false, reason: "malformed_key" };
+    return eligible;
+  }
+
+  /** Previous keys whose grace period has not yet ended. */
+  private livePreviousKeys(): PreviousKey[] {
+    const now = this.now();
+    return this._previous_keys.filter((k) => k.expires_at > now);
   }
 
   /** Alias for verify(). */
@@ -327,12 +850,78 @@ export class MajikAPI {
   /** Returns true if valid_until is set and has passed. Always false if null. */
   isExpired(): boolean {
     if (this._valid_until === null) return false;
-    return new Date() > this._valid_until;
+    return this.now() > this._valid_until;
+  }
+
+  /** Returns true once the key has been revoked. Revocation is final. */
+  isRevoked(): boolean {
+    return this._revocation !== null;
   }
 
-  /** Returns true only if the key is not expired and not restricted. */
+  /** Returns true while valid_from is set and still in the future. */
+  isPending(): boolean {
+    if (this._valid_from === null) return false;
+    return this.now() < this._valid_from;
+  }
+
+  /**
+   * Returns true when the key has no time windows or the current time falls
+   * inside one of them.
+   */
+  isWithinTimeWindow(): boolean {
+    const windows = this._settings.timeWindows ?? [];
+    return (
+      windows.length === 0 || matchTimeWindow(windows, this.now()) !== null
+    );
+  }
+
+  /**
+   * Returns true only if the key is not pending, revoked, expired or
+   * restricted, and the current time is inside one of its time windows.
+   */
   isActive(): boolean {
-    return !this.isExpired() && !this._restricted;
+    return (
+      !this.isRevoked() &&
+      !this.isPending() &&
+      !this.isExpired() &&
+      !this._restricted &&
+      this.isWithinTimeWindow()
+    );
+  }
+
+  /** The current time, from the configured clock. */
+  private now(): Date {
+    return (this._config.clock ?? systemClock)();
+  }
+
+  // ─────────────────────────────────────────────
+  //  Request Authorization
+  // ─────────────────────────────────────────────
+
+  /**
+   * Evaluate an incoming request against this key's lifecycle state and
+   * stored settings (IP whitelist, domain whitelist, allowed methods).
+   *
+   * Call this after verify() has confirmed the key. Quota and rate limits are
+   * not part of the decision. Pass `revocations` to also deny a key that a
+   * synced MajikAPIRevocationList has revoked since this instance was loaded.
+   *
+   * @example
+   * const decision = key.authorize({
+   *   ip: req.ip,
+   *   origin: req.headers.origin,
+   *   method: req.method,
+   * });
+   * if (!decision.allowed) return res.status(403).json({ error: decision.reason });
+   */
+  authorize(
+    request: MajikAPIAuthorizeRequest = {},
+  ): MajikAPIAuthorizationDecision {
+    return authorize(
+      this.toJSON(),
+      { now: this.now(), ...request },
+      this._policies,
+    );
   }
 
   // ─────────────────────────────────────────────
@@ -342,13 +931,14 @@ export class MajikAPI {
   /**
    * Set the rate limit for this key.
    *
-   * The effective rate (normalised to req/min) cannot exceed MAX_RATE_LIMIT
-   * (500 req/min). Attempting to set a higher rate will throw unless
-   * bypassSafeLimit is explicitly passed as true.
+   * The effective rate (normalised to req/min) cannot exceed the key's
+   * `maxRateLimit` (MAX_RATE_LIMIT, 500 req/min, unless configured).
+   * Attempting to set a higher rate will throw unless bypassSafeLimit is
+   * explicitly passed as true.
    *
    * @param amount          - Number of allowed requests per frequency window.
    * @param frequency       - The time window unit.
-   * @param bypassSafeLimit - When true, skips the MAX_RATE_LIMIT ceiling check.
+   * @param bypassSafeLimit - When true, skips the ceiling check.
    *                          Defaults to false. Use with caution.
    */
   setRateLimit(
@@ -356,32 +946,91 @@ export class MajikAPI {
     frequency: RateLimitFrequency,
     bypassSafeLimit = false,
   ): void {
-    assertPositiveInteger(amount, "amount");
-    assertRateLimitFrequency(frequency, "frequency");
-    assertBoolean(bypassSafeLimit, "bypassSafeLimit");
-
-    if (!bypassSafeLimit) {
-      const incomingRpm = amount * TO_MINUTES[frequency];
-      const ceilingRpm =
-        MAX_RATE_LIMIT.amount * TO_MINUTES[MAX_RATE_LIMIT.frequency];
-
-      if (incomingRpm > ceilingRpm) {
-        throw new RangeError(
-          `[MajikAPI] setRateLimit(): The requested rate (${amount} per ${frequency} ` +
-            `\u2248 ${incomingRpm.toFixed(4)} req/min) exceeds the system ceiling of ` +
-            `${ceilingRpm.toFixed(4)} req/min (${MAX_RATE_LIMIT.amount} per ` +
-            `${MAX_RATE_LIMIT.frequency}). ` +
-            `Pass bypassSafeLimit = true to override this guard.`,
-        );
+    this.mutate("setRateLimit", () => {
+      assertPositiveInteger(amount, "amount");
+      assertRateLimitFrequency(frequency, "frequency");
+      assertBoolean(bypassSafeLimit, "bypassSafeLimit");
+      if (!bypassSafeLimit) {
+        this.assertWithinCeiling({ amount, frequency }, "setRateLimit");
       }
-    }
+      this.assignSetting("rateLimit", { amount, frequency });
+    });
+  }
 
-    this._settings.rateLimit = { amount, frequency };
+  /**
+   * Replace the layered rate-limit rules enforced on top of the base rate
+   * limit. A request must fit the base limit and every rule that matches its
+   * method and route. Pass an empty array to remove all rules.
+   *
+   * Each rule is checked against `maxRateLimit` on its own, unless
+   * bypassSafeLimit is passed as true.
+   *
+   * @example
+   * key.setRateLimits([
+   *   { amount: 10, frequency: "seconds" },   // burst
+   *   { amount: 1_000, frequency: "hours" },  // sustained
+   *   { amount: 5, frequency: "minutes", method: "POST", route: "/v1/exports/**" },
+   * ]);
+   */
+  setRateLimits(rules: RateLimitRule[], bypassSafeLimit = false): void {
+    this.mutate("setRateLimits", () => {
+      assertValid(validateRateLimitRules(rules, "rules"), "setRateLimits");
+      assertBoolean(bypassSafeLimit, "bypassSafeLimit");
+      if (!bypassSafeLimit) {
+        rules.forEach((rule) =>
+          this.assertWithinCeiling(rule, "setRateLimits"),
+        );
+      }
+      this.assignSetting(
+        "rateLimits",
+        rules.map((rule) => MajikAPI.normalizeRule(rule)),
+      );
+    });
   }
 
-  /** Reset the rate limit back to DEFAULT_RATE_LIMIT. */
+  /**
+   * Reset the rate limit back to the configured default (DEFAULT_RATE_LIMIT
+   * unless `defaultSettings.rateLimit` is configured). On a key with a policy,
+   * drops the rate-limit override instead, so the policy's limit applies.
+   */
   resetRateLimit(): void {
-    this._settings.rateLimit = { ...DEFAULT_RATE_LIMIT };
+    this.mutate("resetRateLimit", () => {
+      if (this._policy_id !== null) {
+        delete this._overrides.rateLimit;
+      } else {
+        this._settings.rateLimit = buildDefaultSettings(
+          this._config.defaultSettings,
+        ).rateLimit;
+      }
+    });
+  }
+
+  /**
+   * Throw when the key's own rate limit or rules are above maxRateLimit.
+   * Settings from `defaultSettings` are checked like any other.
+   */
+  private assertSettingsWithinCeiling(method: string): void {
+    this.assertWithinCeiling(this._settings.rateLimit, method);
+    (this._settings.rateLimits ?? []).forEach((rule) =>
+      this.assertWithinCeiling(rule, method),
+    );
+  }
+
+  /** Throw when a rate, normalised to req/min, is above maxRateLimit. */
+  private assertWithinCeiling(rate: RateLimit, method: string): void {
+    const ceiling = this.maxRateLimit;
+    const requestedRpm = toRequestsPerMinute(rate);
+    const ceilingRpm = toRequestsPerMinute(ceiling);
+    if (requestedRpm > ceilingRpm) {
+      throw new MajikAPIRateLimitCeilingError(
+        rate.amount,
+        rate.frequency,
+        requestedRpm,
+        ceilingRpm,
+        `${ceiling.amount} per ${ceiling.frequency}`,
+        method,
+      );
+    }
   }
 
   // ─────────────────────────────────────────────
@@ -399,14 +1048,17 @@ export class MajikAPI {
    * key.setFixedQuota(10_000); // 10 000 requests total, ever
    */
   setFixedQuota(limit: number): void {
-    assertPositiveInteger(limit, "limit");
-    this._settings.quota = { type: "fixed", limit };
+    this.mutate("setFixedQuota", () => {
+      assertPositiveInteger(limit, "limit");
+      this.assignSetting("quota", { type: "fixed", limit });
+    });
   }
 
   /**
    * Set a periodic rolling quota for this key.
    * Usage is expected to be tracked externally (e.g. in Redis or Supabase)
-   * and passed into isQuotaExceeded() for comparison.
+   * and passed into isQuotaExceeded() for comparison, or counted by
+   * MajikAPIUsageMeter, which also defines when each window starts.
    *
    * @param limit     - Maximum number of requests allowed per `frequency` window.
    * @param frequency - The time window unit.
@@ -416,9 +1068,12 @@ export class MajikAPI {
    * key.setPeriodicQuota(1_000,  "days");   // 1k requests per day
    */
   setPeriodicQuota(limit: number, frequency: QuotaFrequency): void {
-    assertPositiveInteger(limit, "limit");
-    MajikAPI.assertQuotaFrequency(frequency, "frequency");
-    this._settings.quota = { type: "periodic", limit, frequency };
+    this.mutate("setPeriodicQuota", () => {
+      assertPositiveInteger(limit, "limit");
+      const invalid = checkOneOf(frequency, QUOTA_FREQUENCIES, "frequency");
+      if (invalid) throw new MajikAPIValidationError([invalid]);
+      this.assignSetting("quota", { type: "periodic", limit, frequency });
+    });
   }
 
   /**
@@ -426,7 +1081,9 @@ export class MajikAPI {
    * After calling this, isQuotaExceeded() will always return false.
    */
   clearQuota(): void {
-    this._settings.quota = null;
+    this.mutate("clearQuota", () => {
+      this.assignSetting("quota", null);
+    });
   }
 
   /**
@@ -434,7 +1091,7 @@ export class MajikAPI {
    *
    * This method does NOT track usage itself — `currentUsage` must be supplied
    * by the caller from whatever store you use (Redis counter, Supabase
-   * aggregate, etc.).
+   * aggregate, etc.). MajikAPIUsageMeter can do the counting for you.
    *
    * For a `fixed` quota, pass the key's all-time request count.
    * For a `periodic` quota, pass the request count for the current window.
@@ -447,9 +1104,10 @@ export class MajikAPI {
    * @param currentUsage - The usage count to check against the quota.
    */
   isQuotaExceeded(currentUsage: number): boolean {
-    if (this._settings.quota === null) return false;
-    assertPositiveInteger(currentUsage, "currentUsage");
-    return currentUsage >= this._settings.quota.limit;
+    const quota = this.effective("quota");
+    if (quota === null) return false;
+    assertNonNegativeInteger(currentUsage, "currentUsage");
+    return currentUsage >= quota.limit;
   }
 
   // ─────────────────────────────────────────────
@@ -462,30 +1120,68 @@ export class MajikAPI {
    * untouched, so all FK references in audit/event tables remain valid.
    *
    * After rotation, `rawApiKey` holds the new plaintext key. This is the only
-   * moment it is accessible. The old key is immediately invalidated in-memory.
+   * moment it is accessible.
+   *
+   * By default the old key is invalidated immediately. Pass
+   * `options.gracePeriodMs` for a zero-downtime rotation: the old hash moves
+   * to `previous_keys` and keeps verifying until the grace period ends, so
+   * clients can switch over at their own pace.
    *
    * IMPORTANT: After calling rotate(), you must:
    *   1. Save the new toJSON() to Supabase (updates the api_key column).
-   *   2. Delete the old Redis cache entry (old hash key is now stale).
+   *   2. Without a grace period, delete the old Redis cache entry (old hash
+   *      key is now stale). With one, let it expire with the grace period or
+   *      delete it after finalizeRotation().
    *   3. Show the caller rawApiKey before discarding this instance.
    *
-   * @param text - Optional new raw key. If omitted, a UUIDv4 is generated.
+   * @param text    - Optional new raw key. If omitted, a new formatted key is
+   *                  generated with the same prefix and environment as the
+   *                  current one (defaults for legacy keys).
+   * @param options - Optional grace period for the old key.
+   *
+   * @example
+   * key.rotate(undefined, { gracePeriodMs: 7 * 24 * 60 * 60 * 1000 }); // 7 days
    */
-  rotate(text?: string): void {
-    let rawKey: string;
-    if (text !== undefined) {
-      if (typeof text !== "string" || text.trim() === "") {
-        throw new TypeError(
-          "[MajikAPI] rotate(): 'text' must be a non-empty string if provided.",
-        );
+  rotate(text?: string, options: MajikAPIRotateOptions = {}): void {
+    this.mutate("rotate", () => {
+      let rawKey: string;
+      if (text !== undefined) {
+        assertString(text, "text");
+        rawKey = text.trim();
+      } else {
+        rawKey = generateAPIKey(this.currentKeyFormat()).rawKey;
       }
-      rawKey = text.trim();
-    } else {
-      rawKey = generateID();
-    }
 
-    this._api_key = sha256(rawKey);
-    this._raw_api_key = rawKey;
+      const gracePeriodMs = options.gracePeriodMs ?? 0;
+      assertNonNegativeInteger(gracePeriodMs, "options.gracePeriodMs");
+
+      this._previous_keys = this.livePreviousKeys();
+      if (gracePeriodMs > 0) {
+        this._previous_keys.push({
+          api_key: this._api_key,
+          key_id: this._key_id,
+          expires_at: new Date(this.now().getTime() + gracePeriodMs),
+        });
+      }
+
+      const parsed = parseAPIKey(rawKey);
+      this._api_key = this._hasher.hash(rawKey);
+      this._key_id = parsed?.keyId ?? null;
+      this._key_prefix = parsed
+        ? `${parsed.prefix}_${parsed.environment}`
+        : null;
+      this._raw_api_key = rawKey;
+    });
+  }
+
+  /**
+   * End every pending grace period now. Old keys stop verifying immediately.
+   * Save the key and delete cache entries for the old hashes afterwards.
+   */
+  finalizeRotation(): void {
+    this.mutate("finalizeRotation", () => {
+      this._previous_keys = [];
+    });
   }
 
   // ─────────────────────────────────────────────
@@ -494,8 +1190,10 @@ export class MajikAPI {
 
   /** Rename this key. */
   rename(name: string): void {
-    assertString(name, "name");
-    this._name = name.trim();
+    this.mutate("rename", () => {
+      assertString(name, "name");
+      this._name = name.trim();
+    });
   }
 
   /**
@@ -503,37 +1201,93 @@ export class MajikAPI {
    * Pass null to make the key never expire.
    */
   setExpiry(date: Date | string | null): void {
-    if (date === null) {
-      this._valid_until = null;
-      return;
-    }
-    const parsed = MajikAPI.parseDate(date, "date");
-    if (parsed <= new Date()) {
-      throw new RangeError(
-        "[MajikAPI] setExpiry(): Expiry date must be in the future.",
+    this.mutate("setExpiry", () => {
+      if (date === null) {
+        this._valid_until = null;
+        return;
+      }
+      const invalid =
+        MajikAPI.checkFutureDate(date, "date", this.now()) ??
+        MajikAPI.checkValidityRange(
+          this._valid_from,
+          MajikAPI.parseDate(date, "date"),
+          "date",
+        );
+      if (invalid) throw new MajikAPIValidationError([invalid], "setExpiry");
+      this._valid_until = MajikAPI.parseDate(date, "date");
+    });
+  }
+
+  /**
+   * Set or clear when the key becomes usable. Until then its status is
+   * "pending" and authorize() denies it with "not_yet_valid". Pass null to
+   * make it usable immediately.
+   *
+   * @example
+   * key.setValidFrom("2026-09-01T00:00:00Z"); // partner go-live
+   * key.status; // → "pending"
+   */
+  setValidFrom(date: Date | string | null): void {
+    this.mutate("setValidFrom", () => {
+      if (date === null) {
+        this._valid_from = null;
+        return;
+      }
+      const validFrom = MajikAPI.parseDate(date, "date");
+      const invalid = MajikAPI.checkValidityRange(
+        validFrom,
+        this._valid_until,
+        "date",
       );
-    }
-    this._valid_until = parsed;
+      if (invalid) throw new MajikAPIValidationError([invalid], "setValidFrom");
+      this._valid_from = validFrom;
+    });
   }
 
   /** Disable this key without deleting it. */
   restrict(): void {
-    this._restricted = true;
+    this.mutate("restrict", () => {
+      this._restricted = true;
+    });
   }
 
   /** Re-enable a previously restricted key. */
   unrestrict(): void {
-    this._restricted = false;
+    this.mutate("unrestrict", () => {
+      this._restricted = false;
+    });
   }
 
   /**
-   * Permanently revoke this key. Sets valid_until to epoch (always expired)
-   * and marks it restricted. Both flags must be cleared to undo this — prefer
-   * deleting the Supabase row and creating a new key instead.
+   * Permanently revoke this key. A revoked key never verifies as active
+   * again, and every mutator — including setExpiry() and unrestrict() —
+   * throws a MajikAPIInactiveKeyError from now on. Create a new key instead.
+   *
+   * @param reason    - Why the key is revoked. Defaults to "unspecified".
+   * @param revokedBy - Who revoked it. Defaults to the current actor.
+   *
+   * @example
+   * key.revoke("compromised", "user:42");
+   * key.status; // → "revoked"
    */
-  revoke(): void {
-    this._valid_until = new Date(0);
-    this._restricted = true;
+  revoke(
+    reason: MajikAPIRevocationReason = "unspecified",
+    revokedBy: string | null = this._actor,
+  ): void {
+    this.mutate("revoke", () => {
+      assertValid(
+        [
+          checkOneOf(reason, REVOCATION_REASONS, "reason"),
+          revokedBy === null ? null : checkString(revokedBy, "revokedBy"),
+        ].filter((issue): issue is MajikAPIValidationIssue => issue !== null),
+        "revoke",
+      );
+      this._revocation = {
+        revokedAt: this.now(),
+        revokedBy: revokedBy?.trim() ?? null,
+        reason,
+      };
+    });
   }
 
   // ─────────────────────────────────────────────
@@ -541,36 +1295,95 @@ export class MajikAPI {
   // ─────────────────────────────────────────────
 
   enableIPWhitelist(): void {
-    this._settings.ipWhitelist.enabled = true;
+    this.mutate("enableIPWhitelist", () => {
+      this._settings.ipWhitelist.enabled = true;
+    });
   }
 
   disableIPWhitelist(): void {
-    this._settings.ipWhitelist.enabled = false;
+    this.mutate("disableIPWhitelist", () => {
+      this._settings.ipWhitelist.enabled = false;
+    });
   }
 
+  /**
+   * Add an IPv4/IPv6 address or CIDR range to the whitelist.
+   * The entry is stored in normalised form ("10.0.0.5/16" → "10.0.0.0/16").
+   * Adding an entry that is already present is a no-op; adding one that
+   * overlaps an existing range throws.
+   */
   addIP(ip: string): void {
-    assertString(ip, "ip");
-    validateIP(ip.trim());
-    const trimmed = ip.trim();
-    if (!this._settings.ipWhitelist.addresses.includes(trimmed)) {
-      this._settings.ipWhitelist.addresses.push(trimmed);
-    }
+    this.mutate("addIP", () => {
+      assertString(ip, "ip");
+      validateIP(ip.trim());
+      const normalized = normalizeIPEntry(ip);
+      const addresses = this._settings.ipWhitelist.addresses;
+      if (addresses.some((a) => a === normalized)) return;
+
+      const conflict = findIPOverlaps([...addresses, normalized]).find(
+        (o) => o.entries[1] === normalized,
+      );
+      if (conflict) {
+        throw new MajikAPIValidationError(
+          [
+            {
+              path: "ip",
+              code: "conflict",
+              message:
+                `"${normalized}" ${conflict.kind === "duplicate" ? "duplicates" : "overlaps"} ` +
+                `existing whitelist entry "${conflict.entries[0]}".`,
+            },
+          ],
+          "addIP",
+        );
+      }
+      addresses.push(normalized);
+    });
   }
 
+  /** Remove an entry. Matches on the normalised form of `ip`. */
   removeIP(ip: string): void {
-    assertString(ip, "ip");
-    this._settings.ipWhitelist.addresses =
-      this._settings.ipWhitelist.addresses.filter((a) => a !== ip.trim());
+    this.mutate("removeIP", () => {
+      assertString(ip, "ip");
+      const target = parseIPRange(ip) ? normalizeIPEntry(ip) : ip.trim();
+      this._settings.ipWhitelist.addresses =
+        this._settings.ipWhitelist.addresses.filter(
+          (a) => a !== target && a !== ip.trim(),
+        );
+    });
   }
 
+  /**
+   * Replace the whitelist. Every entry is validated and normalised, and the
+   * whole list is rejected if any two entries duplicate or overlap.
+   */
   setIPWhitelist(addresses: string[]): void {
-    assertStringArray(addresses, "addresses");
-    addresses.forEach((ip) => validateIP(ip.trim()));
-    this._settings.ipWhitelist.addresses = addresses.map((ip) => ip.trim());
+    this.mutate("setIPWhitelist", () => {
+      assertStringArray(addresses, "addresses");
+      assertValid(
+        addresses
+          .map((ip, i) => checkIP(ip.trim(), `addresses[${i}]`))
+          .filter((issue): issue is MajikAPIValidationIssue => issue !== null),
+        "setIPWhitelist",
+      );
+      const normalized = addresses.map((ip) => normalizeIPEntry(ip));
+
+      assertValid(
+        findIPOverlaps(normalized).map((c) => ({
+          path: `addresses[${normalized.lastIndexOf(c.entries[1])}]`,
+          code: "conflict",
+          message: `"${c.entries[1]}" ${c.kind === "duplicate" ? "duplicates" : "overlaps"} "${c.entries[0]}".`,
+        })),
+        "setIPWhitelist",
+      );
+      this._settings.ipWhitelist.addresses = normalized;
+    });
   }
 
   clearIPWhitelist(): void {
-    this._settings.ipWhitelist.addresses = [];
+    this.mutate("clearIPWhitelist", () => {
+      this._settings.ipWhitelist.addresses = [];
+    });
   }
 
   // ─────────────────────────────────────────────
@@ -578,36 +1391,63 @@ export class MajikAPI {
   // ─────────────────────────────────────────────
 
   enableDomainWhitelist(): void {
-    this._settings.domainWhitelist.enabled = true;
+    this.mutate("enableDomainWhitelist", () => {
+      this._settings.domainWhitelist.enabled = true;
+    });
   }
 
   disableDomainWhitelist(): void {
-    this._settings.domainWhitelist.enabled = false;
+    this.mutate("disableDomainWhitelist", () => {
+      this._settings.domainWhitelist.enabled = false;
+    });
   }
 
+  /**
+   * Add a domain to the whitelist. Stored in lowercase ASCII (punycode) form.
+   * "*.example.com" covers subdomains only — add "example.com" separately to
+   * allow the apex. Wildcards over a public suffix ("*.co.uk") are rejected.
+   */
   addDomain(domain: string): void {
-    assertString(domain, "domain");
-    validateDomain(domain.trim());
-    const trimmed = domain.trim();
-    if (!this._settings.domainWhitelist.domains.includes(trimmed)) {
-      this._settings.domainWhitelist.domains.push(trimmed);
-    }
+    this.mutate("addDomain", () => {
+      assertString(domain, "domain");
+      validateDomain(domain.trim());
+      const normalized = normalizeDomainEntry(domain) as string;
+      if (!this._settings.domainWhitelist.domains.includes(normalized)) {
+        this._settings.domainWhitelist.domains.push(normalized);
+      }
+    });
   }
 
+  /** Remove an entry. Matches on the normalised form of `domain`. */
   removeDomain(domain: string): void {
-    assertString(domain, "domain");
-    this._settings.domainWhitelist.domains =
-      this._settings.domainWhitelist.domains.filter((d) => d !== domain.trim());
+    this.mutate("removeDomain", () => {
+      assertString(domain, "domain");
+      const target = normalizeDomainEntry(domain) ?? domain.trim();
+      this._settings.domainWhitelist.domains =
+        this._settings.domainWhitelist.domains.filter(
+          (d) => d !== target && d !== domain.trim(),
+        );
+    });
   }
 
   setDomainWhitelist(domains: string[]): void {
-    assertStringArray(domains, "domains");
-    domains.forEach((d) => validateDomain(d.trim()));
-    this._settings.domainWhitelist.domains = domains.map((d) => d.trim());
+    this.mutate("setDomainWhitelist", () => {
+      assertStringArray(domains, "domains");
+      assertValid(
+        domains
+          .map((d, i) => checkDomain(d.trim(), `domains[${i}]`))
+          .filter((issue): issue is MajikAPIValidationIssue => issue !== null),
+        "setDomainWhitelist",
+      );
+      const normalized = domains.map((d) => normalizeDomainEntry(d) as string);
+      this._settings.domainWhitelist.domains = [...new Set(normalized)];
+    });
   }
 
   clearDomainWhitelist(): void {
-    this._settings.domainWhitelist.domains = [];
+    this.mutate("clearDomainWhitelist", () => {
+      this._settings.domainWhitelist.domains = [];
+    });
   }
 
   // ─────────────────────────────────────────────
@@ -615,20 +1455,323 @@ export class MajikAPI {
   // ─────────────────────────────────────────────
 
   setAllowedMethods(methods: string[]): void {
-    assertStringArray(methods, "methods");
-    const valid = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
-    for (const m of methods) {
-      if (!valid.includes(m.toUpperCase())) {
-        throw new Error(
-          `[MajikAPI] setAllowedMethods(): Unknown HTTP method "${m}". Valid: ${valid.join(", ")}`,
+    this.mutate("setAllowedMethods", () => {
+      assertStringArray(methods, "methods");
+      assertValid(
+        methods
+          .map((m, i) =>
+            checkOneOf(m.toUpperCase(), HTTP_METHODS, `methods[${i}]`),
+          )
+          .filter((issue): issue is MajikAPIValidationIssue => issue !== null),
+        "setAllowedMethods",
+      );
+      this.assignSetting(
+        "allowedMethods",
+        methods.map((m) => m.toUpperCase()),
+      );
+    });
+  }
+
+  clearAllowedMethods(): void {
+    this.mutate("clearAllowedMethods", () => {
+      this.assignSetting("allowedMethods", []);
+    });
+  }
+
+  // ─────────────────────────────────────────────
+  //  Time Windows
+  // ─────────────────────────────────────────────
+
+  /**
+   * Limit the key to recurring periods of the week. Outside every window
+   * isActive() is false and authorize() denies with "outside_time_window".
+   * Replaces any existing windows; pass an empty array to remove them.
+   *
+   * @example
+   * key.setTimeWindows([
+   *   { days: ["mon", "tue", "wed", "thu", "fri"], start: "08:00", end: "18:00", timeZone: "Europe/Berlin" },
+   * ]);
+   */
+  setTimeWindows(windows: MajikAPITimeWindow[]): void {
+    this.mutate("setTimeWindows", () => {
+      this._settings.timeWindows = MajikAPI.normalizeTimeWindows(
+        windows,
+        "windows",
+        "setTimeWindows",
+      );
+    });
+  }
+
+  /** Remove every time window; the key is usable at any time again. */
+  clearTimeWindows(): void {
+    this.mutate("clearTimeWindows", () => {
+      this._settings.timeWindows = [];
+    });
+  }
+
+  // ─────────────────────────────────────────────
+  //  Scopes
+  // ─────────────────────────────────────────────
+
+  /**
+   * Replace the key's scopes. Each scope is normalised and, if a scope
+   * catalogue was registered, checked against it.
+   */
+  setScopes(scopes: string[]): void {
+    this.mutate("setScopes", () => {
+      this.assignSetting(
+        "scopes",
+        MajikAPI.checkScopes(scopes, this._scope_catalogue, "scopes"),
+      );
+    });
+  }
+
+  /** Grant one more scope. No-op if the key already lists it. */
+  addScope(scope: string): void {
+    this.mutate("addScope", () => {
+      const [normalized] = MajikAPI.checkScopes(
+        [scope],
+        this._scope_catalogue,
+        "scope",
+      );
+      const scopes = this.effective("scopes") ?? [];
+      if (!scopes.includes(normalized)) {
+        this.assignSetting("scopes", [...scopes, normalized]);
+      }
+    });
+  }
+
+  /**
+   * Remove a scope exactly as listed. Narrower scopes it used to cover are
+   * not added back — removing "projects" leaves no "projects:…" access.
+   */
+  removeScope(scope: string): void {
+    this.mutate("removeScope", () => {
+      const normalized = normalizeScope(scope);
+      const scopes = this.effective("scopes") ?? [];
+      if (scopes.includes(normalized)) {
+        this.assignSetting(
+          "scopes",
+          scopes.filter((s) => s !== normalized),
         );
       }
+    });
+  }
+
+  clearScopes(): void {
+    this.mutate("clearScopes", () => {
+      this.assignSetting("scopes", []);
+    });
+  }
+
+  /**
+   * True when the key grants `scope`, directly or through a broader scope.
+   *
+   * @example
+   * key.setScopes(["projects", "admin:*"]);
+   * key.hasScope("projects:read"); // true
+   * key.hasScope("admin");         // false — "admin:*" covers children only
+   */
+  hasScope(scope: string): boolean {
+    return matchScope(scope, this.effective("scopes") ?? []) !== null;
+  }
+
+  /** The scopes in `required` that this key does not grant. */
+  missingScopes(required: string[]): string[] {
+    assertStringArray(required, "required");
+    return required
+      .map((scope) => normalizeScope(scope))
+      .filter((scope) => !this.hasScope(scope));
+  }
+
+  /**
+   * Throw unless the key grants every scope in `required`.
+   *
+   * @example
+   * key.requireScopes(["billing:write"]); // throws if not granted
+   */
+  requireScopes(required: string[]): void {
+    const missing = this.missingScopes(required);
+    if (missing.length > 0) {
+      throw new MajikAPIInsufficientScopeError(this._id, missing);
     }
-    this._settings.allowedMethods = methods.map((m) => m.toUpperCase());
   }
 
-  clearAllowedMethods(): void {
-    this._settings.allowedMethods = [];
+  // ─────────────────────────────────────────────
+  //  Derived Keys
+  // ─────────────────────────────────────────────
+
+  /**
+   * Create a new key for the same owner that can do at most what this key
+   * can. The derived key copies this key's settings, records this key as its
+   * parent, and has its scopes narrowed to the intersection of this key's
+   * scopes and `options.scopes`. Its expiry never outlives this key's.
+   *
+   * Scopes are resolved once, here. If the parent's scopes shrink later,
+   * use `MajikAPIRepository.effectiveScopes()` to re-resolve the chain.
+   *
+   * @example
+   * const readOnly = key.derive({ name: "CI", scopes: ["projects:read"] });
+   * readOnly.rawApiKey; // show once
+   */
+  derive(options: MajikAPIDeriveOptions = {}): MajikAPI {
+    const status = this.status;
+    if (status === "expired") {
+      throw new MajikAPIExpiredError(
+        this._id,
+        this._valid_until as Date,
+        "derive",
+      );
+    }
+    if (status !== "active") {
+      throw new MajikAPIInactiveKeyError(this._id, status, "derive");
+    }
+
+    const requested =
+      options.scopes === undefined
+        ? (this.effective("scopes") ?? [])
+        : MajikAPI.checkScopes(
+            options.scopes,
+            this._scope_catalogue,
+            "options.scopes",
+          );
+
+    let valid_until: Date | string | null = this._valid_until;
+    if (options.valid_until !== undefined && options.valid_until !== null) {
+      const requestedExpiry = MajikAPI.parseDate(
+        options.valid_until,
+        "options.valid_until",
+      );
+      if (this._valid_until === null || requestedExpiry < this._valid_until) {
+        valid_until = requestedExpiry;
+      }
+    }
+
+    const scopes = intersectScopes(this.effective("scopes") ?? [], requested);
+    const child = MajikAPI.build(this._owner_id, options.text, {
+      name: options.name ?? `${this._name} (derived)`,
+      keyFormat: options.keyFormat ?? this.currentKeyFormat(),
+      hasher: this._hasher,
+      config: this._config,
+      restricted: this._restricted,
+      valid_until,
+      settings: { ...structuredClone(this._settings), scopes },
+      scopeCatalogue: this._scope_catalogue ?? undefined,
+      actor: this._actor,
+    });
+    child._parent_id = this._id;
+    // The child follows the same policy; its narrowed scopes are an override.
+    child._policies = this._policies;
+    child._policy_id = this._policy_id;
+    child._overrides = structuredClone(this._overrides);
+    if (child._policy_id !== null) child._overrides.scopes = scopes;
+    child.emitAudit("derive", diffJSON({}, child.auditSnapshot()));
+    return child;
+  }
+
+  /**
+   * Key format options matching this key's prefix and environment. Legacy
+   * keys use the configured format.
+   */
+  private currentKeyFormat(): KeyFormatOptions {
+    const format = { ...this._config.keyFormat };
+    const [prefix, environment] = this._key_prefix?.split("_") ?? [];
+    if (prefix !== undefined) format.prefix = prefix;
+    if (environment !== undefined) format.environment = environment;
+    return format;
+  }
+
+  // ─────────────────────────────────────────────
+  //  Policies
+  // ─────────────────────────────────────────────
+
+  /**
+   * Move the key onto a policy, or off it with null. Overrides are kept
+   * when switching between policies. Leaving a policy copies the effective
+   * settings into the key's own, so nothing changes until they are edited.
+   *
+   * @example
+   * key.setPolicy("pro"); // the key now follows the "pro" plan
+   */
+  setPolicy(policyId: string | null): void {
+    this.mutate("setPolicy", () => {
+      if (policyId === null) {
+        this._settings = this.resolvedSettings();
+        this._overrides = {};
+        this._policy_id = null;
+        return;
+      }
+      const invalid = MajikAPI.checkPolicy(
+        policyId,
+        this._policies,
+        "policyId",
+      );
+      if (invalid) throw new MajikAPIValidationError([invalid], "setPolicy");
+      this._policy_id = policyId;
+    });
+  }
+
+  /** Drop the override of one policy field so the policy's value applies. */
+  clearOverride(field: MajikAPIPolicyField): void {
+    this.mutate("clearOverride", () => {
+      const invalid = checkOneOf(field, POLICY_FIELDS, "field");
+      if (invalid) throw new MajikAPIValidationError([invalid]);
+      delete this._overrides[field];
+    });
+  }
+
+  /** Drop every override so the key follows its policy exactly. */
+  clearOverrides(): void {
+    this.mutate("clearOverrides", () => {
+      this._overrides = {};
+    });
+  }
+
+  /**
+   * Every effective setting with where it came from: the key itself, its
+   * policy or a per-key override.
+   *
+   * @example
+   * key.explainSettings().find((s) => s.field === "rateLimit");
+   * // → { field: "rateLimit", value: { … }, source: "policy", policy_id: "pro" }
+   */
+  explainSettings(): MajikAPISettingExplanation[] {
+    return explainSettings(this.policySource(), this._policies);
+  }
+
+  /** The columns resolveSettings() and explainSettings() read. */
+  private policySource(): Pick<
+    MajikAPIJSON,
+    "settings" | "policy_id" | "overrides"
+  > {
+    return {
+      settings: this._settings,
+      policy_id: this._policy_id,
+      overrides: this._overrides,
+    };
+  }
+
+  private resolvedSettings(): MajikAPISettings {
+    return resolveSettings(this.policySource(), this._policies);
+  }
+
+  /** Effective value of one policy field. Returns a copy. */
+  private effective<K extends MajikAPIPolicyField>(
+    field: K,
+  ): MajikAPISettings[K] {
+    return this.resolvedSettings()[field];
+  }
+
+  /** Set a policy field: as an override on policy keys, else directly. */
+  private assignSetting<K extends MajikAPIPolicyField>(
+    field: K,
+    value: MajikAPISettings[K],
+  ): void {
+    if (this._policy_id === null) {
+      this._settings[field] = value;
+    } else {
+      this._overrides[field] = value;
+    }
   }
 
   // ─────────────────────────────────────────────
@@ -636,9 +1779,11 @@ export class MajikAPI {
   // ─────────────────────────────────────────────
 
   setMetadata(key: string, value: unknown): void {
-    assertString(key, "metadata key");
-    this._settings.metadata = this._settings.metadata ?? {};
-    this._settings.metadata[key] = value;
+    this.mutate("setMetadata", () => {
+      assertString(key, "metadata key");
+      this._settings.metadata = this._settings.metadata ?? {};
+      this._settings.metadata[key] = value;
+    });
   }
 
   getMetadata(key: string): unknown {
@@ -647,14 +1792,18 @@ export class MajikAPI {
   }
 
   deleteMetadata(key: string): void {
-    assertString(key, "metadata key");
-    if (this._settings.metadata) {
-      delete this._settings.metadata[key];
-    }
+    this.mutate("deleteMetadata", () => {
+      assertString(key, "metadata key");
+      if (this._settings.metadata) {
+        delete this._settings.metadata[key];
+      }
+    });
   }
 
   clearMetadata(): void {
-    this._settings.metadata = {};
+    this.mutate("clearMetadata", () => {
+      this._settings.metadata = {};
+    });
   }
 
   // ─────────────────────────────────────────────
@@ -671,18 +1820,74 @@ export class MajikAPI {
     return this._owner_id;
   }
 
+  /** Version of the stored row this state is based on. 0 until saved. */
+  get version(): number {
+    return this._version;
+  }
+
+  /** id of the key this one was derived from, or null. */
+  get parentId(): string | null {
+    return this._parent_id;
+  }
+
   get name(): string {
     return this._name;
   }
 
   /**
-   * The SHA-256 hash of the raw key. This is what is stored in Supabase and
-   * used as the Redis cache key prefix. Never the plaintext.
+   * The hash of the raw key. This is what is stored in Supabase and used as
+   * the Redis cache key prefix. Never the plaintext.
    */
   get apiKey(): string {
     return this._api_key;
   }
 
+  /**
+   * Old keys still accepted after a grace-period rotate(), with their expiry.
+   * Entries whose grace period has ended are omitted.
+   */
+  get previousKeys(): {
+    apiKey: string;
+    keyId: string | null;
+    expiresAt: Date;
+  }[] {
+    return this.livePreviousKeys().map((k) => ({
+      apiKey: k.api_key,
+      keyId: k.key_id,
+      expiresAt: new Date(k.expires_at),
+    }));
+  }
+
+  /**
+   * True when the stored hash is in an outdated format for the configured
+   * hasher. Use verifyAndUpgrade() on the next successful request to fix it.
+   */
+  get needsRehash(): boolean {
+    return this._hasher.needsRehash(this._api_key);
+  }
+
+  /**
+   * Public key id of a formatted key (e.g. "3fK9aQ2z"), or null for keys not
+   * in the `mjk_live_…` format. Safe to display and log.
+   */
+  get keyId(): string | null {
+    return this._key_id;
+  }
+
+  /** prefix and environment of a formatted key (e.g. "mjk_live"), or null. */
+  get keyPrefix(): string | null {
+    return this._key_prefix;
+  }
+
+  /**
+   * A display-safe hint of the key, e.g. "mjk_live_3fK9aQ2z…".
+   * null for keys not in the `mjk_live_…` format.
+   */
+  get maskedKey(): string | null {
+    if (this._key_id === null || this._key_prefix === null) return null;
+    return `${this._key_prefix}_${this._key_id}\u2026`;
+  }
+
   /**
    * The raw plaintext key. Only defined immediately after create() or rotate().
    * Undefined after fromJSON() or any serialise/deserialise round-trip.
@@ -704,13 +1909,32 @@ export class MajikAPI {
     return this._restricted;
   }
 
+  get validFrom(): Date | null {
+    return this._valid_from ? new Date(this._valid_from) : null;
+  }
+
   get validUntil(): Date | null {
     return this._valid_until ? new Date(this._valid_until) : null;
   }
 
+  /** Recurring periods the key is limited to. Empty when unrestricted. */
+  get timeWindows(): MajikAPITimeWindow[] {
+    return structuredClone(this._settings.timeWindows ?? []);
+  }
+
+  /** When, by whom and why the key was revoked, or null if it was not. */
+  get revocation(): MajikAPIRevocation | null {
+    return this._revocation
+      ? {
+          ...this._revocation,
+          revokedAt: new Date(this._revocation.revokedAt),
+        }
+      : null;
+  }
+
   /**
    * Whether this key is valid for use right now.
-   * True when the key is active (not expired, not restricted).
+   * True when the key is active (not revoked, expired or restricted).
    *
    * Note: this does NOT factor in quota — quota is a runtime check that
    * requires external usage data. Use isQuotaExceeded(currentUsage) for that.
@@ -719,13 +1943,37 @@ export class MajikAPI {
     return this.isActive();
   }
 
-  /** Returns a deep clone — mutations to the returned object have no effect. */
+  /**
+   * The settings the key runs with. For a key on a policy, policy fields
+   * are resolved from the registry now — see explainSettings(). Returns a
+   * deep clone — mutations to the returned object have no effect.
+   */
   get settings(): Readonly<MajikAPISettings> {
-    return structuredClone(this._settings);
+    return this.resolvedSettings();
   }
 
   get rateLimit(): Readonly<RateLimit> {
-    return { ...this._settings.rateLimit };
+    return this.effective("rateLimit");
+  }
+
+  /** The layered rate-limit rules enforced on top of `rateLimit`. */
+  get rateLimits(): RateLimitRule[] {
+    return this.effective("rateLimits") ?? [];
+  }
+
+  /**
+   * The highest rate the setters accept without `bypassSafeLimit`: the
+   * ceiling of the owner's tier, else the configured `maxRateLimit`, else
+   * MAX_RATE_LIMIT.
+   */
+  get maxRateLimit(): Readonly<RateLimit> {
+    const { maxRateLimit, maxRateLimitByTier, ownerTier } = this._config;
+    const tier = ownerTier?.(this._owner_id);
+    const ceiling =
+      (tier != null ? maxRateLimitByTier?.[tier] : undefined) ??
+      maxRateLimit ??
+      MAX_RATE_LIMIT;
+    return { ...ceiling };
   }
 
   /**
@@ -734,7 +1982,7 @@ export class MajikAPI {
    * Use isQuotaExceeded(currentUsage) to compare against live usage.
    */
   get quota(): Readonly<Quota> {
-    return this._settings.quota ? structuredClone(this._settings.quota) : null;
+    return this.effective("quota");
   }
 
   /**
@@ -742,7 +1990,7 @@ export class MajikAPI {
    * Convenience shorthand for `key.quota?.limit ?? null`.
    */
   get quotaLimit(): number | null {
-    return this._settings.quota?.limit ?? null;
+    return this.effective("quota")?.limit ?? null;
   }
 
   /**
@@ -750,10 +1998,13 @@ export class MajikAPI {
    * Useful for determining the reset window without inspecting the full quota object.
    */
   get quotaFrequency(): QuotaFrequency | null {
-    if (this._settings.quota?.type === "periodic") {
-      return this._settings.quota.frequency;
-    }
-    return null;
+    const quota = this.effective("quota");
+    return quota?.type === "periodic" ? quota.frequency : null;
+  }
+
+  /** The scopes granted to this key, including those from its policy. */
+  get scopes(): string[] {
+    return this.effective("scopes") ?? [];
   }
 
   get ipWhitelist(): Readonly<IPWhitelist> {
@@ -765,7 +2016,17 @@ export class MajikAPI {
   }
 
   get allowedMethods(): string[] {
-    return [...(this._settings.allowedMethods ?? [])];
+    return this.effective("allowedMethods") ?? [];
+  }
+
+  /** Id of the policy this key follows, or null. */
+  get policyId(): string | null {
+    return this._policy_id;
+  }
+
+  /** Per-key overrides of the policy. Empty for keys without a policy. */
+  get overrides(): MajikAPIPolicySettings {
+    return structuredClone(this._overrides);
   }
 
   /**
@@ -775,20 +2036,24 @@ export class MajikAPI {
    */
   get msUntilExpiry(): number {
     if (this._valid_until === null) return -1;
-    return Math.max(0, this._valid_until.getTime() - Date.now());
+    return Math.max(0, this._valid_until.getTime() - this.now().getTime());
   }
 
   /**
    * Human-readable lifecycle status.
    *
    * "active"     — valid, not restricted, not expired.
+   * "pending"    — valid_from has not been reached yet.
    * "restricted" — manually disabled, not expired.
    * "expired"    — past valid_until date.
-   * "revoked"    — permanently invalidated via revoke().
+   * "revoked"    — permanently invalidated via revoke(). Wins over the rest.
+   *
+   * Time windows do not change the status: an active key outside its
+   * windows stays "active", but isActive() returns false.
    */
-  get status(): "active" | "restricted" | "expired" | "revoked" {
-    if (this._valid_until?.getTime() === new Date(0).getTime())
-      return "revoked";
+  get status(): "active" | "pending" | "restricted" | "expired" | "revoked" {
+    if (this.isRevoked()) return "revoked";
+    if (this.isPending()) return "pending";
     if (this.isExpired()) return "expired";
     if (this._restricted) return "restricted";
     return "active";
@@ -798,92 +2063,259 @@ export class MajikAPI {
   //  Private Static Utilities
   // ─────────────────────────────────────────────
 
-  private static parseDate(value: Date | string, label: string): Date {
+  /** The issue with a Date or ISO date string, or null when it is valid. */
+  private static checkDate(
+    value: unknown,
+    label: string,
+  ): MajikAPIValidationIssue | null {
     if (value instanceof Date) {
-      if (isNaN(value.getTime())) {
-        throw new TypeError(`[MajikAPI] "${label}" is an invalid Date object.`);
-      }
-      return value;
-    }
-    if (typeof value === "string") {
-      if (!isValidISODate(value)) {
-        throw new TypeError(
-          `[MajikAPI] "${label}" is not a valid ISO date string: "${value}"`,
-        );
-      }
-      return new Date(value);
+      return isNaN(value.getTime())
+        ? {
+            path: label,
+            code: "invalid_format",
+            message: `"${label}" is an invalid Date object.`,
+          }
+        : null;
     }
-    throw new TypeError(
-      `[MajikAPI] "${label}" must be a Date instance or an ISO date string.`,
-    );
+    if (typeof value === "string") return checkISODate(value, label);
+    return {
+      path: label,
+      code: value === undefined || value === null ? "required" : "invalid_type",
+      message: `"${label}" must be a Date instance or an ISO date string.`,
+    };
   }
 
-  private static assertQuotaFrequency(
+  /** checkDate(), and the date must also be after `now`. */
+  private static checkFutureDate(
     value: unknown,
     label: string,
-  ): asserts value is QuotaFrequency {
-    if (!VALID_QUOTA_FREQUENCIES.includes(value as QuotaFrequency)) {
-      throw new TypeError(
-        `[MajikAPI] "${label}" must be one of: ${VALID_QUOTA_FREQUENCIES.join(", ")}. Got: "${value}"`,
-      );
+    now: Date,
+  ): MajikAPIValidationIssue | null {
+    const invalid = MajikAPI.checkDate(value, label);
+    if (invalid) return invalid;
+    if (new Date(value as Date | string) > now) return null;
+    return {
+      path: label,
+      code: "out_of_range",
+      message: `"${label}" must be a future date.`,
+    };
+  }
+
+  /** An issue when valid_until is not later than valid_from, else null. */
+  private static checkValidityRange(
+    validFrom: Date | null,
+    validUntil: Date | null,
+    label: string,
+  ): MajikAPIValidationIssue | null {
+    if (validFrom === null || validUntil === null) return null;
+    if (validUntil > validFrom) return null;
+    return {
+      path: label,
+      code: "conflict",
+      message: `"${label}" must be later than valid_from (${validFrom.toISOString()}).`,
+    };
+  }
+
+  /**
+   * Validate time windows and return copies with each window's days
+   * de-duplicated and in week order.
+   */
+  private static normalizeTimeWindows(
+    windows: unknown,
+    label = "settings.timeWindows",
+    method = "create",
+  ): MajikAPITimeWindow[] {
+    assertValid(validateTimeWindows(windows, label), method);
+    return (windows as MajikAPITimeWindow[]).map((window) => ({
+      days: WEEKDAYS.filter((day) => window.days.includes(day)),
+      start: window.start,
+      end: window.end,
+      timeZone: window.timeZone,
+    }));
+  }
+
+  private static parseDate(value: Date | string, label: string): Date {
+    const invalid = MajikAPI.checkDate(value, label);
+    if (invalid) throw new MajikAPIValidationError([invalid]);
+    return value instanceof Date ? value : new Date(value);
+  }
+
+  /** The issue with a policy id, or null when the registry has it. */
+  private static checkPolicy(
+    policyId: unknown,
+    policies: MajikAPIPolicyRegistry | null,
+    label: string,
+  ): MajikAPIValidationIssue | null {
+    const invalid = checkString(policyId, label);
+    if (invalid) return invalid;
+    if (policies?.has(policyId as string)) return null;
+    return {
+      path: label,
+      code: "unknown_policy",
+      message: policies
+        ? `"${label}" is not a registered policy: ${JSON.stringify(policyId)}`
+        : `"${label}" needs a policy registry. Pass \`policies\` when creating or loading the key.`,
+    };
+  }
+
+  /** Validate an optional scope catalogue. null when none was given. */
+  private static resolveScopeCatalogue(
+    catalogue: readonly string[] | undefined,
+  ): string[] | null {
+    return catalogue === undefined ? null : normalizeScopeCatalogue(catalogue);
+  }
+
+  /**
+   * Normalise and de-duplicate scopes, and check them against the catalogue
+   * when there is one.
+   */
+  private static checkScopes(
+    scopes: string[],
+    catalogue: string[] | null,
+    label: string,
+  ): string[] {
+    assertStringArray(scopes, label);
+    const normalized = [...new Set(scopes.map((s) => normalizeScope(s)))];
+    if (catalogue !== null) {
+      assertScopesInCatalogue(normalized, catalogue, label);
     }
+    return normalized;
   }
 
-  private static validateSettings(settings: MajikAPISettings): void {
-    if (typeof settings !== "object" || settings === null) {
-      throw new TypeError("[MajikAPI] 'settings' must be an object.");
+  /** A validated rule with its method upper-cased and route normalised. */
+  private static normalizeRule(rule: RateLimitRule): RateLimitRule {
+    const normalized: RateLimitRule = {
+      amount: rule.amount,
+      frequency: rule.frequency,
+    };
+    if (rule.method !== undefined) {
+      normalized.method = rule.method.toUpperCase();
     }
+    if (rule.route !== undefined) {
+      normalized.route = normalizeRoute(rule.route);
+    }
+    return normalized;
+  }
 
-    assertPositiveInteger(
-      settings.rateLimit?.amount,
-      "settings.rateLimit.amount",
-    );
-    assertRateLimitFrequency(
-      settings.rateLimit?.frequency,
-      "settings.rateLimit.frequency",
-    );
+  // ─────────────────────────────────────────────
+  //  Audit Events
+  // ─────────────────────────────────────────────
 
-    // Validate quota if present
-    if (settings.quota !== null && settings.quota !== undefined) {
-      if (typeof settings.quota !== "object") {
-        throw new TypeError(
-          "[MajikAPI] 'settings.quota' must be an object or null.",
-        );
-      }
-      assertPositiveInteger(settings.quota.limit, "settings.quota.limit");
-      if (settings.quota.type === "fixed") {
-        // no extra fields to validate
-      } else if (settings.quota.type === "periodic") {
-        MajikAPI.assertQuotaFrequency(
-          settings.quota.frequency,
-          "settings.quota.frequency",
-        );
-      } else {
-        throw new TypeError(
-          `[MajikAPI] 'settings.quota.type' must be "fixed" or "periodic". Got: "${(settings.quota as any).type}"`,
-        );
+  /**
+   * Subscribe to audit events from every key, including ones not created
+   * yet. Returns an unsubscribe function.
+   *
+   * @example
+   * const stop = MajikAPI.onAudit((event) => auditTable.insert(event));
+   */
+  static onAudit(listener: AuditListener): () => void {
+    return MajikAPI._globalAudit.subscribe(listener);
+  }
+
+  /**
+   * Be told when an audit listener throws. Listener errors never fail the
+   * change that emitted the event; they are reported here instead, and
+   * dropped while nothing is subscribed. Returns an unsubscribe function.
+   *
+   * @example
+   * MajikAPI.onAuditError((error, event) => alerts.page("audit write failed", { error, event }));
+   */
+  static onAuditError(listener: AuditErrorListener): () => void {
+    if (typeof listener !== "function") {
+      throw new TypeError(
+        "[MajikAPI] onAuditError(): 'listener' must be a function.",
+      );
+    }
+    MajikAPI._auditErrors.add(listener);
+    return () => {
+      MajikAPI._auditErrors.delete(listener);
+    };
+  }
+
+  private static reportAuditError(error: unknown, event: AuditEvent): void {
+    for (const listener of [...MajikAPI._auditErrors]) {
+      try {
+        listener(error, event);
+      } catch {
+        // An error listener must not fail the change either.
       }
     }
+  }
 
-    assertBoolean(
-      settings.ipWhitelist?.enabled,
-      "settings.ipWhitelist.enabled",
-    );
-    assertStringArray(
-      settings.ipWhitelist?.addresses,
-      "settings.ipWhitelist.addresses",
-    );
-    settings.ipWhitelist.addresses.forEach((ip) => validateIP(ip));
+  /** Subscribe to audit events from this key only. */
+  onAudit(listener: AuditListener): () => void {
+    return this._audit.subscribe(listener);
+  }
 
-    assertBoolean(
-      settings.domainWhitelist?.enabled,
-      "settings.domainWhitelist.enabled",
-    );
-    assertStringArray(
-      settings.domainWhitelist?.domains,
-      "settings.domainWhitelist.domains",
-    );
-    settings.domainWhitelist.domains.forEach((d) => validateDomain(d));
+  /**
+   * Set who subsequent changes are attributed to in audit events, e.g. the
+   * id of the signed-in user or "system:cron". null clears it.
+   */
+  setActor(actor: string | null): void {
+    if (actor !== null) assertString(actor, "actor");
+    this._actor = actor === null ? null : actor.trim();
+  }
+
+  /** The actor recorded on audit events, or null. */
+  get actor(): string | null {
+    return this._actor;
+  }
+
+  /**
+   * Run a mutation and emit an audit event describing what it changed.
+   * Revoked keys are frozen, so this throws for them.
+   */
+  private mutate(operation: MajikAPIAuditOperation, apply: () => void): void {
+    if (this._revocation !== null) {
+      throw new MajikAPIInactiveKeyError(this._id, "revoked", operation);
+    }
+    const before = this.auditSnapshot();
+    apply();
+    this.emitAudit(operation, diffJSON(before, this.auditSnapshot()));
+  }
+
+  private emitAudit(
+    operation: MajikAPIAuditOperation,
+    changes: AuditChange[],
+  ): void {
+    const event: AuditEvent = {
+      id: generateID(),
+      entity_id: this._id,
+      owner_id: this._owner_id,
+      operation,
+      actor: this._actor,
+      timestamp: this.now().toISOString(),
+      changes: changes.map((change) =>
+        change.path === "api_key"
+          ? { path: "api_key", before: "[redacted]", after: "[redacted]" }
+          : change,
+      ),
+    };
+    this._audit.emit(event);
+    MajikAPI._globalAudit.emit(event);
+  }
+
+  /** toJSON() minus derived fields, versions and previous key hashes. */
+  private auditSnapshot(): Omit<
+    MajikAPIJSON,
+    "is_valid" | "version" | "schema_version" | "previous_keys"
+  > & {
+    previous_keys: { key_id: string | null; expires_at: string }[];
+  } {
+    const {
+      is_valid: _,
+      version: __,
+      schema_version: ___,
+      previous_keys,
+      ...rest
+    } = this.toJSON();
+    return {
+      ...rest,
+      previous_keys: previous_keys.map(({ key_id, expires_at }) => ({
+        key_id,
+        expires_at,
+      })),
+    };
   }
 
   // ─────────────────────────────────────────────
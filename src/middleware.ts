@@ -0,0 +1,437 @@
+// ─────────────────────────────────────────────
+//  Framework Middleware
+// ─────────────────────────────────────────────
+//
+//  authenticateRequest() holds the whole flow — extract the key, resolve it,
+//  authorize the request, consume rate limit — and maps the outcome to an
+//  HTTP status, a JSON body and response headers. The adapters below only
+//  translate between it and each framework's request/response objects.
+//
+//  The framework shapes are declared structurally, so none of the frameworks
+//  is a dependency of this package.
+// ─────────────────────────────────────────────
+
+import { buildRateLimitHeaders } from "./headers";
+import type { MajikAPI } from "./majik-api";
+import type {
+  MajikAPIAuthErrorCode,
+  MajikAPIAuthResult,
+  MajikAPIDenialReason,
+  MajikAPIKeySource,
+  MajikAPIMiddlewareOptions,
+  MajikAPIRequestInfo,
+} from "./types";
+
+const DEFAULT_SOURCES: MajikAPIKeySource[] = ["bearer", "header"];
+const VALID_SOURCES: MajikAPIKeySource[] = ["bearer", "header", "query"];
+
+/** Denials that mean the credential itself is no longer usable. */
+const INVALID_TOKEN_REASONS: MajikAPIDenialReason[] = [
+  "not_yet_valid",
+  "expired",
+  "revoked",
+];
+
+const MESSAGES: Record<MajikAPIAuthErrorCode, string> = {
+  missing_api_key: "An API key is required.",
+  invalid_api_key: "The API key is invalid.",
+  rate_limited: "Rate limit exceeded.",
+  quota_exceeded: "Quota exceeded.",
+  not_yet_valid: "The API key is not active yet.",
+  expired: "The API key has expired.",
+  revoked: "The API key has been revoked.",
+  restricted: "The API key is disabled.",
+  outside_time_window: "The API key cannot be used at this time.",
+  ip_not_allowed: "Requests from this IP address are not allowed.",
+  domain_not_allowed: "Requests from this origin are not allowed.",
+  method_not_allowed: "This HTTP method is not allowed for the API key.",
+  insufficient_scope: "The API key lacks a required scope.",
+};
+
+// ─────────────────────────────────────────────
+//  Core
+// ─────────────────────────────────────────────
+
+/**
+ * Read the raw key from the first configured source that has one.
+ * Returns null when none does.
+ */
+export function extractAPIKey(
+  request: Pick<MajikAPIRequestInfo, "header" | "url">,
+  options: Pick<
+    MajikAPIMiddlewareOptions,
+    "sources" | "headerName" | "queryParam"
+  > = {},
+): string | null {
+  for (const source of options.sources ?? DEFAULT_SOURCES) {
+    let value: string | null = null;
+    if (source === "bearer") {
+      const match = /^Bearer\s+(\S+)\s*$/i.exec(
+        request.header("authorization") ?? "",
+      );
+      value = match?.[1] ?? null;
+    } else if (source === "header") {
+      value = request.header(options.headerName ?? "x-api-key");
+    } else {
+      value = new URL(request.url, "http://localhost").searchParams.get(
+        options.queryParam ?? "api_key",
+      );
+    }
+    if (value !== null && value.trim() !== "") return value.trim();
+  }
+  return null;
+}
+
+/**
+ * Run the full key check for one request. Framework-neutral; the adapters
+ * call this and translate the result.
+ *
+ * Statuses:
+ *   401 — no key, an unknown key, or an expired/revoked key. Carries
+ *         `WWW-Authenticate`.
+ *   403 — a valid key that may not make this request (restricted,
+ *         whitelists, method, scopes).
+ *   429 — rate limited or out of quota. Carries `Retry-After` unless a
+ *         fixed quota is exhausted.
+ *
+ * Rate-limit and quota headers (see `buildRateLimitHeaders()`) are included
+ * whenever a limiter or meter is configured.
+ *
+ * Errors thrown by the resolver or rate limiter propagate.
+ */
+export async function authenticateRequest(
+  request: MajikAPIRequestInfo,
+  options: MajikAPIMiddlewareOptions,
+): Promise<MajikAPIAuthResult> {
+  const realm = options.realm ?? "api";
+  const rawKey = extractAPIKey(request, options);
+  if (rawKey === null) {
+    return reject(401, "missing_api_key", null, {
+      "WWW-Authenticate": `Bearer realm="${realm}"`,
+    });
+  }
+
+  const key = await options.resolver.verify(rawKey);
+  if (key === null) {
+    return reject(401, "invalid_api_key", null, {
+      "WWW-Authenticate": challenge(
+        realm,
+        "invalid_token",
+        MESSAGES.invalid_api_key,
+      ),
+    });
+  }
+
+  const decision = key.authorize({
+    ip: request.ip,
+    origin: request.header("origin") ?? request.header("referer"),
+    method: request.method,
+    scopes: options.scopes,
+    revocations: options.revocations,
+  });
+  if (!decision.allowed) {
+    const reason = decision.reason as MajikAPIDenialReason;
+    if (INVALID_TOKEN_REASONS.includes(reason)) {
+      return reject(401, reason, key, {
+        "WWW-Authenticate": challenge(realm, "invalid_token", MESSAGES[reason]),
+      });
+    }
+    if (reason === "insufficient_scope") {
+      return reject(403, reason, key, {
+        "WWW-Authenticate": `${challenge(realm, "insufficient_scope", MESSAGES[reason])}, scope="${(options.scopes ?? []).join(" ")}"`,
+      });
+    }
+    return reject(403, reason, key, {});
+  }
+
+  const rateLimit = options.rateLimiter
+    ? await options.rateLimiter.consume(key, 1, {
+        method: request.method,
+        path: new URL(request.url, "http://localhost").pathname,
+      })
+    : null;
+  // A request the limiter refuses never reaches the quota.
+  const usage =
+    options.usageMeter && rateLimit?.allowed !== false
+      ? await options.usageMeter.consume(key)
+      : null;
+  // Resets are reported relative to the clock the decisions were made on.
+  const clock = options.rateLimiter?.clock ?? options.usageMeter?.clock;
+  const headers = buildRateLimitHeaders(
+    key,
+    { rateLimit, usage, now: clock?.() },
+    options.headers,
+  );
+
+  if (rateLimit?.allowed === false) {
+    return reject(429, "rate_limited", key, headers);
+  }
+  if (usage?.allowed === false) {
+    return reject(429, "quota_exceeded", key, headers);
+  }
+  return { ok: true, key, rateLimit, usage, headers };
+}
+
+/** The JSON body sent for a rejected request. */
+export function rejectionBody(
+  result: Extract<MajikAPIAuthResult, { ok: false }>,
+): { error: MajikAPIAuthErrorCode; message: string } {
+  return { error: result.error, message: result.message };
+}
+
+function reject(
+  status: 401 | 403 | 429,
+  error: MajikAPIAuthErrorCode,
+  key: MajikAPI | null,
+  headers: Record<string, string>,
+): MajikAPIAuthResult {
+  return { ok: false, status, error, message: MESSAGES[error], key, headers };
+}
+
+/** RFC 6750 Bearer challenge. */
+function challenge(realm: string, error: string, description: string): string {
+  return `Bearer realm="${realm}", error="${error}", error_description="${description}"`;
+}
+
+function assertMiddlewareOptions(
+  options: MajikAPIMiddlewareOptions,
+  adapter: string,
+): void {
+  if (typeof options?.resolver?.verify !== "function") {
+    throw new TypeError(
+      `[MajikAPI] ${adapter}(): 'options.resolver' must have a verify(rawKey) method (e.g. a MajikAPIRepository).`,
+    );
+  }
+  for (const source of options.sources ?? DEFAULT_SOURCES) {
+    if (!VALID_SOURCES.includes(source)) {
+      throw new TypeError(
+        `[MajikAPI] ${adapter}(): 'options.sources' entries must be one of: ${VALID_SOURCES.join(", ")}. Received: ${JSON.stringify(source)}`,
+      );
+    }
+  }
+}
+
+function headerLookup(
+  headers: Record<string, string | string[] | undefined>,
+): (name: string) => string | null {
+  return (name) => {
+    const value = headers[name.toLowerCase()];
+    if (Array.isArray(value)) return value[0] ?? null;
+    return value ?? null;
+  };
+}
+
+// ─────────────────────────────────────────────
+//  Express
+// ─────────────────────────────────────────────
+
+interface ExpressLikeRequest {
+  headers: Record<string, string | string[] | undefined>;
+  method: string;
+  url: string;
+  originalUrl?: string;
+  ip?: string;
+  majikAPI?: MajikAPI;
+}
+
+interface ExpressLikeResponse {
+  setHeader(name: string, value: string): unknown;
+  status(code: number): { json(body: unknown): unknown };
+}
+
+/**
+ * Express (and Connect-style) middleware. On success the key is available
+ * as `req.majikAPI`. Resolver errors are passed to `next(err)`.
+ *
+ * @example
+ * app.use("/v1", majikExpress({ resolver: repository, scopes: ["projects:read"] }));
+ */
+export function majikExpress(options: MajikAPIMiddlewareOptions) {
+  assertMiddlewareOptions(options, "majikExpress");
+  return (
+    req: ExpressLikeRequest,
+    res: ExpressLikeResponse,
+    next: (err?: unknown) => void,
+  ): void => {
+    const info: MajikAPIRequestInfo = {
+      header: headerLookup(req.headers),
+      method: req.method,
+      url: req.originalUrl ?? req.url,
+      ip: req.ip ?? null,
+    };
+    authenticateRequest(info, options).then((result) => {
+      for (const [name, value] of Object.entries(result.headers)) {
+        res.setHeader(name, value);
+      }
+      if (!result.ok) {
+        res.status(result.status).json(rejectionBody(result));
+        return;
+      }
+      req.majikAPI = result.key;
+      next();
+    }, next);
+  };
+}
+
+// ─────────────────────────────────────────────
+//  Fastify
+// ─────────────────────────────────────────────
+
+interface FastifyLikeRequest {
+  headers: Record<string, string | string[] | undefined>;
+  method: string;
+  url: string;
+  ip?: string;
+  majikAPI?: MajikAPI;
+}
+
+interface FastifyLikeReply {
+  header(name: string, value: string): unknown;
+  code(statusCode: number): { send(payload: unknown): unknown };
+}
+
+/**
+ * Fastify `onRequest`/`preHandler` hook. On success the key is available as
+ * `request.majikAPI` (declare it with `decorateRequest("majikAPI", null)`).
+ *
+ * @example
+ * fastify.decorateRequest("majikAPI", null);
+ * fastify.addHook("preHandler", majikFastify({ resolver: repository }));
+ */
+export function majikFastify(options: MajikAPIMiddlewareOptions) {
+  assertMiddlewareOptions(options, "majikFastify");
+  return async (
+    request: FastifyLikeRequest,
+    reply: FastifyLikeReply,
+  ): Promise<void> => {
+    const info: MajikAPIRequestInfo = {
+      header: headerLookup(request.headers),
+      method: request.method,
+      url: request.url,
+      ip: request.ip ?? null,
+    };
+    const result = await authenticateRequest(info, options);
+    for (const [name, value] of Object.entries(result.headers)) {
+      reply.header(name, value);
+    }
+    if (!result.ok) {
+      await reply.code(result.status).send(rejectionBody(result));
+      return;
+    }
+    request.majikAPI = result.key;
+  };
+}
+
+// ─────────────────────────────────────────────
+//  Hono
+// ─────────────────────────────────────────────
+
+interface HonoLikeContext {
+  req: {
+    header(name: string): string | undefined;
+    method: string;
+    url: string;
+    raw: Request;
+  };
+  header(name: string, value: string): void;
+  json(body: unknown, status?: number): Response;
+  set(key: "majikAPI", value: MajikAPI): void;
+}
+
+/**
+ * Hono middleware. On success the key is available as `c.get("majikAPI")`.
+ * Hono has no portable client IP, so pass `getIP` when IP whitelists are in
+ * use (e.g. `(c) => c.req.header("cf-connecting-ip") ?? null`).
+ *
+ * @example
+ * app.use("/v1/*", majikHono({ resolver: repository }));
+ */
+export function majikHono(
+  options: MajikAPIMiddlewareOptions & {
+    getIP?: (c: HonoLikeContext) => string | null;
+  },
+) {
+  assertMiddlewareOptions(options, "majikHono");
+  return async (
+    c: HonoLikeContext,
+    next: () => Promise<void>,
+  ): Promise<Response | void> => {
+    const info: MajikAPIRequestInfo = {
+      header: (name) => c.req.header(name) ?? null,
+      method: c.req.method,
+      url: c.req.url,
+      ip: options.getIP?.(c) ?? null,
+    };
+    const result = await authenticateRequest(info, options);
+    for (const [name, value] of Object.entries(result.headers)) {
+      c.header(name, value);
+    }
+    if (!result.ok) return c.json(rejectionBody(result), result.status);
+    c.set("majikAPI", result.key);
+    await next();
+  };
+}
+
+// ─────────────────────────────────────────────
+//  Fetch API (Workers, Deno, Bun)
+// ─────────────────────────────────────────────
+
+/**
+ * Wrap a Fetch-API handler. The handler receives the resolved key after the
+ * request, followed by any extra arguments (e.g. a Workers `env`/`ctx`).
+ * Rejections are answered with a JSON `Response` without calling it.
+ *
+ * The platform's client IP is not on `Request`, so pass `getIP` when IP
+ * whitelists are in use.
+ *
+ * @example
+ * export default {
+ *   fetch: withMajikAPI(
+ *     async (request, key, env) => Response.json({ owner: key.ownerId }),
+ *     {
+ *       resolver: repository,
+ *       getIP: (request) => request.headers.get("cf-connecting-ip"),
+ *     },
+ *   ),
+ * };
+ */
+export function withMajikAPI<A extends unknown[]>(
+  handler: (
+    request: Request,
+    key: MajikAPI,
+    ...args: A
+  ) => Response | Promise<Response>,
+  options: MajikAPIMiddlewareOptions & {
+    getIP?: (request: Request) => string | null;
+  },
+): (request: Request, ...args: A) => Promise<Response> {
+  assertMiddlewareOptions(options, "withMajikAPI");
+  return async (request, ...args) => {
+    const info: MajikAPIRequestInfo = {
+      header: (name) => request.headers.get(name),
+      method: request.method,
+      url: request.url,
+      ip: options.getIP?.(request) ?? null,
+    };
+    const result = await authenticateRequest(info, options);
+    if (!result.ok) {
+      return Response.json(rejectionBody(result), {
+        status: result.status,
+        headers: result.headers,
+      });
+    }
+
+    const response = await handler(request, result.key, ...args);
+    if (Object.keys(result.headers).length === 0) return response;
+    // Responses from fetch() have immutable headers; copy before adding.
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(result.headers)) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
@@ -0,0 +1,234 @@
+// ─────────────────────────────────────────────
+//  Schema Migrations
+// ─────────────────────────────────────────────
+//
+//  Every serialised key carries `schema_version`. fromJSON() runs the
+//  payload through the migrations below, one version at a time, before
+//  validating it — so rows written by older library versions (Postgres,
+//  Redis, backups) keep loading without backfill scripts.
+//
+//  To change the serialised shape: bump CURRENT_SCHEMA_VERSION and append a
+//  migration whose `from` is the previous version.
+// ─────────────────────────────────────────────
+
+import { CURRENT_SCHEMA_VERSION } from "./constants";
+import { MajikAPIValidationError } from "./errors";
+import type {
+  MajikAPIAppliedMigration,
+  MajikAPIJSON,
+  MajikAPIMigration,
+  MajikAPIMigrationResult,
+  MajikAPIValidationCode,
+} from "./types";
+
+type Payload = Record<string, unknown>;
+
+function isObject(value: unknown): value is Payload {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** A MajikAPIValidationError with a single issue. */
+function invalid(
+  method: string,
+  path: string,
+  code: MajikAPIValidationCode,
+  message: string,
+): MajikAPIValidationError {
+  return new MajikAPIValidationError([{ path, code, message }], method);
+}
+
+// ─────────────────────────────────────────────
+//  Registry
+// ─────────────────────────────────────────────
+
+/** An ordered set of migrations, at most one per source version. */
+export class MajikAPIMigrationRegistry {
+  private readonly _migrations = new Map<number, MajikAPIMigration>();
+
+  constructor(migrations: MajikAPIMigration[] = []) {
+    migrations.forEach((migration) => this.register(migration));
+  }
+
+  /**
+   * Add a migration. Throws a MajikAPIValidationError if it is malformed or
+   * one for the same `from` already exists.
+   */
+  register(migration: MajikAPIMigration): void {
+    if (!Number.isInteger(migration?.from) || migration.from < 0) {
+      throw invalid(
+        "register",
+        "from",
+        "invalid_value",
+        `"from" must be a non-negative integer. Received: ${JSON.stringify(migration?.from)}`,
+      );
+    }
+    if (typeof migration.migrate !== "function") {
+      throw invalid(
+        "register",
+        "migrate",
+        "invalid_type",
+        `Migration from v${migration.from} has no migrate() function.`,
+      );
+    }
+    if (this._migrations.has(migration.from)) {
+      throw invalid(
+        "register",
+        "from",
+        "conflict",
+        `A migration from v${migration.from} is already registered.`,
+      );
+    }
+    this._migrations.set(migration.from, migration);
+  }
+
+  /** Registered migrations, oldest first. */
+  list(): MajikAPIAppliedMigration[] {
+    return [...this._migrations.values()]
+      .sort((a, b) => a.from - b.from)
+      .map(({ from, description }) => ({ from, to: from + 1, description }));
+  }
+
+  /**
+   * Upgrade a payload to `target`. The input is not modified.
+   *
+   * Payloads without `schema_version` are treated as version 0. Throws a
+   * MajikAPIValidationError for malformed payloads, payloads newer than
+   * `target` (written by a newer library; code "out_of_range") and when a
+   * step in between has no migration.
+   */
+  run(data: unknown, target = CURRENT_SCHEMA_VERSION): MajikAPIMigrationResult {
+    if (!isObject(data)) {
+      throw invalid("migrate", "", "invalid_type", "Expected a plain object.");
+    }
+    const from = data.schema_version ?? 0;
+    if (!Number.isInteger(from) || (from as number) < 0) {
+      throw invalid(
+        "migrate",
+        "schema_version",
+        "invalid_value",
+        `"schema_version" must be a non-negative integer. Received: ${JSON.stringify(from)}`,
+      );
+    }
+    if ((from as number) > target) {
+      throw invalid(
+        "migrate",
+        "schema_version",
+        "out_of_range",
+        `Payload has schema_version ${from}, but this library only understands up to ${target}. Upgrade @majikah/majik-api.`,
+      );
+    }
+
+    let payload: Payload = structuredClone(data);
+    const applied: MajikAPIAppliedMigration[] = [];
+    for (let version = from as number; version < target; version++) {
+      const migration = this._migrations.get(version);
+      if (!migration) {
+        throw invalid(
+          "migrate",
+          "schema_version",
+          "invalid_value",
+          `No migration registered from schema_version ${version}.`,
+        );
+      }
+      payload = migration.migrate(payload);
+      payload.schema_version = version + 1;
+      applied.push({
+        from: version,
+        to: version + 1,
+        description: migration.description,
+      });
+    }
+
+    return {
+      data: payload as unknown as MajikAPIJSON,
+      from: from as number,
+      to: target,
+      applied,
+    };
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Built-in Migrations
+// ─────────────────────────────────────────────
+
+const v0ToV1: MajikAPIMigration = {
+  from: 0,
+  description:
+    "Add key format, grace-period, derived-key and version fields; default settings.scopes/allowedMethods/metadata.",
+  migrate(data) {
+    data.key_id ??= null;
+    data.key_prefix ??= null;
+    data.previous_keys ??= [];
+    data.parent_id ??= null;
+    data.version ??= 0;
+    if (isObject(data.settings)) {
+      data.settings.allowedMethods ??= [];
+      data.settings.scopes ??= [];
+      data.settings.metadata ??= {};
+      data.settings.quota ??= null;
+    }
+    return data;
+  },
+};
+
+const v1ToV2: MajikAPIMigration = {
+  from: 1,
+  description: "Add policy_id and overrides for policy-backed keys.",
+  migrate(data) {
+    data.policy_id ??= null;
+    data.overrides ??= {};
+    return data;
+  },
+};
+
+const v2ToV3: MajikAPIMigration = {
+  from: 2,
+  description: "Add settings.rateLimits for layered rate limits.",
+  migrate(data) {
+    if (isObject(data.settings)) data.settings.rateLimits ??= [];
+    return data;
+  },
+};
+
+const v3ToV4: MajikAPIMigration = {
+  from: 3,
+  description:
+    "Store revocation as revoked_at/revoked_by/revocation_reason instead of an epoch valid_until.",
+  migrate(data) {
+    const epoch = new Date(0).toISOString();
+    const revoked =
+      typeof data.valid_until === "string" &&
+      new Date(data.valid_until).getTime() === 0;
+    if (revoked) {
+      // The real revocation time was never recorded; keep the epoch.
+      data.revoked_at ??= epoch;
+      data.revocation_reason ??= "unspecified";
+      data.valid_until = null;
+    }
+    data.revoked_at ??= null;
+    data.revoked_by ??= null;
+    data.revocation_reason ??= null;
+    return data;
+  },
+};
+
+const v4ToV5: MajikAPIMigration = {
+  from: 4,
+  description:
+    "Add valid_from for scheduled activation and settings.timeWindows.",
+  migrate(data) {
+    data.valid_from ??= null;
+    if (isObject(data.settings)) data.settings.timeWindows ??= [];
+    return data;
+  },
+};
+
+/** The migrations fromJSON() and MajikAPI.migrate() run. */
+export const defaultMigrations = new MajikAPIMigrationRegistry([
+  v0ToV1,
+  v1ToV2,
+  v2ToV3,
+  v3ToV4,
+  v4ToV5,
+]);
@@ -0,0 +1,166 @@
+import { POLICY_FIELDS } from "./constants";
+import type {
+  MajikAPIJSON,
+  MajikAPIPolicy,
+  MajikAPIPolicySettings,
+  MajikAPISettingExplanation,
+  MajikAPISettings,
+} from "./types";
+import { assertString } from "./utils";
+import { assertValid, validatePolicySettings } from "./validation";
+
+// ─────────────────────────────────────────────
+//  Policies
+// ─────────────────────────────────────────────
+//
+//  A policy is a named plan ("free", "pro", "enterprise") that defines the
+//  rate limits, quota, allowed methods and scopes for every key that
+//  references it. Keys store only their `policy_id` and the fields they
+//  override, and resolve the rest from the registry whenever they are
+//  evaluated — so changing a plan changes every key on it at once.
+//
+//  Precedence per field: override → policy → the key's own settings.
+// ─────────────────────────────────────────────
+
+/** The columns of a key needed to resolve its effective settings. */
+type SettingsSource = Pick<MajikAPIJSON, "settings"> &
+  Partial<Pick<MajikAPIJSON, "policy_id" | "overrides">>;
+
+const SETTINGS_FIELDS: (keyof MajikAPISettings)[] = [
+  "rateLimit",
+  "rateLimits",
+  "quota",
+  "ipWhitelist",
+  "domainWhitelist",
+  "allowedMethods",
+  "scopes",
+  "timeWindows",
+  "metadata",
+];
+
+/**
+ * The set of policies keys can reference.
+ *
+ * @example
+ * const policies = new MajikAPIPolicyRegistry([
+ *   { id: "free", settings: { rateLimit: { amount: 60, frequency: "minutes" } } },
+ *   { id: "pro", settings: { rateLimit: { amount: 600, frequency: "minutes" } } },
+ * ]);
+ * const key = MajikAPI.create(userId, undefined, { policy: "free", policies });
+ */
+export class MajikAPIPolicyRegistry {
+  private readonly _policies = new Map<string, MajikAPIPolicy>();
+
+  constructor(policies: MajikAPIPolicy[] = []) {
+    policies.forEach((policy) => this.register(policy));
+  }
+
+  /**
+   * Add a policy, or replace the one with the same id. Keys that reference
+   * it pick up the new values the next time they are evaluated.
+   */
+  register(policy: MajikAPIPolicy): void {
+    assertString(policy?.id, "policy.id");
+    assertValid(
+      validatePolicySettings(policy.settings, {}, "policy.settings"),
+      "register",
+    );
+    this._policies.set(policy.id, structuredClone(policy));
+  }
+
+  /** The policy with this id, or null. */
+  get(id: string): MajikAPIPolicy | null {
+    const policy = this._policies.get(id);
+    return policy ? structuredClone(policy) : null;
+  }
+
+  has(id: string): boolean {
+    return this._policies.has(id);
+  }
+
+  /**
+   * Remove a policy. Keys that still reference it fall back to their
+   * overrides and own settings until they are moved to another policy.
+   */
+  remove(id: string): boolean {
+    return this._policies.delete(id);
+  }
+
+  /** Every registered policy, in registration order. */
+  list(): MajikAPIPolicy[] {
+    return [...this._policies.values()].map((p) => structuredClone(p));
+  }
+
+  get size(): number {
+    return this._policies.size;
+  }
+}
+
+function policySettings(
+  data: SettingsSource,
+  policies: MajikAPIPolicyRegistry | null | undefined,
+): MajikAPIPolicySettings {
+  if (!data.policy_id || !policies) return {};
+  return policies.get(data.policy_id)?.settings ?? {};
+}
+
+/**
+ * The settings a key actually runs with: its own settings, with the policy
+ * and then the overrides applied on top. Works on a stored row as well as
+ * on `toJSON()` output.
+ *
+ * A key whose policy is not in the registry (or when no registry is given)
+ * resolves from its overrides and own settings only.
+ */
+export function resolveSettings(
+  data: SettingsSource,
+  policies?: MajikAPIPolicyRegistry | null,
+): MajikAPISettings {
+  const settings = structuredClone(data.settings);
+  const policy = policySettings(data, policies);
+  const overrides = data.overrides ?? {};
+  for (const field of POLICY_FIELDS) {
+    const value = overrides[field] !== undefined ? overrides : policy;
+    if (value[field] !== undefined) {
+      Object.assign(settings, { [field]: structuredClone(value[field]) });
+    }
+  }
+  return settings;
+}
+
+/**
+ * List every effective setting with where it came from.
+ *
+ * @example
+ * explainSettings(row, policies);
+ * // → [
+ * //   { field: "rateLimit", value: { amount: 600, … }, source: "policy", policy_id: "pro" },
+ * //   { field: "quota", value: null, source: "override", policy_id: "pro" },
+ * //   { field: "ipWhitelist", value: { … }, source: "key", policy_id: "pro" },
+ * //   …
+ * // ]
+ */
+export function explainSettings(
+  data: SettingsSource,
+  policies?: MajikAPIPolicyRegistry | null,
+): MajikAPISettingExplanation[] {
+  const settings = resolveSettings(data, policies);
+  const policy = policySettings(data, policies);
+  const overrides = data.overrides ?? {};
+  const policyFields = POLICY_FIELDS as readonly string[];
+
+  return SETTINGS_FIELDS.map((field) => {
+    let source: MajikAPISettingExplanation["source"] = "key";
+    if (policyFields.includes(field)) {
+      const name = field as keyof MajikAPIPolicySettings;
+      if (overrides[name] !== undefined) source = "override";
+      else if (policy[name] !== undefined) source = "policy";
+    }
+    return {
+      field,
+      value: structuredClone(settings[field] ?? null),
+      source,
+      policy_id: data.policy_id ?? null,
+    };
+  });
+}
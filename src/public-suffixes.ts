@@ -0,0 +1,123 @@
+// ─────────────────────────────────────────────
+//  Bundled Public Suffix List (subset)
+// ─────────────────────────────────────────────
+//
+//  Multi-label suffixes under which unrelated parties can register names.
+//  A wildcard such as "*.co.uk" or "*.github.io" would whitelist every
+//  site under them, so they are rejected as wildcard bases.
+//
+//  Single-label suffixes ("com", "io", "uk", …) are not listed: every
+//  single label is treated as a public suffix (the PSL's default "*" rule).
+//
+//  This is a curated subset of https://publicsuffix.org/list/ covering the
+//  ccTLD second levels and hosting platforms most often seen in Origin
+//  headers. Names are stored in lowercase ASCII (punycode) form.
+// ─────────────────────────────────────────────
+
+export const PUBLIC_SUFFIXES: ReadonlySet<string> = new Set([
+  // ── ICANN second-level domains ─────────────────────────────────────────
+  "ac.id",
+  "ac.il",
+  "ac.in",
+  "ac.jp",
+  "ac.kr",
+  "ac.nz",
+  "ac.th",
+  "ac.uk",
+  "ac.za",
+  "co.at",
+  "co.id",
+  "co.il",
+  "co.in",
+  "co.jp",
+  "co.ke",
+  "co.kr",
+  "co.nz",
+  "co.th",
+  "co.tz",
+  "co.ug",
+  "co.uk",
+  "co.za",
+  "com.ar",
+  "com.au",
+  "com.bd",
+  "com.br",
+  "com.cn",
+  "com.co",
+  "com.eg",
+  "com.hk",
+  "com.mx",
+  "com.my",
+  "com.ng",
+  "com.pe",
+  "com.ph",
+  "com.pk",
+  "com.sa",
+  "com.sg",
+  "com.tr",
+  "com.tw",
+  "com.ua",
+  "com.uy",
+  "com.vn",
+  "edu.au",
+  "edu.cn",
+  "edu.ph",
+  "go.id",
+  "go.jp",
+  "go.kr",
+  "go.th",
+  "gob.mx",
+  "gov.au",
+  "gov.br",
+  "gov.cn",
+  "gov.in",
+  "gov.ph",
+  "gov.uk",
+  "gov.za",
+  "govt.nz",
+  "id.au",
+  "in.th",
+  "ltd.uk",
+  "me.uk",
+  "ne.jp",
+  "net.au",
+  "net.br",
+  "net.cn",
+  "net.in",
+  "net.nz",
+  "net.ph",
+  "net.uk",
+  "nhs.uk",
+  "or.id",
+  "or.jp",
+  "or.kr",
+  "org.au",
+  "org.br",
+  "org.cn",
+  "org.in",
+  "org.nz",
+  "org.ph",
+  "org.uk",
+  "org.za",
+  "plc.uk",
+  "sch.uk",
+
+  // ── Private (hosting platform) suffixes ────────────────────────────────
+  "appspot.com",
+  "azurewebsites.net",
+  "blogspot.com",
+  "cloudfront.net",
+  "firebaseapp.com",
+  "fly.dev",
+  "github.io",
+  "gitlab.io",
+  "herokuapp.com",
+  "netlify.app",
+  "onrender.com",
+  "pages.dev",
+  "s3.amazonaws.com",
+  "supabase.co",
+  "vercel.app",
+  "web.app",
+  "workers.dev",
+]);
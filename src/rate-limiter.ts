@@ -0,0 +1,505 @@
+import { TO_MINUTES } from "./constants";
+import type { MajikAPI } from "./majik-api";
+import { matchRoute } from "./routes";
+import type {
+  MajikAPIClock,
+  RateLimitAlgorithm,
+  RateLimitCounterBackend,
+  RateLimitDecision,
+  RateLimiterOptions,
+  RateLimitRequest,
+  RateLimitRule,
+} from "./types";
+import { assertPositiveInteger, systemClock } from "./utils";
+
+/** A rule together with the backend key its counters live under. */
+interface RuleTarget {
+  rule: RateLimitRule;
+  base: string;
+}
+
+/** A decision before the rule it belongs to is attached. */
+type WindowDecision = Omit<RateLimitDecision, "rule">;
+
+const VALID_ALGORITHMS: RateLimitAlgorithm[] = [
+  "fixed_window",
+  "sliding_window_log",
+  "sliding_window_counter",
+  "token_bucket",
+];
+
+// ─────────────────────────────────────────────
+//  In-Memory Counter Backend
+// ─────────────────────────────────────────────
+
+/**
+ * Reference RateLimitCounterBackend backed by a Map. Suitable for tests and
+ * single-process deployments. Expiry is evaluated lazily against `clock`,
+ * so tests can advance time without timers.
+ */
+export class InMemoryRateLimitBackend implements RateLimitCounterBackend {
+  private readonly _entries = new Map<
+    string,
+    { value: unknown; expiresAt: number }
+  >();
+  private readonly _clock: MajikAPIClock;
+
+  constructor(clock: MajikAPIClock = systemClock) {
+    this._clock = clock;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.live(key);
+    return entry ? (structuredClone(entry.value) as T) : null;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this._entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: this._clock().getTime() + ttlMs,
+    });
+  }
+
+  async increment(key: string, by: number, ttlMs: number): Promise<number> {
+    const entry = this.live(key);
+    if (!entry) {
+      await this.set(key, by, ttlMs);
+      return by;
+    }
+    entry.value = (entry.value as number) + by;
+    return entry.value as number;
+  }
+
+  async delete(key: string): Promise<void> {
+    this._entries.delete(key);
+  }
+
+  private live(key: string): { value: unknown; expiresAt: number } | null {
+    const entry = this._entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= this._clock().getTime()) {
+      this._entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Rule Matching
+// ─────────────────────────────────────────────
+
+/** True when a layered rule applies to the request. */
+export function rateLimitRuleMatches(
+  rule: RateLimitRule,
+  request: RateLimitRequest = {},
+): boolean {
+  if (rule.method !== undefined) {
+    const method = request.method?.trim().toUpperCase();
+    if (method !== rule.method.toUpperCase()) return false;
+  }
+  if (rule.route !== undefined) {
+    if (!request.path || !matchRoute(rule.route, request.path)) return false;
+  }
+  return true;
+}
+
+/**
+ * The rules a request is held to: the key's `rateLimit`, followed by every
+ * rule in `rateLimits` that matches the request's method and route.
+ *
+ * @example
+ * matchRateLimitRules(key, { method: "POST", path: "/v1/exports/42" });
+ * // → [{ amount: 100, frequency: "minutes" },
+ * //    { amount: 5, frequency: "minutes", method: "POST", route: "/v1/exports/**" }]
+ */
+export function matchRateLimitRules(
+  key: MajikAPI,
+  request: RateLimitRequest = {},
+): RateLimitRule[] {
+  return [
+    { ...key.rateLimit },
+    ...key.rateLimits.filter((rule) => rateLimitRuleMatches(rule, request)),
+  ];
+}
+
+// ─────────────────────────────────────────────
+//  Rate Limiter
+// ─────────────────────────────────────────────
+
+/**
+ * Enforces a key's `settings.rateLimit` and layered `settings.rateLimits`
+ * against a counter backend.
+ *
+ * Counters are keyed by the key's stable `id`, so limits carry over across
+ * key rotation. Each layered rule has its own counters, derived from its
+ * contents — changing a rule starts it afresh.
+ *
+ * Calls to consume() for the same key are run one at a time within a
+ * limiter, so a denied request never consumes capacity from any rule.
+ * Limiters in other processes sharing the backend are not coordinated:
+ * the backend interface has no compare-and-set, so concurrent requests
+ * there can each pass the check and overshoot a limit slightly.
+ *
+ * @example
+ * const limiter = new MajikAPIRateLimiter(new InMemoryRateLimitBackend(), {
+ *   algorithm: "sliding_window_counter",
+ * });
+ *
+ * const decision = await limiter.consume(key);
+ * if (!decision.allowed) {
+ *   res.setHeader("Retry-After", Math.ceil(decision.retryAfterMs / 1000));
+ *   return res.status(429).end();
+ * }
+ */
+export class MajikAPIRateLimiter {
+  private readonly _backend: RateLimitCounterBackend;
+  private readonly _algorithm: RateLimitAlgorithm;
+  private readonly _clock: MajikAPIClock;
+  private readonly _prefix: string;
+  /** Key id → the consume() call currently running for it. */
+  private readonly _pending = new Map<string, Promise<unknown>>();
+
+  constructor(
+    backend: RateLimitCounterBackend,
+    options: RateLimiterOptions = {},
+  ) {
+    const algorithm = options.algorithm ?? "fixed_window";
+    if (!VALID_ALGORITHMS.includes(algorithm)) {
+      throw new TypeError(
+        `[MajikAPI] MajikAPIRateLimiter: "algorithm" must be one of: ${VALID_ALGORITHMS.join(", ")}. Received: ${JSON.stringify(algorithm)}`,
+      );
+    }
+    this._backend = backend;
+    this._algorithm = algorithm;
+    this._clock = options.clock ?? systemClock;
+    this._prefix = options.keyPrefix ?? "majik:rl";
+  }
+
+  get algorithm(): RateLimitAlgorithm {
+    return this._algorithm;
+  }
+
+  /** The clock decisions are made against. */
+  get clock(): MajikAPIClock {
+    return this._clock;
+  }
+
+  /**
+   * Attempt to consume `cost` units of every rate limit that applies to the
+   * request — see matchRateLimitRules(). Resolves an allow/deny decision for
+   * the most restrictive rule.
+   *
+   * @param request - Method and path of the request. Layered rules scoped
+   *                  to a method or route are skipped when it is omitted.
+   */
+  async consume(
+    key: MajikAPI,
+    cost = 1,
+    request: RateLimitRequest = {},
+  ): Promise<RateLimitDecision> {
+    assertPositiveInteger(cost, "cost");
+    return this.serialize(key.id, () => this.consumeRules(key, cost, request));
+  }
+
+  private async consumeRules(
+    key: MajikAPI,
+    cost: number,
+    request: RateLimitRequest,
+  ): Promise<RateLimitDecision> {
+    const targets = this.targets(key, matchRateLimitRules(key, request));
+    const now = this._clock().getTime();
+
+    if (targets.length > 1) {
+      // Check every rule before consuming from any, so a request one rule
+      // denies does not use up the others.
+      const checks = await Promise.all(
+        targets.map((target) => this.apply(target, now, cost, false)),
+      );
+      const denied = checks.filter((d) => !d.allowed);
+      if (denied.length > 0) return mostRestrictive(denied);
+    }
+
+    const decisions = await Promise.all(
+      targets.map((target) => this.apply(target, now, cost, true)),
+    );
+    return mostRestrictive(decisions);
+  }
+
+  /** Run `task` once every earlier task for the same key has settled. */
+  private serialize<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this._pending.get(id) ?? Promise.resolve();
+    const result = previous.then(task, task);
+    const settled = result.catch(() => {});
+    this._pending.set(id, settled);
+    settled.then(() => {
+      if (this._pending.get(id) === settled) this._pending.delete(id);
+    });
+    return result;
+  }
+
+  /** Clear all rate-limit state for a key, across every rule. */
+  async reset(key: MajikAPI): Promise<void> {
+    const now = this._clock().getTime();
+    const targets = this.targets(key, [
+      { ...key.rateLimit },
+      ...key.rateLimits,
+    ]);
+
+    await Promise.all(
+      targets.flatMap(({ rule, base }) => {
+        const windowMs = TO_MINUTES[rule.frequency] * 60_000;
+        const start = Math.floor(now / windowMs) * windowMs;
+        return [
+          this._backend.delete(`${base}:fw:${start}`),
+          this._backend.delete(`${base}:swc:${start}`),
+          this._backend.delete(`${base}:swc:${start - windowMs}`),
+          this._backend.delete(`${base}:log`),
+          this._backend.delete(`${base}:tb`),
+        ];
+      }),
+    );
+  }
+
+  /**
+   * Pair each rule with its backend key. The first rule is the key's base
+   * `rateLimit`, whose counters live directly under the key id; identical
+   * layered rules share one set of counters.
+   */
+  private targets(key: MajikAPI, rules: RateLimitRule[]): RuleTarget[] {
+    const root = `${this._prefix}:${key.id}`;
+    const [base, ...layered] = rules;
+    const targets = new Map<string, RuleTarget>([
+      [root, { rule: base, base: root }],
+    ]);
+    for (const rule of layered) {
+      const id = [
+        `${rule.amount}/${rule.frequency}`,
+        rule.method?.toUpperCase() ?? "*",
+        rule.route ?? "*",
+      ].join(":");
+      targets.set(`${root}:${id}`, { rule, base: `${root}:${id}` });
+    }
+    return [...targets.values()];
+  }
+
+  /**
+   * Run the configured algorithm for one rule. With `commit` false the
+   * decision is computed without consuming anything.
+   */
+  private async apply(
+    { rule, base }: RuleTarget,
+    now: number,
+    cost: number,
+    commit: boolean,
+  ): Promise<RateLimitDecision> {
+    const { amount } = rule;
+    const windowMs = TO_MINUTES[rule.frequency] * 60_000;
+    const args = [base, amount, windowMs, now, cost, commit] as const;
+
+    let decision: WindowDecision;
+    switch (this._algorithm) {
+      case "fixed_window":
+        decision = await this.fixedWindow(...args);
+        break;
+      case "sliding_window_log":
+        decision = await this.slidingLog(...args);
+        break;
+      case "sliding_window_counter":
+        decision = await this.slidingCounter(...args);
+        break;
+      case "token_bucket":
+        decision = await this.tokenBucket(...args);
+        break;
+    }
+    return { ...decision, rule: { ...rule } };
+  }
+
+  // ── Algorithms ─────────────────────────────────────────────────────────
+
+  private async fixedWindow(
+    base: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost: number,
+    commit: boolean,
+  ): Promise<WindowDecision> {
+    const start = Math.floor(now / windowMs) * windowMs;
+    const resetAt = start + windowMs;
+    const counter = `${base}:fw:${start}`;
+
+    const count = commit
+      ? await this._backend.increment(counter, cost, windowMs)
+      : ((await this._backend.get<number>(counter)) ?? 0) + cost;
+    if (count > limit) {
+      if (commit) await this._backend.increment(counter, -cost, windowMs);
+      return this.decision(
+        false,
+        limit,
+        limit - (count - cost),
+        resetAt,
+        resetAt - now,
+      );
+    }
+    return this.decision(true, limit, limit - count, resetAt, 0);
+  }
+
+  private async slidingLog(
+    base: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost: number,
+    commit: boolean,
+  ): Promise<WindowDecision> {
+    const logKey = `${base}:log`;
+    const log = ((await this._backend.get<number[]>(logKey)) ?? []).filter(
+      (ts) => ts > now - windowMs,
+    );
+    const resetAt = (log[0] ?? now) + windowMs;
+
+    if (log.length + cost > limit) {
+      // Wait until enough of the oldest entries have aged out.
+      const freeAt =
+        cost > limit ? resetAt : log[log.length + cost - limit - 1] + windowMs;
+      if (commit) await this._backend.set(logKey, log, windowMs);
+      return this.decision(
+        false,
+        limit,
+        limit - log.length,
+        resetAt,
+        freeAt - now,
+      );
+    }
+
+    for (let i = 0; i < cost; i++) log.push(now);
+    if (commit) await this._backend.set(logKey, log, windowMs);
+    return this.decision(true, limit, limit - log.length, log[0] + windowMs, 0);
+  }
+
+  private async slidingCounter(
+    base: string,
+    limit: number,
+    windowMs: number,
+    now: number,
+    cost: number,
+    commit: boolean,
+  ): Promise<WindowDecision> {
+    const start = Math.floor(now / windowMs) * windowMs;
+    const resetAt = start + windowMs;
+    const currentKey = `${base}:swc:${start}`;
+
+    const [current, previous] = await Promise.all([
+      this._backend.get<number>(currentKey),
+      this._backend.get<number>(`${base}:swc:${start - windowMs}`),
+    ]);
+    const c = current ?? 0;
+    const p = previous ?? 0;
+    const weight = 1 - (now - start) / windowMs;
+    const estimated = p * weight + c;
+
+    if (estimated + cost > limit) {
+      // Time until the previous window's weighted share shrinks enough.
+      const room = limit - c - cost;
+      const retryAt =
+        room >= 0 && p > 0 ? start + windowMs * (1 - room / p) : resetAt;
+      return this.decision(
+        false,
+        limit,
+        Math.floor(limit - estimated),
+        resetAt,
+        Math.ceil(retryAt - now),
+      );
+    }
+
+    // Keep the counter alive through the next window, where it is "previous".
+    const count = commit
+      ? await this._backend.increment(currentKey, cost, windowMs * 2)
+      : c + cost;
+    return this.decision(
+      true,
+      limit,
+      Math.floor(limit - (p * weight + count)),
+      resetAt,
+      0,
+    );
+  }
+
+  private async tokenBucket(
+    base: string,
+    capacity: number,
+    windowMs: number,
+    now: number,
+    cost: number,
+    commit: boolean,
+  ): Promise<WindowDecision> {
+    const bucketKey = `${base}:tb`;
+    const ratePerMs = capacity / windowMs;
+    const state = await this._backend.get<{
+      tokens: number;
+      updatedAt: number;
+    }>(bucketKey);
+
+    let tokens = capacity;
+    if (state) {
+      const elapsed = Math.max(0, now - state.updatedAt);
+      tokens = Math.min(capacity, state.tokens + elapsed * ratePerMs);
+    }
+
+    const allowed = cost <= tokens;
+    if (allowed) tokens -= cost;
+    if (commit) {
+      await this._backend.set(bucketKey, { tokens, updatedAt: now }, windowMs);
+    }
+
+    const fullAt = now + Math.ceil((capacity - tokens) / ratePerMs);
+    const retryAfterMs = allowed
+      ? 0
+      : cost > capacity
+        ? fullAt - now
+        : Math.ceil((cost - tokens) / ratePerMs);
+    return this.decision(
+      allowed,
+      capacity,
+      Math.floor(tokens),
+      fullAt,
+      retryAfterMs,
+    );
+  }
+
+  private decision(
+    allowed: boolean,
+    limit: number,
+    remaining: number,
+    resetAt: number,
+    retryAfterMs: number,
+  ): WindowDecision {
+    return {
+      allowed,
+      algorithm: this._algorithm,
+      limit,
+      remaining: Math.max(0, remaining),
+      resetAt: new Date(resetAt),
+      retryAfterMs: Math.max(0, retryAfterMs),
+    };
+  }
+}
+
+/**
+ * The decision to report when several rules apply: a denial always wins
+ * over an allowance. Among denials the one with the longest wait, otherwise
+ * the rule with the least capacity left.
+ */
+function mostRestrictive(decisions: RateLimitDecision[]): RateLimitDecision {
+  return decisions.reduce((worst, d) => {
+    if (d.allowed !== worst.allowed) return d.allowed ? worst : d;
+    if (!d.allowed) {
+      return d.retryAfterMs > worst.retryAfterMs ? d : worst;
+    }
+    return d.remaining < worst.remaining ||
+      (d.remaining === worst.remaining && d.resetAt > worst.resetAt)
+      ? d
+      : worst;
+  });
+}
@@ -0,0 +1,317 @@
+import { MajikAPI } from "./majik-api";
+import type {
+  MajikAPIClock,
+  MajikAPIJSON,
+  MajikAPINegativeCacheOptions,
+  MajikAPIRevocationDelta,
+  MajikAPIRevocationEntry,
+  MajikAPIRevocationListOptions,
+} from "./types";
+import {
+  assertPositiveInteger,
+  assertString,
+  assertStringArray,
+  systemClock,
+} from "./utils";
+
+const DAY_MS = 86_400_000;
+
+// ─────────────────────────────────────────────
+//  Revocation List
+// ─────────────────────────────────────────────
+//
+//  Gateways that cache key records keep serving a revoked key until their
+//  copy expires. The revocation list closes that gap: a compact, versioned
+//  set of revoked key ids and retired hashes that gateways pull
+//  incrementally and check before trusting a cached record.
+//
+//  Every entry gets the next sequence number. A gateway remembers the last
+//  number it saw and asks for the changes since; an entry is dropped once
+//  its TTL has passed, by which time no cache should still hold the key.
+// ─────────────────────────────────────────────
+
+/**
+ * A versioned set of revoked keys and retired hashes.
+ *
+ * The same class serves both sides: the service that revokes keys records
+ * them here (MajikAPIRepository does it on save() when given the list), and
+ * each gateway keeps a replica in sync with changesSince() and apply().
+ *
+ * @example
+ * // Service
+ * const revocations = new MajikAPIRevocationList({ ttlMs: 60 * 60 * 1000 });
+ * const keys = new MajikAPIRepository(store, { revocations });
+ * app.get("/revocations", (req, res) =>
+ *   res.json(revocations.changesSince(Number(req.query.since ?? 0))),
+ * );
+ *
+ * // Gateway
+ * const replica = new MajikAPIRevocationList({ ttlMs: 60 * 60 * 1000 });
+ * setInterval(() => replica.sync((since) => fetchJSON(`/revocations?since=${since}`)), 5000);
+ * const decision = authorize(cachedRow, request, policies, replica);
+ */
+export class MajikAPIRevocationList {
+  private readonly _ttlMs: number;
+  private readonly _clock: MajikAPIClock;
+  private readonly _entries = new Map<number, MajikAPIRevocationEntry>();
+  private readonly _byId = new Map<string, MajikAPIRevocationEntry>();
+  private readonly _byHash = new Map<string, MajikAPIRevocationEntry>();
+  private _sequence = 0;
+  /** Highest sequence number whose entry may have been pruned. */
+  private _floor = 0;
+
+  constructor(options: MajikAPIRevocationListOptions = {}) {
+    this._ttlMs = options.ttlMs ?? DAY_MS;
+    assertPositiveInteger(this._ttlMs, "options.ttlMs");
+    this._clock = options.clock ?? systemClock;
+  }
+
+  /** Sequence number of the latest entry (0 for an empty, new list). */
+  get sequence(): number {
+    return this._sequence;
+  }
+
+  /** Number of entries currently held. */
+  get size(): number {
+    this.prune();
+    return this._entries.size;
+  }
+
+  /**
+   * Record a revoked (or deleted) key: its id and every hash it answers to
+   * stop verifying. The reason and time are taken from the key when it was
+   * revoked with `revoke()`.
+   */
+  revoke(key: MajikAPI | MajikAPIJSON): MajikAPIRevocationEntry {
+    const data = key instanceof MajikAPI ? key.toJSON() : key;
+    assertString(data?.id, "key.id");
+    const now = this._clock();
+    return this.add({
+      type: "revoked",
+      id: data.id,
+      hashes: [
+        data.api_key,
+        ...(data.previous_keys ?? []).map((k) => k.api_key),
+      ],
+      reason: data.revocation_reason ?? "unspecified",
+      revoked_at: data.revoked_at ?? now.toISOString(),
+      expires_at: new Date(now.getTime() + this._ttlMs).toISOString(),
+    });
+  }
+
+  /**
+   * Record hashes a key no longer answers to, e.g. after a rotation. Pass
+   * `retiredAt` for hashes still in a grace period; they match from then on.
+   */
+  retire(
+    id: string,
+    hashes: string[],
+    retiredAt: Date = this._clock(),
+  ): MajikAPIRevocationEntry {
+    assertString(id, "id");
+    assertStringArray(hashes, "hashes");
+    const from = Math.max(retiredAt.getTime(), this._clock().getTime());
+    return this.add({
+      type: "retired",
+      id,
+      hashes: [...hashes],
+      reason: null,
+      revoked_at: retiredAt.toISOString(),
+      expires_at: new Date(from + this._ttlMs).toISOString(),
+    });
+  }
+
+  /**
+   * The entry that revokes a key record, or null if the list has none in
+   * effect. Checks the record's id and hash, and the hash it was looked up
+   * under when that differs (a grace-period previous key).
+   *
+   * @example
+   * const cached = await cache.get(hash);
+   * if (cached && revocations.check(cached, hash)) await cache.delete(hash);
+   */
+  check(
+    record: Pick<MajikAPIJSON, "id" | "api_key">,
+    hash?: string,
+  ): MajikAPIRevocationEntry | null {
+    this.prune();
+    const now = this._clock().toISOString();
+    const entries = [
+      this._byId.get(record.id),
+      this._byHash.get(record.api_key),
+      hash === undefined ? undefined : this._byHash.get(hash),
+    ];
+    const entry = entries.find((e) => e !== undefined && e.revoked_at <= now);
+    return entry ? structuredClone(entry) : null;
+  }
+
+  /** True when a key id or hash is revoked. */
+  has(idOrHash: string): boolean {
+    return this.check({ id: idOrHash, api_key: idOrHash }) !== null;
+  }
+
+  /**
+   * Entries added since sequence number `since`, for a replica to apply().
+   * Pass 0 for the whole list. When entries after `since` were already
+   * pruned, or `since` is ahead of this list (it was rebuilt), the result
+   * has `reset: true` and carries the whole list instead.
+   */
+  changesSince(since: number): MajikAPIRevocationDelta {
+    this.prune();
+    const reset = since < this._floor || since > this._sequence;
+    const entries = [...this._entries.values()].filter(
+      (entry) => reset || entry.seq > since,
+    );
+    return {
+      from: since,
+      to: this._sequence,
+      reset,
+      entries: structuredClone(entries),
+    };
+  }
+
+  /**
+   * Apply a delta from another list's changesSince(). Entries this list
+   * already has are skipped. Throws if the delta starts after this list's
+   * sequence number, since entries in between would be missing.
+   */
+  apply(delta: MajikAPIRevocationDelta): void {
+    if (delta.reset) {
+      this._entries.clear();
+      this._sequence = 0;
+      this._floor = delta.to;
+    } else if (delta.from > this._sequence) {
+      throw new Error(
+        `[MajikAPI] apply(): The delta starts at sequence ${delta.from} but this list is at ${this._sequence}. Request changesSince(${this._sequence}) instead.`,
+      );
+    }
+    for (const entry of delta.entries) {
+      if (entry.seq > this._sequence || delta.reset) {
+        this._entries.set(entry.seq, structuredClone(entry));
+      }
+    }
+    this._sequence = Math.max(this._sequence, delta.to);
+    this.reindex();
+  }
+
+  /**
+   * Pull and apply the changes since this list's sequence number.
+   * `fetchChanges` is called with that number and resolves the source
+   * list's changesSince() for it, typically over HTTP.
+   */
+  async sync(
+    fetchChanges: (since: number) => Promise<MajikAPIRevocationDelta>,
+  ): Promise<void> {
+    this.apply(await fetchChanges(this._sequence));
+  }
+
+  /**
+   * Drop entries whose TTL has passed. Runs automatically before every
+   * read; call it yourself to release memory on a quiet list.
+   */
+  prune(): void {
+    const now = this._clock().toISOString();
+    let pruned = false;
+    for (const [seq, entry] of this._entries) {
+      if (entry.expires_at <= now) {
+        this._entries.delete(seq);
+        this._floor = Math.max(this._floor, seq);
+        pruned = true;
+      }
+    }
+    if (pruned) this.reindex();
+  }
+
+  private add(
+    entry: Omit<MajikAPIRevocationEntry, "seq">,
+  ): MajikAPIRevocationEntry {
+    const added = { seq: ++this._sequence, ...entry };
+    this._entries.set(added.seq, added);
+    this.index(added);
+    return structuredClone(added);
+  }
+
+  private reindex(): void {
+    this._byId.clear();
+    this._byHash.clear();
+    this._entries.forEach((entry) => this.index(entry));
+  }
+
+  /** Index an entry, keeping whichever entry per id/hash takes effect first. */
+  private index(entry: MajikAPIRevocationEntry): void {
+    const put = (map: Map<string, MajikAPIRevocationEntry>, key: string) => {
+      const existing = map.get(key);
+      if (!existing || entry.revoked_at < existing.revoked_at) {
+        map.set(key, entry);
+      }
+    };
+    if (entry.type === "revoked") put(this._byId, entry.id);
+    entry.hashes.forEach((hash) => put(this._byHash, hash));
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Negative Cache
+// ─────────────────────────────────────────────
+
+/**
+ * Remembers, briefly, hashes that matched no key, so a client hammering the
+ * API with unknown or malformed keys costs one store lookup per key rather
+ * than one per request. Entries expire after `ttlMs` and the oldest are
+ * evicted beyond `maxEntries`; keep the TTL short, since a key created
+ * elsewhere under a remembered hash is rejected until it passes.
+ *
+ * @example
+ * const keys = new MajikAPIRepository(store, {
+ *   negativeCache: new MajikAPINegativeCache({ ttlMs: 10_000 }),
+ * });
+ */
+export class MajikAPINegativeCache {
+  private readonly _ttlMs: number;
+  private readonly _maxEntries: number;
+  private readonly _clock: MajikAPIClock;
+  /** Hash → expiry in epoch ms, oldest first. */
+  private readonly _misses = new Map<string, number>();
+
+  constructor(options: MajikAPINegativeCacheOptions = {}) {
+    this._ttlMs = options.ttlMs ?? 30_000;
+    this._maxEntries = options.maxEntries ?? 10_000;
+    assertPositiveInteger(this._ttlMs, "options.ttlMs");
+    assertPositiveInteger(this._maxEntries, "options.maxEntries");
+    this._clock = options.clock ?? systemClock;
+  }
+
+  /** True when `hash` was recorded as a miss within the TTL. */
+  has(hash: string): boolean {
+    const expiresAt = this._misses.get(hash);
+    if (expiresAt === undefined) return false;
+    if (expiresAt <= this._clock().getTime()) {
+      this._misses.delete(hash);
+      return false;
+    }
+    return true;
+  }
+
+  /** Record a miss for `hash`. */
+  add(hash: string): void {
+    this._misses.delete(hash);
+    this._misses.set(hash, this._clock().getTime() + this._ttlMs);
+    for (const oldest of this._misses.keys()) {
+      if (this._misses.size <= this._maxEntries) break;
+      this._misses.delete(oldest);
+    }
+  }
+
+  /** Forget a miss, e.g. once a key with this hash has been saved. */
+  delete(hash: string): boolean {
+    return this._misses.delete(hash);
+  }
+
+  clear(): void {
+    this._misses.clear();
+  }
+
+  get size(): number {
+    return this._misses.size;
+  }
+}
@@ -0,0 +1,84 @@
+// ─────────────────────────────────────────────
+//  Route Patterns
+// ─────────────────────────────────────────────
+//
+//  Rate-limit rules can be scoped to a route pattern. Patterns are matched
+//  against the request path segment by segment:
+//
+//    "/v1/search"       matches "/v1/search" only
+//    "/v1/projects/*"   matches "/v1/projects/42", not "/v1/projects/42/files"
+//    "/v1/projects/**"  matches "/v1/projects" and everything beneath it
+//
+//  "*" stands for exactly one segment; "**" may only be the last segment.
+//  Trailing slashes and query strings are ignored; matching is
+//  case-sensitive.
+// ─────────────────────────────────────────────
+
+import { MajikAPIValidationError } from "./errors";
+
+const INVALID_CHARS = /[\s?#]/;
+
+/**
+ * Validate and normalise a route pattern (trimmed, without a trailing
+ * slash). Throws a MajikAPIValidationError for anything that is not a
+ * well-formed pattern.
+ */
+export function normalizeRoute(pattern: string, label = "route"): string {
+  const value = typeof pattern === "string" ? pattern.trim() : "";
+  const segments = value.split("/").slice(1);
+  if (segments[segments.length - 1] === "") segments.pop();
+
+  const valid =
+    value.startsWith("/") &&
+    !INVALID_CHARS.test(value) &&
+    segments.every(
+      (s, i) =>
+        s !== "" &&
+        (!s.includes("*") ||
+          s === "*" ||
+          (s === "**" && i === segments.length - 1)),
+    );
+  if (!valid) {
+    throw new MajikAPIValidationError([
+      {
+        path: label,
+        code: "invalid_format",
+        message: `"${label}" is not a valid route pattern: ${JSON.stringify(pattern)}. Expected a path such as "/v1/search", "/v1/projects/*" or "/v1/projects/**".`,
+      },
+    ]);
+  }
+  return `/${segments.join("/")}`;
+}
+
+/** True when `pattern` is a well-formed route pattern. Never throws. */
+export function isValidRoute(pattern: string): boolean {
+  try {
+    normalizeRoute(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True when `path` matches the route `pattern`. The pattern must already be
+ * valid; `path` may carry a query string.
+ *
+ * @example
+ * matchRoute("/v1/projects/*", "/v1/projects/42?expand=1"); // true
+ * matchRoute("/v1/projects/*", "/v1/projects");              // false
+ */
+export function matchRoute(pattern: string, path: string): boolean {
+  const want = segmentsOf(pattern);
+  const have = segmentsOf(path.split(/[?#]/)[0]);
+  for (let i = 0; i < want.length; i++) {
+    if (want[i] === "**") return true;
+    if (i >= have.length) return false;
+    if (want[i] !== "*" && want[i] !== have[i]) return false;
+  }
+  return want.length === have.length;
+}
+
+function segmentsOf(path: string): string[] {
+  return path.split("/").filter((s) => s !== "");
+}
@@ -0,0 +1,162 @@
+// ─────────────────────────────────────────────
+//  Scopes
+// ─────────────────────────────────────────────
+//
+//  A scope is a `:`-separated path such as "projects:read". Granting a scope
+//  grants everything beneath it:
+//
+//    "projects"    grants "projects", "projects:read", "projects:read:own"…
+//    "admin:*"     grants "admin:users", "admin:billing:write"… but not
+//                  "admin" itself
+//    "*"           grants every scope
+//
+//  Wildcards may only appear as the last segment. Scopes are lowercase.
+// ─────────────────────────────────────────────
+
+import { MajikAPIValidationError } from "./errors";
+
+const SEGMENT = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Validate and normalise a scope (trimmed, lowercased). Throws a
+ * MajikAPIValidationError for anything that is not a well-formed scope.
+ */
+export function normalizeScope(scope: string, label = "scope"): string {
+  const value = typeof scope === "string" ? scope.trim().toLowerCase() : "";
+  const segments = value.split(":");
+  const valid =
+    value === "*" ||
+    segments.every(
+      (s, i) => SEGMENT.test(s) || (s === "*" && i === segments.length - 1),
+    );
+  if (!valid) {
+    throw new MajikAPIValidationError([
+      {
+        path: label,
+        code: "invalid_format",
+        message: `"${label}" is not a valid scope: ${JSON.stringify(scope)}. Expected ":"-separated lowercase segments, e.g. "projects:read" or "admin:*".`,
+      },
+    ]);
+  }
+  return value;
+}
+
+/** True when `scope` is well-formed. Never throws. */
+export function isValidScope(scope: string): boolean {
+  try {
+    normalizeScope(scope);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True when the `granted` scope covers the `required` one. Both must already
+ * be normalised.
+ *
+ * @example
+ * scopeGrants("projects", "projects:read"); // true
+ * scopeGrants("admin:*", "admin");          // false
+ */
+export function scopeGrants(granted: string, required: string): boolean {
+  if (granted === "*" || granted === required) return true;
+  if (granted.endsWith(":*")) {
+    return required.startsWith(granted.slice(0, -1));
+  }
+  return required.startsWith(`${granted}:`);
+}
+
+/**
+ * The first scope in `granted` that covers `required`, or null if none does.
+ * `required` is normalised first.
+ */
+export function matchScope(required: string, granted: string[]): string | null {
+  const scope = normalizeScope(required);
+  return granted.find((g) => scopeGrants(g, scope)) ?? null;
+}
+
+/** Normalise, de-duplicate and drop scopes already covered by another. */
+export function compactScopes(scopes: string[]): string[] {
+  const unique = [...new Set(scopes.map((s) => normalizeScope(s)))];
+  return unique.filter(
+    (s) => !unique.some((other) => other !== s && scopeGrants(other, s)),
+  );
+}
+
+/**
+ * The scopes granted by both sets — what a key derived from a parent with
+ * `parent` scopes may actually use when it asks for `requested`.
+ *
+ * @example
+ * intersectScopes(["projects:read", "billing"], ["projects", "billing:read"]);
+ * // → ["billing:read", "projects:read"]
+ */
+export function intersectScopes(
+  parent: string[],
+  requested: string[],
+): string[] {
+  const p = compactScopes(parent);
+  const r = compactScopes(requested);
+  return compactScopes([
+    ...r.filter((s) => p.some((g) => scopeGrants(g, s))),
+    ...p.filter((s) => r.some((g) => scopeGrants(g, s))),
+  ]);
+}
+
+/**
+ * Check granted scopes against a catalogue of known concrete scopes. A scope
+ * is accepted when it grants at least one catalogue entry, so "projects" and
+ * "projects:*" are fine as long as some "projects:…" scope is registered.
+ * Throws a MajikAPIValidationError listing every unknown scope.
+ */
+export function assertScopesInCatalogue(
+  scopes: string[],
+  catalogue: readonly string[],
+  label: string,
+): void {
+  const unknown = scopes.filter(
+    (scope) => !catalogue.some((entry) => scopeGrants(scope, entry)),
+  );
+  if (unknown.length > 0) {
+    throw new MajikAPIValidationError(
+      unknown.map((scope) => ({
+        path: label,
+        code: "unknown_scope",
+        message: `"${label}" contains a scope that is not in the scope catalogue: ${JSON.stringify(scope)}`,
+      })),
+    );
+  }
+}
+
+/**
+ * Validate a scope catalogue. Entries must be concrete scopes (no
+ * wildcards). Returns the normalised, de-duplicated list.
+ */
+export function normalizeScopeCatalogue(
+  catalogue: readonly string[],
+): string[] {
+  if (!Array.isArray(catalogue)) {
+    throw new MajikAPIValidationError([
+      {
+        path: "scopeCatalogue",
+        code: "invalid_type",
+        message: '"scopeCatalogue" must be an array of scopes.',
+      },
+    ]);
+  }
+  const out = catalogue.map((entry, i) => {
+    const scope = normalizeScope(entry, `scopeCatalogue[${i}]`);
+    if (scope.split(":").includes("*")) {
+      throw new MajikAPIValidationError([
+        {
+          path: `scopeCatalogue[${i}]`,
+          code: "invalid_value",
+          message: `"scopeCatalogue" entries must not contain wildcards. Received: ${JSON.stringify(entry)}`,
+        },
+      ]);
+    }
+    return scope;
+  });
+  return [...new Set(out)];
+}
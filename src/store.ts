@@ -0,0 +1,428 @@
+import { DEFAULT_KEY_PREFIX } from "./constants";
+import { MajikAPIVersionConflictError } from "./errors";
+import { MajikAPI } from "./majik-api";
+import { DEFAULT_KEY_HASHER } from "./hashing";
+import { hasAPIKeyShape, parseAPIKey } from "./key-format";
+import type { MajikAPIPolicyRegistry } from "./policies";
+import type {
+  MajikAPINegativeCache,
+  MajikAPIRevocationList,
+} from "./revocation-list";
+import { intersectScopes } from "./scopes";
+import type {
+  MajikAPIChanges,
+  MajikAPIConfig,
+  MajikAPIDeriveOptions,
+  MajikAPIJSON,
+  MajikAPIKeyHasher,
+  MajikAPIPatch,
+  MajikAPIRepositoryOptions,
+  MajikAPIRotateOptions,
+  MajikAPIStore,
+  MajikAPIStoreListOptions,
+  MajikAPIStorePage,
+} from "./types";
+import { assertString } from "./utils";
+
+// ─────────────────────────────────────────────
+//  Patches
+// ─────────────────────────────────────────────
+
+/**
+ * Apply a `getChanges()` patch to a stored row and return the updated copy.
+ * Useful for adapters whose backend cannot update individual columns.
+ */
+export function applyChanges(
+  row: MajikAPIJSON,
+  changes: MajikAPIChanges,
+): MajikAPIJSON {
+  const out = structuredClone(row) as unknown as Record<string, unknown>;
+  for (const [path, value] of Object.entries(changes)) {
+    const segments = path.split(".");
+    const last = segments.pop() as string;
+    let target = out;
+    for (const segment of segments) {
+      if (typeof target[segment] !== "object" || target[segment] === null) {
+        target[segment] = {};
+      }
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[last] = structuredClone(value);
+  }
+  return out as unknown as MajikAPIJSON;
+}
+
+// ─────────────────────────────────────────────
+//  In-Memory Store
+// ─────────────────────────────────────────────
+
+/** Every hash a row answers to: the current one plus grace-period hashes. */
+function hashesOf(row: MajikAPIJSON): string[] {
+  return [row.api_key, ...(row.previous_keys ?? []).map((k) => k.api_key)];
+}
+
+/**
+ * Reference MajikAPIStore backed by two Maps. Intended for tests and local
+ * development — data lives only as long as the instance.
+ *
+ * Rows are deep-cloned on the way in and out, so mutating a returned object
+ * never changes what is stored (matching the behaviour of a real database).
+ */
+export class InMemoryMajikAPIStore implements MajikAPIStore {
+  private readonly _rows = new Map<string, MajikAPIJSON>();
+  private readonly _byHash = new Map<string, string>();
+
+  async findByHash(hash: string): Promise<MajikAPIJSON | null> {
+    const id = this._byHash.get(hash);
+    return id === undefined ? null : this.findById(id);
+  }
+
+  async findById(id: string): Promise<MajikAPIJSON | null> {
+    const row = this._rows.get(id);
+    return row ? structuredClone(row) : null;
+  }
+
+  async listByOwner(ownerId: string): Promise<MajikAPIJSON[]> {
+    return [...this._rows.values()]
+      .filter((row) => row.owner_id === ownerId)
+      .map((row) => structuredClone(row));
+  }
+
+  /**
+   * Keys in id order, `limit` (default 100) at a time. Honours
+   * `expiresBefore` by leaving out keys without an earlier valid_until.
+   */
+  async list(
+    options: MajikAPIStoreListOptions = {},
+  ): Promise<MajikAPIStorePage> {
+    const limit = options.limit ?? 100;
+    const before = options.expiresBefore?.getTime();
+    const rows = [...this._rows.values()]
+      .filter((row) => options.cursor == null || row.id > options.cursor)
+      .filter(
+        (row) =>
+          before === undefined ||
+          (row.valid_until !== null &&
+            new Date(row.valid_until).getTime() < before),
+      )
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    const page = rows.slice(0, limit);
+    return {
+      rows: page.map((row) => structuredClone(row)),
+      cursor: rows.length > limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  async save(data: MajikAPIJSON): Promise<void> {
+    const version = data.version ?? 0;
+    const existing = this._rows.get(data.id);
+    if (existing && (existing.version ?? 0) !== version) {
+      throw new MajikAPIVersionConflictError(
+        data.id,
+        version,
+        existing.version ?? 0,
+      );
+    }
+    this.write({ ...data, version: version + 1 });
+  }
+
+  async patch(patch: MajikAPIPatch): Promise<void> {
+    const existing = this._rows.get(patch.id);
+    if (!existing || (existing.version ?? 0) !== patch.version) {
+      throw new MajikAPIVersionConflictError(
+        patch.id,
+        patch.version,
+        existing ? (existing.version ?? 0) : null,
+      );
+    }
+    const row = applyChanges(existing, patch.changes);
+    this.write({ ...row, version: patch.version + 1 });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const row = this._rows.get(id);
+    if (!row) return false;
+    for (const hash of hashesOf(row)) this._byHash.delete(hash);
+    return this._rows.delete(id);
+  }
+
+  /** Number of stored keys. */
+  get size(): number {
+    return this._rows.size;
+  }
+
+  /** Remove every stored key. */
+  clear(): void {
+    this._rows.clear();
+    this._byHash.clear();
+  }
+
+  /** Store a row and re-index its hashes. */
+  private write(data: MajikAPIJSON): void {
+    const hashes = hashesOf(data);
+    for (const hash of hashes) {
+      const holder = this._byHash.get(hash);
+      if (holder !== undefined && holder !== data.id) {
+        throw new Error(
+          `[MajikAPI] save(): api_key hash already belongs to key "${holder}".`,
+        );
+      }
+    }
+
+    const previous = this._rows.get(data.id);
+    if (previous) {
+      for (const hash of hashesOf(previous)) this._byHash.delete(hash);
+    }
+
+    this._rows.set(data.id, structuredClone(data));
+    for (const hash of hashes) this._byHash.set(hash, data.id);
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Repository
+// ─────────────────────────────────────────────
+
+/**
+ * High-level key operations built on any MajikAPIStore. Converts between
+ * stored rows and MajikAPI instances so services don't repeat the glue.
+ *
+ * @example
+ * const keys = new MajikAPIRepository(new InMemoryMajikAPIStore());
+ *
+ * const key = MajikAPI.create(userId);
+ * await keys.save(key);
+ *
+ * const resolved = await keys.verify(req.headers["x-api-key"]);
+ * if (!resolved?.isActive()) return res.status(401).end();
+ */
+export class MajikAPIRepository {
+  private readonly _store: MajikAPIStore;
+  private readonly _hasher: MajikAPIKeyHasher;
+  private readonly _scopeCatalogue: readonly string[] | undefined;
+  private readonly _policies: MajikAPIPolicyRegistry | undefined;
+  private readonly _config: MajikAPIConfig | undefined;
+  private readonly _revocations: MajikAPIRevocationList | undefined;
+  private readonly _negativeCache: MajikAPINegativeCache | undefined;
+
+  constructor(store: MajikAPIStore, options: MajikAPIRepositoryOptions = {}) {
+    this._store = store;
+    this._hasher =
+      options.hasher ?? options.config?.hasher ?? DEFAULT_KEY_HASHER;
+    this._scopeCatalogue = options.scopeCatalogue;
+    this._policies = options.policies;
+    this._config = options.config;
+    this._revocations = options.revocations;
+    this._negativeCache = options.negativeCache;
+  }
+
+  /** The underlying storage adapter. */
+  get store(): MajikAPIStore {
+    return this._store;
+  }
+
+  /** The hasher used for lookups. */
+  get hasher(): MajikAPIKeyHasher {
+    return this._hasher;
+  }
+
+  /**
+   * Resolve a raw key presented by a client. Hashes it, looks the hash up
+   * and returns the matching key, or null if no key has that hash.
+   *
+   * Input in the generated key format with the configured prefix and a bad
+   * checksum resolves null offline, before any hashing or lookup. Custom
+   * keys that only look like generated ones are looked up as usual.
+   *
+   * Every hash the hasher can produce for the key is tried (current pepper
+   * first, then retired peppers and legacy SHA-256). Keys found under an
+   * outdated hash are upgraded and saved transparently. That save is
+   * best-effort: if it fails, e.g. on a version conflict with a concurrent
+   * verify, the key is still returned.
+   *
+   * With a revocation list, rows it revokes resolve null even when the
+   * store (e.g. a cache in front of the database) still returns them. With
+   * a negative cache, keys that matched nothing recently resolve null
+   * without a lookup.
+   *
+   * This does not check status — call isActive() or authorize() on the
+   * result before serving the request.
+   */
+  async verify(rawKey: string): Promise<MajikAPI | null> {
+    if (typeof rawKey !== "string" || rawKey.trim() === "") return null;
+    const raw = rawKey.trim();
+    const prefix = this._config?.keyFormat?.prefix ?? DEFAULT_KEY_PREFIX;
+    if (hasAPIKeyShape(raw, { prefix }) && parseAPIKey(raw) === null) {
+      return null;
+    }
+
+    const hashes = this._hasher.candidates(raw);
+    if (this._negativeCache?.has(hashes[0])) return null;
+
+    for (const hash of hashes) {
+      const row = await this._store.findByHash(hash);
+      if (row === null) continue;
+      if (this._revocations?.check(row, hash)) return null;
+
+      const key = this.load(row);
+      const { valid, upgraded } = key.verifyAndUpgrade(rawKey);
+      if (!valid) return null;
+      if (upgraded) {
+        // Best-effort: a concurrent verify may have saved the upgrade
+        // first. The key is authenticated either way.
+        try {
+          await this.save(key);
+        } catch {
+          // Retried by the next verify that finds the outdated hash.
+        }
+      }
+      return key;
+    }
+    this._negativeCache?.add(hashes[0]);
+    return null;
+  }
+
+  /** Load a key by its stable id, or null if it does not exist. */
+  async findById(id: string): Promise<MajikAPI | null> {
+    assertString(id, "id");
+    const row = await this._store.findById(id);
+    return row === null ? null : this.load(row);
+  }
+
+  /** Load every key belonging to an owner. */
+  async listByOwner(ownerId: string): Promise<MajikAPI[]> {
+    assertString(ownerId, "ownerId");
+    const rows = await this._store.listByOwner(ownerId);
+    return rows.map((row) => this.load(row));
+  }
+
+  /**
+   * Reconstruct a stored row with this repository's hasher, catalogue,
+   * policies and configuration.
+   */
+  load(row: MajikAPIJSON): MajikAPI {
+    return MajikAPI.fromJSON(row, {
+      hasher: this._hasher,
+      scopeCatalogue: this._scopeCatalogue,
+      policies: this._policies,
+      config: this._config,
+    });
+  }
+
+  /**
+   * Persist the current state of a key (insert or update).
+   *
+   * Keys that were loaded from the store are written as a patch of their
+   * changed fields when the store supports `patch()`; nothing is written
+   * when nothing changed. Rejects with MajikAPIVersionConflictError if the
+   * key was saved elsewhere since it was loaded.
+   *
+   * With a revocation list, a newly revoked key and any hashes the save
+   * retires (see `getRetiredHashes()`) are recorded in it.
+   */
+  async save(key: MajikAPI): Promise<void> {
+    const revoked = key.isRevoked() && "revoked_at" in key.getChanges();
+    const retired = key.getRetiredHashes();
+
+    if (key.version > 0 && this._store.patch) {
+      if (!key.hasChanges()) return;
+      await this._store.patch(key.getPatch());
+    } else {
+      await this._store.save(key.toJSON());
+    }
+    key.markPersisted();
+    this._negativeCache?.delete(key.apiKey);
+
+    if (this._revocations === undefined) return;
+    if (revoked) {
+      this._revocations.revoke(key);
+      return;
+    }
+    // One entry per retirement time: a rotation with a grace period retires
+    // the old hash later than a finalizeRotation() in the same save.
+    const byTime = new Map<number, string[]>();
+    for (const { apiKey, retiredAt } of retired) {
+      const at = retiredAt.getTime();
+      byTime.set(at, [...(byTime.get(at) ?? []), apiKey]);
+    }
+    byTime.forEach((hashes, at) =>
+      this._revocations?.retire(key.id, hashes, new Date(at)),
+    );
+  }
+
+  /**
+   * Delete a key by id. Resolves true if a key was removed. With a
+   * revocation list, the deleted key is recorded in it as revoked.
+   */
+  async delete(id: string): Promise<boolean> {
+    assertString(id, "id");
+    if (this._revocations === undefined) return this._store.delete(id);
+
+    const row = await this._store.findById(id);
+    const deleted = await this._store.delete(id);
+    if (deleted && row !== null) this._revocations.revoke(row);
+    return deleted;
+  }
+
+  /**
+   * Derive a narrower key from a stored parent and persist it. Resolves the
+   * new key — read `rawApiKey` from it — or null if the parent does not
+   * exist. See `MajikAPI.derive()`.
+   */
+  async derive(
+    parentId: string,
+    options: MajikAPIDeriveOptions = {},
+  ): Promise<MajikAPI | null> {
+    const parent = await this.findById(parentId);
+    if (parent === null) return null;
+    const child = parent.derive(options);
+    await this.save(child);
+    return child;
+  }
+
+  /**
+   * The scopes a key can actually use: its own scopes intersected with those
+   * of every ancestor it was derived from. A key whose parent was deleted
+   * has no effective scopes.
+   */
+  async effectiveScopes(key: MajikAPI): Promise<string[]> {
+    let scopes = key.scopes;
+    const seen = new Set([key.id]);
+    let parentId = key.parentId;
+    while (parentId !== null) {
+      if (seen.has(parentId)) {
+        throw new Error(
+          `[MajikAPI] effectiveScopes(): Cycle in the parent chain of key "${key.id}".`,
+        );
+      }
+      seen.add(parentId);
+      const parent = await this.findById(parentId);
+      if (parent === null) return [];
+      scopes = intersectScopes(parent.scopes, scopes);
+      parentId = parent.parentId;
+    }
+    return scopes;
+  }
+
+  /**
+   * Rotate a stored key and persist the new hash in one step.
+   * Resolves the rotated instance — read `rawApiKey` from it to show the new
+   * plaintext to the caller — or null if no key has that id.
+   *
+   * @param id      - Stable id of the key to rotate.
+   * @param text    - Optional new raw key. If omitted, one is generated.
+   * @param options - Optional grace period during which the old key still
+   *                  verifies.
+   */
+  async rotate(
+    id: string,
+    text?: string,
+    options: MajikAPIRotateOptions = {},
+  ): Promise<MajikAPI | null> {
+    const key = await this.findById(id);
+    if (key === null) return null;
+    key.rotate(text, options);
+    await this.save(key);
+    return key;
+  }
+}
@@ -0,0 +1,76 @@
+// ─────────────────────────────────────────────
+//  Time Windows
+// ─────────────────────────────────────────────
+//
+//  A key can be limited to recurring periods of the week, such as weekdays
+//  08:00–18:00 in Europe/Berlin. Windows are evaluated in their own time
+//  zone, so they follow DST changes:
+//
+//    { days: ["mon", "fri"], start: "08:00", end: "18:00", … }
+//        open Monday and Friday from 08:00 until 17:59:59.999
+//    { days: ["fri"], start: "22:00", end: "06:00", … }
+//        open Friday 22:00 until Saturday 06:00
+//
+//  A key with several windows is usable inside any of them.
+// ─────────────────────────────────────────────
+
+import { WEEKDAYS } from "./constants";
+import { toWallTime, weekdayIn } from "./time";
+import type { MajikAPITimeWindow } from "./types";
+
+const TIME_OF_DAY = /^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/** True when `value` is an "HH:MM" time from "00:00" to "24:00". */
+export function isValidTimeOfDay(value: string): boolean {
+  return typeof value === "string" && TIME_OF_DAY.test(value);
+}
+
+/** Minutes since midnight of a valid "HH:MM" time. */
+function minutesOf(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** True when `at` falls inside `window`. The window must already be valid. */
+function inWindow(window: MajikAPITimeWindow, at: Date): boolean {
+  const wall = toWallTime(at, window.timeZone);
+  const minute = wall.hour * 60 + wall.minute;
+  // weekdayIn() counts from Sunday; WEEKDAYS starts on Monday.
+  const weekday = (weekdayIn(at, window.timeZone) + 6) % 7;
+  const today = window.days.includes(WEEKDAYS[weekday]);
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+
+  if (start < end) return today && minute >= start && minute < end;
+  // Overnight: the window belongs to the day it opens on.
+  const yesterday = window.days.includes(WEEKDAYS[(weekday + 6) % 7]);
+  return (today && minute >= start) || (yesterday && minute < end);
+}
+
+/**
+ * The first window that contains `at`, or null when none does. An empty
+ * list places no restriction and always returns null — check its length
+ * before treating null as a denial. The windows must already be valid.
+ *
+ * @example
+ * const hours = [{ days: ["mon", "tue", "wed", "thu", "fri"], start: "08:00", end: "18:00", timeZone: "Europe/Berlin" }];
+ * matchTimeWindow(hours, new Date("2026-03-02T09:30:00Z")); // → hours[0] (Monday 10:30 in Berlin)
+ * matchTimeWindow(hours, new Date("2026-03-07T09:30:00Z")); // → null (Saturday)
+ */
+export function matchTimeWindow(
+  windows: readonly MajikAPITimeWindow[],
+  at: Date,
+): MajikAPITimeWindow | null {
+  return windows.find((window) => inWindow(window, at)) ?? null;
+}
+
+/**
+ * A compact label for a window, as reported in authorization rules.
+ *
+ * @example
+ * formatTimeWindow({ days: ["mon", "fri"], start: "08:00", end: "18:00", timeZone: "Europe/Berlin" });
+ * // → "mon,fri 08:00-18:00 Europe/Berlin"
+ */
+export function formatTimeWindow(window: MajikAPITimeWindow): string {
+  return `${window.days.join(",")} ${window.start}-${window.end} ${window.timeZone}`;
+}
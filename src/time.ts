@@ -0,0 +1,138 @@
+// ─────────────────────────────────────────────
+//  Time Zone Helpers
+// ─────────────────────────────────────────────
+//
+//  Calendar maths in arbitrary IANA time zones using only Intl, so the
+//  library stays dependency-free. Wall-clock values are plain objects;
+//  conversion back to an instant accounts for the zone's UTC offset at
+//  that moment (including DST transitions).
+// ─────────────────────────────────────────────
+
+/** A wall-clock date/time in some time zone. `month` is 1–12. */
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/** True when `timeZone` is an IANA zone name this runtime understands. */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (typeof timeZone !== "string" || timeZone.trim() === "") return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The wall-clock reading of `date` in `timeZone`. */
+export function toWallTime(date: Date, timeZone: string): WallTime {
+  const parts: Record<string, string> = {};
+  for (const p of formatterFor(timeZone).formatToParts(date)) {
+    parts[p.type] = p.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/** Day of the week of `date` in `timeZone`. 0 = Sunday … 6 = Saturday. */
+export function weekdayIn(date: Date, timeZone: string): number {
+  const { year, month, day } = toWallTime(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function wallToUTCms(wall: WallTime): number {
+  return Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour,
+    wall.minute,
+    wall.second,
+    wall.millisecond,
+  );
+}
+
+/** Offset of `timeZone` from UTC at `date`, in milliseconds. */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const wall = toWallTime(date, timeZone);
+  return wallToUTCms(wall) - date.getTime();
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` to an instant. Values that fall in
+ * a DST gap resolve forward; ambiguous values resolve to the earlier instant.
+ * Out-of-range fields (month 13, day 0, …) roll over like `Date.UTC`.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const guess = wallToUTCms(wall);
+  const DAY = 86_400_000;
+  // The offsets a day either side cover both sides of any DST transition.
+  const candidates = [
+    ...new Set(
+      [guess - DAY, guess + DAY].map(
+        (t) => guess - timeZoneOffset(new Date(t), timeZone),
+      ),
+    ),
+  ];
+
+  const exact = candidates.filter(
+    (c) => c + timeZoneOffset(new Date(c), timeZone) === guess,
+  );
+  if (exact.length > 0) return new Date(Math.min(...exact));
+  return new Date(Math.max(...candidates));
+}
+
+/** Number of days in a month (`month` is 1–12). */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Add whole months to a wall time, clamping the day to the end of the
+ * target month (Jan 31 + 1 month → Feb 28/29).
+ */
+export function addMonths(wall: WallTime, months: number): WallTime {
+  const index = wall.year * 12 + (wall.month - 1) + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return {
+    ...wall,
+    year,
+    month,
+    day: Math.min(wall.day, daysInMonth(year, month)),
+  };
+}
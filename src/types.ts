@@ -1,4 +1,13 @@
-export type RateLimitFrequency = "seconds" | "minutes" | "hours";
+import type { MajikAPI } from "./majik-api";
+import type { MajikAPIPolicyRegistry } from "./policies";
+import type { MajikAPIRateLimiter } from "./rate-limiter";
+import type {
+  MajikAPINegativeCache,
+  MajikAPIRevocationList,
+} from "./revocation-list";
+import type { MajikAPIUsageMeter } from "./usage";
+
+export type RateLimitFrequency = "seconds" | "minutes" | "hours" | "days";
 
 export type QuotaFrequency =
   | "hours"
@@ -13,6 +22,21 @@ export interface RateLimit {
   frequency: RateLimitFrequency;
 }
 
+/**
+ * An additional rate limit enforced alongside `settings.rateLimit`, e.g. a
+ * per-second burst limit next to an hourly sustained one.
+ *
+ * method — Only requests with this HTTP method count against the rule.
+ * route  — Only requests whose path matches this pattern count against the
+ *          rule. See matchRoute() for the syntax.
+ *
+ * A rule with neither applies to every request.
+ */
+export interface RateLimitRule extends RateLimit {
+  method?: string;
+  route?: string;
+}
+
 /**
  * Quota controls how many total requests (or requests within a rolling window)
  * are permitted for this key.
@@ -40,43 +64,1369 @@ export interface DomainWhitelist {
   domains: string[];
 }
 
+/**
+ * rateLimits — Further limits on top of `rateLimit`. A request must fit
+ *          `rateLimit` and every rule that matches it.
+ * scopes — Permissions granted to the key, e.g. "projects:read" or
+ *          "admin:*". A scope grants everything beneath it. Empty means the
+ *          key holds no scopes.
+ */
 export interface MajikAPISettings {
   rateLimit: RateLimit;
+  rateLimits?: RateLimitRule[];
   quota: Quota;
   ipWhitelist: IPWhitelist;
   domainWhitelist: DomainWhitelist;
   allowedMethods?: string[];
+  scopes?: string[];
+  timeWindows?: MajikAPITimeWindow[];
   metadata?: Record<string, unknown>;
 }
 
+export type MajikAPIWeekday =
+  "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+/**
+ * A recurring period of the week in which a key may be used. A key with
+ * `settings.timeWindows` is only active inside one of them; an empty list
+ * means no restriction.
+ *
+ * days     — Days the window opens on.
+ * start    — Opening time, "HH:MM" (24-hour) wall-clock time in `timeZone`.
+ * end      — Closing time, exclusive. "24:00" closes at midnight; an end
+ *            before `start` runs past midnight into the next day.
+ * timeZone — IANA time zone, e.g. "Europe/Berlin".
+ *
+ * @example
+ * // Weekdays 08:00–18:00 Berlin time
+ * { days: ["mon", "tue", "wed", "thu", "fri"], start: "08:00", end: "18:00", timeZone: "Europe/Berlin" }
+ */
+export interface MajikAPITimeWindow {
+  days: MajikAPIWeekday[];
+  start: string;
+  end: string;
+  timeZone: string;
+}
+
 /**
  * The serialised shape stored in Supabase and cached in Redis.
  *
  * id       — stable UUID primary key in Supabase. Never changes, even on
  *            key rotation. Safe to use as a FK in audit/event tables.
  * owner_id — FK to auth.users. Identifies who owns this key.
- * api_key  — SHA-256 hash of the raw plaintext key. Has a UNIQUE INDEX in
+ * api_key  — Hash of the raw plaintext key. Has a UNIQUE INDEX in
  *            Postgres (not the PK). Used as the Redis cache key prefix.
- *            The raw key is never stored anywhere.
+ *            The raw key is never stored anywhere. Either a legacy bare
+ *            SHA-256 base64 digest or `v2$hmac-sha256$<pepperId>$<digest>`.
  * is_valid — Computed convenience flag. True when the key is active (not
- *            expired, not restricted). Does NOT account for quota — use
- *            isQuotaExceeded() for runtime quota checks.
+ *            pending, revoked, expired or restricted, and inside one of its
+ *            time windows) at serialisation time. Does NOT account for
+ *            quota — use isQuotaExceeded() for runtime quota checks.
+ * valid_from — When the key becomes usable, or null for immediately.
+ *            Until then its status is "pending".
+ * revoked_at — When the key was revoked, or null. Revocation is final.
+ * revoked_by — Actor who revoked the key, or null.
+ * revocation_reason — Why the key was revoked. null while it is not.
+ * key_id   — Public id segment of a formatted key ("3fK9aQ2z"). Safe to
+ *            display. null for keys not in the `mjk_live_…` format.
+ * key_prefix — prefix and environment of a formatted key ("mjk_live").
+ *            null for keys not in the `mjk_live_…` format.
+ * previous_keys — Hashes replaced by a grace-period rotate() that still
+ *            verify until their `expires_at`. Stores must index these
+ *            hashes for findByHash() as well.
+ * parent_id — id of the key this one was derived from, or null.
+ * policy_id — Policy (plan) the key follows, or null. See MajikAPIPolicy.
+ * overrides — Per-key values for policy fields. They win over the policy.
+ *            Always empty for keys without a policy.
+ * schema_version — Shape version of this object. Older payloads are
+ *            upgraded by the migration pipeline on fromJSON().
+ * version  — Optimistic-concurrency counter. 0 for a key that has never
+ *            been saved; stores bump it by one on every write and reject
+ *            writes based on an older version.
  */
 export interface MajikAPIJSON {
   id: string;
   owner_id: string;
+  parent_id: string | null;
   name: string;
   api_key: string;
+  key_id: string | null;
+  key_prefix: string | null;
+  previous_keys: MajikAPIPreviousKey[];
   timestamp: string;
   restricted: boolean;
+  valid_from: string | null;
   valid_until: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revocation_reason: MajikAPIRevocationReason | null;
   is_valid: boolean;
   settings: MajikAPISettings;
+  policy_id: string | null;
+  overrides: MajikAPIPolicySettings;
+  schema_version: number;
+  version: number;
+}
+
+/**
+ * Why a key was revoked.
+ *
+ * compromised   — The raw key leaked or is suspected to have.
+ * owner_request — The owner asked for it, e.g. from a dashboard.
+ * policy        — An automated rule or administrator action.
+ * superseded    — Replaced by another key.
+ * unspecified   — No reason given.
+ */
+export type MajikAPIRevocationReason =
+  "compromised" | "owner_request" | "policy" | "superseded" | "unspecified";
+
+/** The revocation of a key, as returned by the `revocation` getter. */
+export interface MajikAPIRevocation {
+  revokedAt: Date;
+  revokedBy: string | null;
+  reason: MajikAPIRevocationReason;
+}
+
+/**
+ * A superseded key hash kept alive during a grace-period rotation.
+ *
+ * api_key    — The old hash.
+ * key_id     — The old key's public id, or null for unformatted keys.
+ * expires_at — ISO timestamp after which the old key stops verifying.
+ */
+export interface MajikAPIPreviousKey {
+  api_key: string;
+  key_id: string | null;
+  expires_at: string;
+}
+
+export interface MajikAPIRotateOptions {
+  /**
+   * How long the old key keeps working after rotation, in milliseconds.
+   * Defaults to 0 — the old key stops verifying immediately.
+   */
+  gracePeriodMs?: number;
 }
 
 export interface MajikAPICreateOptions {
   name?: string;
+  /** Format of the generated raw key. Ignored when `text` is supplied. */
+  keyFormat?: KeyFormatOptions;
+  /** Hasher for the stored api_key. Defaults to legacy SHA-256. */
+  hasher?: MajikAPIKeyHasher;
   restricted?: boolean;
+  /** When the key becomes usable. Must be before `valid_until`. */
+  valid_from?: Date | string | null;
   valid_until?: Date | string | null;
   settings?: Partial<MajikAPISettings>;
+  /** Known scopes. When set, `settings.scopes` must only use these. */
+  scopeCatalogue?: readonly string[];
+  /** Recorded as the actor of this key's audit events. */
+  actor?: string | null;
+  /**
+   * Id of the policy the key follows. Requires `policies`. Policy fields
+   * given in `settings` become per-key overrides.
+   */
+  policy?: string | null;
+  /** Registry the key resolves its policy from. */
+  policies?: MajikAPIPolicyRegistry;
+  /** Deployment-wide limits and defaults. Usually set by createMajikAPI(). */
+  config?: MajikAPIConfig;
+}
+
+/**
+ * Options for `derive()`. The derived key belongs to the same owner and
+ * starts from a copy of the parent's settings.
+ *
+ * scopes      — Requested scopes. Narrowed to what the parent grants;
+ *               defaults to all of the parent's scopes.
+ * valid_until — Expiry of the derived key. Never later than the parent's.
+ */
+export interface MajikAPIDeriveOptions {
+  name?: string;
+  text?: string;
+  keyFormat?: KeyFormatOptions;
+  scopes?: string[];
+  valid_until?: Date | string | null;
+}
+
+// ─────────────────────────────────────────────
+//  Authorization
+// ─────────────────────────────────────────────
+
+/**
+ * The incoming request attributes checked by `authorize()`.
+ *
+ * ip          — Client IP address as seen by the gateway.
+ * origin      — Value of the `Origin` or `Referer` header (a full URL) or a
+ *               bare host name.
+ * method      — HTTP method of the request. Case-insensitive.
+ * scopes      — Scopes the request needs. Every one must be granted by the
+ *               key.
+ * now         — Point in time to evaluate valid_from, expiry and time
+ *               windows against. Defaults to `new Date()`.
+ * revocations — A synced MajikAPIRevocationList. Keys it revokes are denied
+ *               with "revoked", whatever the record says.
+ */
+export interface MajikAPIAuthorizeRequest {
+  ip?: string | null;
+  origin?: string | null;
+  method?: string | null;
+  scopes?: string[];
+  now?: Date;
+  revocations?: MajikAPIRevocationList | null;
+}
+
+/** Machine-readable reason attached to every denied authorization decision. */
+export type MajikAPIDenialReason =
+  | "not_yet_valid"
+  | "expired"
+  | "revoked"
+  | "restricted"
+  | "outside_time_window"
+  | "ip_not_allowed"
+  | "domain_not_allowed"
+  | "method_not_allowed"
+  | "insufficient_scope";
+
+/**
+ * A single rule considered during authorization.
+ *
+ * type  — The settings area the rule belongs to.
+ * value — The concrete entry involved: the whitelisted IP/CIDR or domain that
+ *         matched, the allowed method, the granted scope (or, on denial, the
+ *         missing one), the time window that matched (see
+ *         formatTimeWindow()), or for status rules the `revoked_at`,
+ *         `valid_from` or `valid_until` timestamp. null when no entry
+ *         applies (e.g. nothing matched).
+ */
+export interface MajikAPIAuthorizationRule {
+  type:
+    | "status"
+    | "timeWindows"
+    | "ipWhitelist"
+    | "domainWhitelist"
+    | "allowedMethods"
+    | "scopes";
+  value: string | null;
+}
+
+/**
+ * The structured result of `authorize()`.
+ *
+ * allowed — True when every enabled check passed.
+ * reason  — Why the request was denied. null when allowed.
+ * rule    — The rule that denied the request. null when allowed.
+ * matched — The whitelist and method rules that admitted the request, in
+ *           evaluation order. Empty lists mean the check was not enabled.
+ */
+export interface MajikAPIAuthorizationDecision {
+  allowed: boolean;
+  reason: MajikAPIDenialReason | null;
+  rule: MajikAPIAuthorizationRule | null;
+  matched: MajikAPIAuthorizationRule[];
+}
+
+// ─────────────────────────────────────────────
+//  IP Matching
+// ─────────────────────────────────────────────
+
+/**
+ * A parsed IP address.
+ *
+ * version — 4 or 6, as written in the input.
+ * value   — The address as an unsigned integer (32 or 128 bits).
+ * zone    — IPv6 zone ID (the part after "%"), or null.
+ */
+export interface ParsedIP {
+  version: 4 | 6;
+  value: bigint;
+  zone: string | null;
+}
+
+/**
+ * A parsed CIDR range. A single address is a range with a full-length
+ * prefix (/32 or /128). `network` always has its host bits cleared.
+ */
+export interface IPRange {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+  zone: string | null;
+}
+
+/**
+ * A conflict between two whitelist entries.
+ *
+ * duplicate — Both entries describe exactly the same range once normalised
+ *             (e.g. "2001:db8::1" and "2001:DB8:0:0::1").
+ * overlap   — One range contains the other.
+ */
+export interface IPOverlap {
+  kind: "duplicate" | "overlap";
+  entries: [string, string];
+}
+
+// ─────────────────────────────────────────────
+//  Storage
+// ─────────────────────────────────────────────
+
+/**
+ * Persistence adapter for serialised keys.
+ *
+ * Implement this once per backend (Supabase, Postgres, Redis, …) and build
+ * on it with `MajikAPIRepository`. Every method works on `MajikAPIJSON` —
+ * the adapter never sees a raw key.
+ *
+ * findByHash  — Look up a key by its `api_key` hash (the UNIQUE column)
+ *               or by any hash in its `previous_keys` list.
+ * findById    — Look up a key by its stable `id`.
+ * listByOwner — All keys belonging to `owner_id`, in any order.
+ * save        — Insert or update (upsert) by `id`. Must reject a save whose
+ *               `api_key` or previous hashes already belong to another `id`.
+ *               Must reject with MajikAPIVersionConflictError when the stored
+ *               row's `version` differs from `data.version`, and store the
+ *               row with `version + 1`.
+ * patch       — Optional. Write only the changed fields of an existing row,
+ *               with the same version check and bump as save().
+ * delete      — Remove by `id`. Resolves true if a row was removed.
+ * list        — Optional. One page of all keys, in a stable order. Needed by
+ *               MajikAPIExpiryScanner.
+ */
+export interface MajikAPIStore {
+  findByHash(hash: string): Promise<MajikAPIJSON | null>;
+  findById(id: string): Promise<MajikAPIJSON | null>;
+  listByOwner(ownerId: string): Promise<MajikAPIJSON[]>;
+  save(data: MajikAPIJSON): Promise<void>;
+  patch?(patch: MajikAPIPatch): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list?(options?: MajikAPIStoreListOptions): Promise<MajikAPIStorePage>;
+}
+
+/**
+ * Options for `MajikAPIStore.list()`.
+ *
+ * cursor        — `cursor` from the previous page. Omit for the first page.
+ * limit         — Maximum rows per page. Adapters choose the default.
+ * expiresBefore — Hint that only keys with a `valid_until` before this time
+ *                 are wanted. Adapters may filter on it (index the column)
+ *                 or ignore it; callers filter again either way.
+ */
+export interface MajikAPIStoreListOptions {
+  cursor?: string | null;
+  limit?: number;
+  expiresBefore?: Date;
+}
+
+/** One page from `MajikAPIStore.list()`. `cursor` is null on the last page. */
+export interface MajikAPIStorePage {
+  rows: MajikAPIJSON[];
+  cursor: string | null;
+}
+
+/**
+ * Changed fields by dotted path into MajikAPIJSON, e.g.
+ * `{ "settings.ipWhitelist.addresses": ["10.0.0.0/8"] }`. Values are the
+ * new values. `settings.metadata` is always reported as a whole.
+ */
+export type MajikAPIChanges = Record<string, unknown>;
+
+/**
+ * A partial update for `MajikAPIStore.patch()`.
+ *
+ * version — The version the changes were made against. The store must
+ *           reject the patch if the row has moved on.
+ */
+export interface MajikAPIPatch {
+  id: string;
+  version: number;
+  changes: MajikAPIChanges;
+}
+
+export interface MajikAPIRepositoryOptions {
+  /** Hasher used for lookups and fromJSON(). Defaults to legacy SHA-256. */
+  hasher?: MajikAPIKeyHasher;
+  /** Scope catalogue passed to fromJSON() for every loaded key. */
+  scopeCatalogue?: readonly string[];
+  /** Policy registry passed to fromJSON() for every loaded key. */
+  policies?: MajikAPIPolicyRegistry;
+  /** Configuration passed to fromJSON() for every loaded key. */
+  config?: MajikAPIConfig;
+  /**
+   * Revocation list to consult in verify() and to record revoked keys,
+   * deleted keys and retired hashes in on save() and delete().
+   */
+  revocations?: MajikAPIRevocationList;
+  /** Remembers hashes verify() found nothing for, to skip repeat lookups. */
+  negativeCache?: MajikAPINegativeCache;
+}
+
+// ─────────────────────────────────────────────
+//  Rate Limiting
+// ─────────────────────────────────────────────
+
+/** A source of the current time. Inject a fixed clock for deterministic tests. */
+export type MajikAPIClock = () => Date;
+
+/**
+ * Counting strategy used by MajikAPIRateLimiter.
+ *
+ * fixed_window           — One counter per aligned window. Cheapest; allows
+ *                          up to 2× the limit across a window boundary.
+ * sliding_window_log     — Stores a timestamp per request. Exact, but memory
+ *                          grows with the limit.
+ * sliding_window_counter — Weights the previous window's count by overlap.
+ *                          Near-exact at the cost of two counters.
+ * token_bucket           — Bucket of `amount` tokens refilled continuously
+ *                          over one `frequency` window. Allows short bursts.
+ */
+export type RateLimitAlgorithm =
+  | "fixed_window"
+  | "sliding_window_log"
+  | "sliding_window_counter"
+  | "token_bucket";
+
+/**
+ * Storage for rate-limit state. Implement over Redis (INCRBY / SET PX) or
+ * any store with per-entry expiry; values are small JSON-safe structures.
+ *
+ * get       — Current value, or null if missing or expired.
+ * set       — Store a value that expires after `ttlMs`.
+ * increment — Add `by` to a numeric counter (created at 0) and return the
+ *             new value. The expiry is set only when the counter is created.
+ * delete    — Remove a value.
+ */
+export interface RateLimitCounterBackend {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  increment(key: string, by: number, ttlMs: number): Promise<number>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The request a rate-limit check is for. Rules scoped to a method or route
+ * only apply when the corresponding attribute is given and matches.
+ *
+ * method — HTTP method. Case-insensitive.
+ * path   — Request path. A query string is ignored.
+ */
+export interface RateLimitRequest {
+  method?: string | null;
+  path?: string | null;
+}
+
+export interface RateLimiterOptions {
+  algorithm?: RateLimitAlgorithm;
+  clock?: MajikAPIClock;
+  /** Prefix for backend keys. Defaults to "majik:rl". */
+  keyPrefix?: string;
+}
+
+/**
+ * The outcome of a rate-limit check.
+ *
+ * allowed      — True when the request fits within the limit.
+ * limit        — The configured `amount` per window.
+ * remaining    — Requests still available after this one (never negative).
+ * resetAt      — When the window resets (token bucket: when it is full).
+ * retryAfterMs — How long to wait before retrying. 0 when allowed.
+ * rule         — The rule the other fields describe. When several rules
+ *                apply, the most restrictive one: the denying rule with the
+ *                longest wait, or else the rule with the least remaining.
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfterMs: number;
+  rule: RateLimitRule;
+}
+
+// ─────────────────────────────────────────────
+//  Usage & Quota
+// ─────────────────────────────────────────────
+
+/**
+ * How periodic quota windows are aligned.
+ *
+ * calendar — Windows start on calendar boundaries in the configured time
+ *            zone: top of the hour, midnight, Monday (ISO week), the 1st of
+ *            the month, the 1st of Jan/Apr/Jul/Oct, Jan 1.
+ * creation — Windows start at the key's creation time and repeat every
+ *            `frequency` from there (e.g. the 17th of each month). Month
+ *            ends are clamped: a key created on Jan 31 resets on Feb 28/29.
+ */
+export type QuotaAnchor = "calendar" | "creation";
+
+/** A half-open time range [start, end). */
+export interface QuotaPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface QuotaPeriodOptions {
+  anchor?: QuotaAnchor;
+  /** IANA time zone used for calendar maths. Defaults to "UTC". */
+  timeZone?: string;
+  /** Required when anchor is "creation". */
+  createdAt?: Date;
+}
+
+/**
+ * Storage for usage counters.
+ *
+ * increment — Add `by` to the counter (created at 0) and return the new
+ *             total. `expiresAt` is applied when the counter is created;
+ *             null means the counter never expires (lifetime quotas).
+ * get       — Current total, or 0 if missing or expired.
+ * delete    — Remove a counter.
+ */
+export interface UsageCounterBackend {
+  increment(key: string, by: number, expiresAt: Date | null): Promise<number>;
+  get(key: string): Promise<number>;
+  delete(key: string): Promise<void>;
+}
+
+export interface UsageMeterOptions extends QuotaPeriodOptions {
+  clock?: MajikAPIClock;
+  /** Prefix for backend keys. Defaults to "majik:usage". */
+  keyPrefix?: string;
+}
+
+/**
+ * A snapshot of a key's quota consumption.
+ *
+ * limit       — The quota limit, or null when the key has no quota.
+ * used        — Units consumed in the current period (lifetime for fixed
+ *               quotas and keys without a quota).
+ * remaining   — limit − used, floored at 0. null when unlimited.
+ * periodStart — Start of the current period. null for fixed/no quota.
+ * resetsAt    — When `used` returns to 0. null for fixed/no quota.
+ * exceeded    — True when used >= limit.
+ * allowed     — Only set by `consume()`: whether the units were recorded.
+ */
+export interface UsageReport {
+  keyId: string;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  periodStart: Date | null;
+  resetsAt: Date | null;
+  exceeded: boolean;
+  allowed?: boolean;
+}
+
+// ─────────────────────────────────────────────
+//  Key Format
+// ─────────────────────────────────────────────
+
+/**
+ * Options for generated keys (`<prefix>_<environment>_<keyId>_<secret>_<crc>`).
+ *
+ * prefix      — Product marker for secret scanners. Defaults to "mjk".
+ * environment — e.g. "live" or "test". Defaults to "live".
+ * keyIdLength — Length of the public key id (4–32). Defaults to 8.
+ *
+ * prefix and environment must be 1–16 lowercase letters/digits starting
+ * with a letter.
+ */
+export interface KeyFormatOptions {
+  prefix?: string;
+  environment?: string;
+  keyIdLength?: number;
+}
+
+/** The components of a well-formed, checksum-verified raw key. */
+export interface ParsedAPIKey {
+  prefix: string;
+  environment: string;
+  keyId: string;
+  secret: string;
+  checksum: string;
+}
+
+/** A freshly generated raw key plus its public (displayable) parts. */
+export interface GeneratedAPIKey {
+  rawKey: string;
+  prefix: string;
+  environment: string;
+  keyId: string;
+}
+
+// ─────────────────────────────────────────────
+//  Key Hashing
+// ─────────────────────────────────────────────
+
+/**
+ * A stored `api_key` hash split into its parts.
+ *
+ * version  — 1 for legacy bare SHA-256 base64 hashes, 2 for the
+ *            self-describing `v2$<algorithm>$<pepperId>$<digest>` form.
+ * pepperId — The pepper the hash was keyed with. null for version 1.
+ * digest   — Base64 digest.
+ */
+export interface ParsedKeyHash {
+  version: 1 | 2;
+  algorithm: "sha256" | "hmac-sha256";
+  pepperId: string | null;
+  digest: string;
+}
+
+/**
+ * Result of checking a raw key against a stored hash.
+ *
+ * valid       — The raw key matches.
+ * needsRehash — The hash was produced by an older algorithm or a retired
+ *               pepper. Re-hash with `hash()` and save to migrate it.
+ */
+export interface KeyHashVerification {
+  valid: boolean;
+  needsRehash: boolean;
+}
+
+/**
+ * Produces and checks the `api_key` column.
+ *
+ * hash        — Hash a raw key in the current (preferred) format.
+ * verify      — Check a raw key against any stored hash this hasher
+ *               understands, including older formats. Digests must be
+ *               compared in constant time.
+ * verifyAsync — Same as verify, computed with WebCrypto (crypto.subtle).
+ * candidates  — Every hash the raw key could be stored under (one per
+ *               known pepper, plus legacy formats). Used for lookups.
+ * needsRehash — Whether a stored hash is in an outdated format.
+ */
+export interface MajikAPIKeyHasher {
+  hash(rawKey: string): string;
+  verify(rawKey: string, storedHash: string): KeyHashVerification;
+  verifyAsync(rawKey: string, storedHash: string): Promise<KeyHashVerification>;
+  candidates(rawKey: string): string[];
+  needsRehash(storedHash: string): boolean;
+}
+
+/**
+ * Configuration for PepperedKeyHasher.
+ *
+ * peppers         — Server-side secrets by pepper id. Keep retired peppers
+ *                   here until every hash made with them has been upgraded.
+ * currentPepperId — The pepper used for new hashes.
+ * acceptLegacy    — Accept unkeyed SHA-256 hashes (flagged needsRehash).
+ *                   Defaults to true.
+ */
+export interface PepperedKeyHasherOptions {
+  peppers: Record<string, string | Uint8Array>;
+  currentPepperId: string;
+  acceptLegacy?: boolean;
+}
+
+// ─────────────────────────────────────────────
+//  Schema Migrations
+// ─────────────────────────────────────────────
+
+/**
+ * Upgrades a serialised key from schema version `from` to `from + 1`.
+ * `migrate` receives a private copy and may modify it in place.
+ */
+export interface MajikAPIMigration {
+  from: number;
+  description: string;
+  migrate(data: Record<string, unknown>): Record<string, unknown>;
+}
+
+/** A migration that was applied, as reported by `MajikAPI.migrate()`. */
+export interface MajikAPIAppliedMigration {
+  from: number;
+  to: number;
+  description: string;
+}
+
+/**
+ * Result of `MajikAPI.migrate()`.
+ *
+ * data    — The payload in the current schema. Not yet validated.
+ * from    — Schema version of the input (0 for payloads that predate
+ *           `schema_version`).
+ * to      — Schema version of `data`.
+ * applied — Migrations run, in order. Empty when the input was current.
+ */
+export interface MajikAPIMigrationResult {
+  data: MajikAPIJSON;
+  from: number;
+  to: number;
+  applied: MajikAPIAppliedMigration[];
+}
+
+/** Options accepted when reconstructing a key with `fromJSON()`. */
+export interface MajikAPILoadOptions {
+  /** Hasher used by verify() and rotate(). Defaults to legacy SHA-256. */
+  hasher?: MajikAPIKeyHasher;
+  /** Known scopes. When set, stored scopes must only use these. */
+  scopeCatalogue?: readonly string[];
+  /** Recorded as the actor of this key's audit events. */
+  actor?: string | null;
+  /** Registry the key resolves its policy from. */
+  policies?: MajikAPIPolicyRegistry;
+  /** Deployment-wide limits and defaults. Usually set by createMajikAPI(). */
+  config?: MajikAPIConfig;
+}
+
+// ─────────────────────────────────────────────
+//  Key Verification
+// ─────────────────────────────────────────────
+
+/**
+ * Why tryVerify() rejected a key.
+ *
+ * malformed_input — Not a non-empty string.
+ * malformed_key   — Looks like a formatted key but the checksum or key id
+ *                   is wrong. Rejected without hashing.
+ * mismatch        — Well-formed, but the hash does not match.
+ */
+export type MajikAPIVerifyFailure =
+  "malformed_input" | "malformed_key" | "mismatch";
+
+/** Result of tryVerify(). Never thrown — safe on a hot request path. */
+export type MajikAPIVerifyResult =
+  | { ok: true; needsRehash: boolean; matched: "current" | "previous" }
+  | { ok: false; reason: MajikAPIVerifyFailure };
+
+// ─────────────────────────────────────────────
+//  Audit Events
+// ─────────────────────────────────────────────
+
+/** The MajikAPI method that produced an audit event. */
+export type MajikAPIAuditOperation =
+  | "create"
+  | "derive"
+  | "verifyAndUpgrade"
+  | "rotate"
+  | "finalizeRotation"
+  | "rename"
+  | "setExpiry"
+  | "restrict"
+  | "unrestrict"
+  | "revoke"
+  | "setValidFrom"
+  | "setTimeWindows"
+  | "clearTimeWindows"
+  | "setRateLimit"
+  | "setRateLimits"
+  | "resetRateLimit"
+  | "setFixedQuota"
+  | "setPeriodicQuota"
+  | "clearQuota"
+  | "enableIPWhitelist"
+  | "disableIPWhitelist"
+  | "addIP"
+  | "removeIP"
+  | "setIPWhitelist"
+  | "clearIPWhitelist"
+  | "enableDomainWhitelist"
+  | "disableDomainWhitelist"
+  | "addDomain"
+  | "removeDomain"
+  | "setDomainWhitelist"
+  | "clearDomainWhitelist"
+  | "setAllowedMethods"
+  | "clearAllowedMethods"
+  | "setScopes"
+  | "addScope"
+  | "removeScope"
+  | "clearScopes"
+  | "setPolicy"
+  | "clearOverride"
+  | "clearOverrides"
+  | "setMetadata"
+  | "deleteMetadata"
+  | "clearMetadata";
+
+/**
+ * One changed field. `path` is dotted into the serialised key
+ * ("settings.rateLimit.amount"). Values are JSON-safe; absent values are
+ * null. Key hashes are never included — `api_key` changes are reported
+ * with both sides as "[redacted]".
+ */
+export interface AuditChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * A serialisable record of one key mutation, suitable for an append-only
+ * audit table.
+ *
+ * id        — UUID of the event itself.
+ * entity_id — `id` of the key that changed.
+ * owner_id  — Owner of that key.
+ * operation — The method that made the change.
+ * actor     — Who made it, as set with `setActor()` or the `actor` option.
+ *             null when unknown.
+ * timestamp — ISO time of the change.
+ * changes   — Before/after values of every field that changed. Empty when
+ *             the call left the key as it was.
+ */
+export interface AuditEvent {
+  id: string;
+  entity_id: string;
+  owner_id: string;
+  operation: MajikAPIAuditOperation;
+  actor: string | null;
+  timestamp: string;
+  changes: AuditChange[];
+}
+
+/** Called synchronously after each mutation. */
+export type AuditListener = (event: AuditEvent) => void;
+
+/** Told when an AuditListener throws for `event`. */
+export type AuditErrorListener = (error: unknown, event: AuditEvent) => void;
+
+/** Destination for audit events, e.g. a table writer or log shipper. */
+export interface AuditSink {
+  write(event: AuditEvent): void | Promise<void>;
+}
+
+// ─────────────────────────────────────────────
+//  Response Headers
+// ─────────────────────────────────────────────
+
+/**
+ * The limiter/usage state to report in `buildRateLimitHeaders()`.
+ *
+ * rateLimit — Decision from `MajikAPIRateLimiter.consume()`.
+ * usage     — Report from `MajikAPIUsageMeter` (`consume()` sets `allowed`).
+ * now       — Reference time for relative resets. Pass the limiter's
+ *             `clock()` when it is not the system clock. Defaults to
+ *             `new Date()`.
+ */
+export interface RateLimitHeaderState {
+  rateLimit?: RateLimitDecision | null;
+  usage?: UsageReport | null;
+  now?: Date;
+}
+
+/**
+ * Which header families `buildRateLimitHeaders()` emits. All default to true.
+ *
+ * ietf   — RateLimit-Limit/-Remaining/-Reset/-Policy.
+ * legacy — X-RateLimit-Limit/-Remaining/-Reset.
+ * quota  — X-Quota-Limit/-Remaining/-Reset for periodic quotas.
+ */
+export interface RateLimitHeaderOptions {
+  ietf?: boolean;
+  legacy?: boolean;
+  quota?: boolean;
+}
+
+// ─────────────────────────────────────────────
+//  Middleware
+// ─────────────────────────────────────────────
+
+/**
+ * Where middleware looks for the raw key.
+ *
+ * bearer — `Authorization: Bearer <key>`.
+ * header — A custom header, `X-API-Key` by default (see `headerName`).
+ * query  — A query-string parameter, `api_key` by default (see `queryParam`).
+ *          Keys in URLs end up in access logs; prefer a header.
+ */
+export type MajikAPIKeySource = "bearer" | "header" | "query";
+
+/** Anything that turns a raw key into a MajikAPI — e.g. MajikAPIRepository. */
+export interface MajikAPIKeyResolver {
+  verify(rawKey: string): Promise<MajikAPI | null>;
+}
+
+/**
+ * The framework-neutral view of a request that middleware adapters build.
+ *
+ * header — Case-insensitive header lookup. Returns null when absent.
+ * url    — Path and query, or an absolute URL.
+ * ip     — Client IP, if the framework knows it.
+ */
+export interface MajikAPIRequestInfo {
+  header(name: string): string | null;
+  method: string;
+  url: string;
+  ip: string | null;
+}
+
+/**
+ * Options shared by every middleware adapter.
+ *
+ * resolver    — Looks up the presented key. A MajikAPIRepository works.
+ * sources     — Where to read the key from, tried in order. Defaults to
+ *               `["bearer", "header"]`.
+ * headerName  — Header for the "header" source. Defaults to "X-API-Key".
+ * queryParam  — Parameter for the "query" source. Defaults to "api_key".
+ * scopes      — Scopes every request must be granted.
+ * rateLimiter — When set, each authorized request consumes one unit.
+ * usageMeter  — When set, each request within the rate limit consumes one
+ *               unit of quota.
+ * headers     — Which rate-limit/quota header families to send.
+ * realm       — Realm reported in `WWW-Authenticate`. Defaults to "api".
+ * revocations — A synced MajikAPIRevocationList. Keys it revokes are
+ *               rejected with 401 "revoked", whichever resolver found them.
+ */
+export interface MajikAPIMiddlewareOptions {
+  resolver: MajikAPIKeyResolver;
+  sources?: MajikAPIKeySource[];
+  headerName?: string;
+  queryParam?: string;
+  scopes?: string[];
+  rateLimiter?: MajikAPIRateLimiter;
+  usageMeter?: MajikAPIUsageMeter;
+  headers?: RateLimitHeaderOptions;
+  realm?: string;
+  revocations?: MajikAPIRevocationList;
+}
+
+/** Machine-readable `error` in a middleware rejection body. */
+export type MajikAPIAuthErrorCode =
+  | "missing_api_key"
+  | "invalid_api_key"
+  | "rate_limited"
+  | "quota_exceeded"
+  | MajikAPIDenialReason;
+
+/**
+ * Outcome of `authenticateRequest()`. `headers` should be set on the
+ * response either way (rate-limit state, `WWW-Authenticate`, …).
+ */
+export type MajikAPIAuthResult =
+  | {
+      ok: true;
+      key: MajikAPI;
+      rateLimit: RateLimitDecision | null;
+      usage: UsageReport | null;
+      headers: Record<string, string>;
+    }
+  | {
+      ok: false;
+      status: 401 | 403 | 429;
+      error: MajikAPIAuthErrorCode;
+      message: string;
+      key: MajikAPI | null;
+      headers: Record<string, string>;
+    };
+
+// ─────────────────────────────────────────────
+//  Validation & Errors
+// ─────────────────────────────────────────────
+
+/**
+ * Why a field failed validation.
+ *
+ * required       — Missing, null or an empty string.
+ * invalid_type   — Present but of the wrong type.
+ * invalid_format — A string that does not parse: date, IP, domain or scope.
+ * invalid_value  — Not one of the allowed values (frequencies, methods…).
+ * out_of_range   — A number outside its bounds.
+ * unknown_scope  — A scope that is not in the scope catalogue.
+ * unknown_policy — A policy id that is not in the policy registry.
+ * conflict       — Clashes with another entry, e.g. an overlapping CIDR.
+ */
+export type MajikAPIValidationCode =
+  | "required"
+  | "invalid_type"
+  | "invalid_format"
+  | "invalid_value"
+  | "out_of_range"
+  | "unknown_scope"
+  | "unknown_policy"
+  | "conflict";
+
+/**
+ * One problem found by validation.
+ *
+ * path    — Dotted JSON path of the field, e.g. "settings.rateLimit.amount"
+ *           or "settings.ipWhitelist.addresses[2]". Empty for the root.
+ * code    — Machine-readable reason.
+ * message — Human-readable description, naming the field.
+ */
+export interface MajikAPIValidationIssue {
+  path: string;
+  code: MajikAPIValidationCode;
+  message: string;
+}
+
+/** Options for `validateMajikAPIJSON()` and `validateMajikAPISettings()`. */
+export interface MajikAPIValidateOptions {
+  /** Known scopes. When set, scopes outside it are reported. */
+  scopeCatalogue?: readonly string[];
+  /** Known policies. When set, unknown `policy_id`s are reported. */
+  policies?: MajikAPIPolicyRegistry;
+}
+
+/** The `code` of every error class exported by the library. */
+export type MajikAPIErrorCode =
+  | "validation_failed"
+  | "rate_limit_ceiling"
+  | "key_expired"
+  | "key_inactive"
+  | "insufficient_scope"
+  | "version_conflict";
+
+// ─────────────────────────────────────────────
+//  Policies
+// ─────────────────────────────────────────────
+
+/** The settings a policy can define. The rest are always per key. */
+export type MajikAPIPolicyField =
+  "rateLimit" | "rateLimits" | "quota" | "allowedMethods" | "scopes";
+
+/** A partial set of policy fields, as defined by a policy or overridden. */
+export type MajikAPIPolicySettings = Partial<
+  Pick<MajikAPISettings, MajikAPIPolicyField>
+>;
+
+/**
+ * A named plan such as "free" or "pro" that keys follow.
+ *
+ * id       — Stable identifier stored on keys as `policy_id`.
+ * name     — Display name.
+ * settings — Values for the fields the policy governs. Fields it leaves
+ *            out fall back to the key's own settings.
+ */
+export interface MajikAPIPolicy {
+  id: string;
+  name?: string;
+  settings: MajikAPIPolicySettings;
+}
+
+/**
+ * Where an effective setting came from.
+ *
+ * key      — The key's own settings (no policy, or a field the policy
+ *            does not define).
+ * policy   — The key's policy.
+ * override — A per-key override of the policy.
+ */
+export type MajikAPISettingSource = "key" | "policy" | "override";
+
+/** One line of `explainSettings()`. */
+export interface MajikAPISettingExplanation {
+  field: keyof MajikAPISettings;
+  value: unknown;
+  source: MajikAPISettingSource;
+  /** The policy consulted, or null for keys without one. */
+  policy_id: string | null;
+}
+
+// ─────────────────────────────────────────────
+//  Configuration
+// ─────────────────────────────────────────────
+
+/**
+ * Deployment-wide limits and defaults, shared by every key created or
+ * loaded through a MajikAPIFactory. Every field is optional and falls back
+ * to the library default.
+ *
+ * maxRateLimit       — Ceiling setRateLimit()/setRateLimits() enforce
+ *                      without `bypassSafeLimit`. Defaults to MAX_RATE_LIMIT.
+ * maxRateLimitByTier — Ceilings for particular owner tiers, e.g.
+ *                      `{ enterprise: { amount: 5000, frequency: "minutes" } }`.
+ * ownerTier          — Tier of an owner, or null for the default ceiling.
+ *                      Called synchronously whenever a rate limit is set, so
+ *                      read it from a cache or token claim, not a database.
+ * defaultSettings    — Settings new keys start from. `options.settings`
+ *                      given to create() wins field by field.
+ * keyFormat          — Format of generated keys.
+ * hasher             — Hasher for stored api_keys.
+ * clock              — Source of the current time for expiry, grace periods
+ *                      and audit events.
+ */
+export interface MajikAPIConfig {
+  maxRateLimit?: RateLimit;
+  maxRateLimitByTier?: Record<string, RateLimit>;
+  ownerTier?: (ownerId: string) => string | null | undefined;
+  defaultSettings?: Partial<MajikAPISettings>;
+  keyFormat?: KeyFormatOptions;
+  hasher?: MajikAPIKeyHasher;
+  clock?: MajikAPIClock;
+}
+
+// ─────────────────────────────────────────────
+//  Revocation List
+// ─────────────────────────────────────────────
+
+/**
+ * revoked — The whole key was revoked or deleted. Matches its id and every
+ *           hash it answered to.
+ * retired — Hashes the key no longer answers to after a rotation. Matches
+ *           those hashes only.
+ */
+export type MajikAPIRevocationEntryType = "revoked" | "retired";
+
+/**
+ * One entry in a MajikAPIRevocationList, in the form gateways receive it.
+ *
+ * seq        — Sequence number the entry was added under.
+ * id         — Stable id of the key.
+ * hashes     — Hashes that must no longer verify.
+ * reason     — Why the key was revoked. null for retired hashes.
+ * revoked_at — When the entry takes effect. In the future for hashes that
+ *              are still in a rotation grace period.
+ * expires_at — When the entry is dropped from the list.
+ */
+export interface MajikAPIRevocationEntry {
+  seq: number;
+  type: MajikAPIRevocationEntryType;
+  id: string;
+  hashes: string[];
+  reason: MajikAPIRevocationReason | null;
+  revoked_at: string;
+  expires_at: string;
+}
+
+/**
+ * The changes to a revocation list since a sequence number, from
+ * `changesSince()`.
+ *
+ * from    — The sequence number that was asked for.
+ * to      — The list's current sequence number. Ask for it next time.
+ * reset   — True when the list can no longer say what changed since `from`
+ *           (entries were pruned, or the list was rebuilt). `entries` is then
+ *           the whole list and replaces the receiver's.
+ * entries — Entries added after `from`, oldest first.
+ */
+export interface MajikAPIRevocationDelta {
+  from: number;
+  to: number;
+  reset: boolean;
+  entries: MajikAPIRevocationEntry[];
+}
+
+export interface MajikAPIRevocationListOptions {
+  /**
+   * How long entries are kept, in milliseconds. Must be at least the longest
+   * time any gateway caches a key record — after that, no cached copy of a
+   * revoked key can remain. Defaults to 24 hours.
+   */
+  ttlMs?: number;
+  clock?: MajikAPIClock;
+}
+
+export interface MajikAPINegativeCacheOptions {
+  /** How long a miss is remembered, in milliseconds. Defaults to 30 seconds. */
+  ttlMs?: number;
+  /** The oldest misses are evicted beyond this many. Defaults to 10,000. */
+  maxEntries?: number;
+  clock?: MajikAPIClock;
+}
+
+// ─────────────────────────────────────────────
+//  Key Cache
+// ─────────────────────────────────────────────
+
+/**
+ * A key record held by CachedKeyResolver.
+ *
+ * row         — The key as `toJSON()` wrote it.
+ * fresh_until — Until when the record is served without a lookup.
+ * stale_until — Until when the record is still served while a lookup
+ *               refreshes it in the background.
+ */
+export interface MajikAPICachedKey {
+  row: MajikAPIJSON;
+  fresh_until: string;
+  stale_until: string;
+}
+
+/**
+ * A cache shared between processes, e.g. Redis, used as the second tier of
+ * CachedKeyResolver. Keys are namespaced hashes of the presented key, never
+ * the raw key.
+ *
+ * get    — The entry, or null if missing or expired.
+ * set    — Store an entry, expiring after `ttlMs`.
+ * delete — Remove an entry.
+ */
+export interface MajikAPIKeyCache {
+  get(key: string): Promise<MajikAPICachedKey | null>;
+  set(key: string, entry: MajikAPICachedKey, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * ttlMs                  — How long a record is served without a lookup.
+ *                          Never beyond the key's expiry or the end of a
+ *                          rotation grace period. Defaults to 60 seconds.
+ * staleWhileRevalidateMs — How long past `ttlMs` a record is still served
+ *                          while it is refreshed in the background.
+ *                          Defaults to 0.
+ * maxEntries             — Size of the in-process LRU. Defaults to 1,000.
+ * shared                 — Optional second-tier cache shared between
+ *                          processes.
+ * keyPrefix              — Prefix for shared cache keys. Defaults to
+ *                          "majik:key".
+ * hasher                 — Hashes presented keys into cache keys. Defaults
+ *                          to the source repository's hasher.
+ * load                   — Turns a cached row into a MajikAPI. Defaults to
+ *                          the source repository's load().
+ * revocations            — Cached records this list revokes are dropped
+ *                          and looked up again.
+ */
+export interface CachedKeyResolverOptions {
+  ttlMs?: number;
+  staleWhileRevalidateMs?: number;
+  maxEntries?: number;
+  shared?: MajikAPIKeyCache;
+  keyPrefix?: string;
+  hasher?: MajikAPIKeyHasher;
+  load?: (row: MajikAPIJSON) => MajikAPI;
+  revocations?: MajikAPIRevocationList;
+  clock?: MajikAPIClock;
+}
+
+// ─────────────────────────────────────────────
+//  Expiry Scanning
+// ─────────────────────────────────────────────
+
+/**
+ * What MajikAPIExpiryScanner does for a key that is about to expire.
+ *
+ * extend — Push valid_until back by `days`. With `ifUsedWithinDays`, only
+ *          when the scanner's `lastUsedAt` reports a use within that many
+ *          days; idle keys are left to expire.
+ * rotate — Rotate the key, keeping the old one valid for `gracePeriodMs`,
+ *          and push valid_until back by `days`. The new raw key is in the
+ *          action report — deliver it to the owner.
+ *
+ * renewWithinDays — Act once the key expires within this many days.
+ *                   Defaults to the scanner's smallest threshold; values
+ *                   above its largest threshold act at that threshold.
+ */
+export type MajikAPIRenewalPolicy =
+  | {
+      action: "extend";
+      days: number;
+      ifUsedWithinDays?: number;
+      renewWithinDays?: number;
+    }
+  | {
+      action: "rotate";
+      days: number;
+      gracePeriodMs: number;
+      renewWithinDays?: number;
+    };
+
+/**
+ * thresholdsDays — Days before expiry at which to report "expiring"
+ *                  events. Defaults to [30, 7, 1].
+ * renewalPolicy  — The renewal policy for a key, or null to leave it alone.
+ *                  Called for every active key that expires within its
+ *                  renewal window.
+ * lastUsedAt     — When a key was last used, or null if never. Required by
+ *                  extend policies with `ifUsedWithinDays`.
+ * actor          — Recorded on audit events for renewals. Defaults to
+ *                  "system:expiry-scanner".
+ * pageSize       — Rows requested per `store.list()` call. Defaults to 500.
+ * clock          — Source of the current time. Defaults to the system clock.
+ */
+export interface MajikAPIExpiryScannerOptions {
+  thresholdsDays?: number[];
+  renewalPolicy?: (key: MajikAPI) => MajikAPIRenewalPolicy | null;
+  lastUsedAt?: (key: MajikAPI) => Date | null | Promise<Date | null>;
+  actor?: string;
+  pageSize?: number;
+  clock?: MajikAPIClock;
+}
+
+/**
+ * since   — Time of the previous scan (its report's `scannedAt`). Keys
+ *           that expired since then are reported as "expired".
+ * notices — The previous report's `notices`. A key is then reported at
+ *           each threshold once per expiry date. Without them, every key
+ *           inside a threshold is reported on every scan.
+ * dryRun  — Decide and report renewals without saving them. The report's
+ *           notices assume they were saved; don't pass them on.
+ */
+export interface MajikAPIExpiryScanOptions {
+  since?: Date | null;
+  notices?: MajikAPIExpiryNotice[];
+  dryRun?: boolean;
+}
+
+/**
+ * The threshold a key was last reported at, carried from one scan to the
+ * next. JSON-safe, so it can be stored between runs.
+ *
+ * validUntil — The expiry the key was reported for, as an ISO string. A
+ *              key whose expiry has changed since is reported again.
+ */
+export interface MajikAPIExpiryNotice {
+  keyId: string;
+  validUntil: string;
+  thresholdDays: number;
+}
+
+/**
+ * A key that is about to expire or just expired.
+ *
+ * thresholdDays — The threshold the key is inside, e.g. 7 when it expires
+ *                 in 7 days or fewer. null for "expired" events.
+ */
+export interface MajikAPIExpiryEvent {
+  type: "expiring" | "expired";
+  keyId: string;
+  ownerId: string;
+  name: string;
+  validUntil: Date;
+  msUntilExpiry: number;
+  thresholdDays: number | null;
+}
+
+/**
+ * Something the scanner did, or decided not to do, about a key. Holds no
+ * secrets, so it is safe to log.
+ *
+ * extended — valid_until was pushed back.
+ * rotated  — The key was rotated and its expiry pushed back. The new
+ *            plaintext is in the report's `rotatedKeys`.
+ * skipped  — A policy applied but its condition was not met (`reason`).
+ * failed   — Loading the row or saving the renewal failed (`reason` holds
+ *            the error message).
+ *
+ * saved is false for dry runs and failures.
+ */
+export interface MajikAPIRenewalAction {
+  type: "extended" | "rotated" | "skipped" | "failed";
+  keyId: string;
+  ownerId: string;
+  previousValidUntil: Date;
+  validUntil: Date;
+  reason?: string;
+  saved: boolean;
+}
+
+/**
+ * The new plaintext of a key the scanner rotated. It is not available
+ * anywhere else: hand it to the owner, and never log or persist it.
+ */
+export interface MajikAPIRotatedKey {
+  keyId: string;
+  ownerId: string;
+  rawApiKey: string;
+}
+
+/**
+ * The outcome of one `MajikAPIExpiryScanner.scan()`.
+ *
+ * notices     — Every key inside a threshold after this scan. Pass them
+ *               to the next scan.
+ * rotatedKeys — The new plaintext of every key rotated and saved by this
+ *               scan. Kept out of `actions`, which are safe to log.
+ */
+export interface MajikAPIExpiryReport {
+  scannedAt: Date;
+  since: Date | null;
+  scanned: number;
+  events: MajikAPIExpiryEvent[];
+  actions: MajikAPIRenewalAction[];
+  notices: MajikAPIExpiryNotice[];
+  rotatedKeys: MajikAPIRotatedKey[];
 }
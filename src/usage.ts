@@ -0,0 +1,363 @@
+import type { MajikAPI } from "./majik-api";
+import {
+  addMonths,
+  fromWallTime,
+  isValidTimeZone,
+  toWallTime,
+  weekdayIn,
+  type WallTime,
+} from "./time";
+import type {
+  MajikAPIClock,
+  QuotaAnchor,
+  QuotaFrequency,
+  QuotaPeriod,
+  QuotaPeriodOptions,
+  UsageCounterBackend,
+  UsageMeterOptions,
+  UsageReport,
+} from "./types";
+import { assertPositiveInteger, systemClock } from "./utils";
+
+const HOUR_MS = 3_600_000;
+
+/** Length of one `frequency` step, in calendar months (0 = not month-based). */
+const MONTH_STEPS: Record<QuotaFrequency, number> = {
+  hours: 0,
+  days: 0,
+  weeks: 0,
+  months: 1,
+  quarters: 3,
+  years: 12,
+};
+
+/** Length of one `frequency` step, in wall-clock days (hours handled apart). */
+const DAY_STEPS: Record<QuotaFrequency, number> = {
+  hours: 0,
+  days: 1,
+  weeks: 7,
+  months: 0,
+  quarters: 0,
+  years: 0,
+};
+
+// ─────────────────────────────────────────────
+//  Period Boundaries
+// ─────────────────────────────────────────────
+
+function midnight(wall: WallTime): WallTime {
+  return { ...wall, hour: 0, minute: 0, second: 0, millisecond: 0 };
+}
+
+function addStep(
+  wall: WallTime,
+  frequency: QuotaFrequency,
+  steps: number,
+): WallTime {
+  if (MONTH_STEPS[frequency] > 0) {
+    return addMonths(wall, MONTH_STEPS[frequency] * steps);
+  }
+  return { ...wall, day: wall.day + DAY_STEPS[frequency] * steps };
+}
+
+function calendarPeriod(
+  frequency: QuotaFrequency,
+  now: Date,
+  timeZone: string,
+): QuotaPeriod {
+  const wall = toWallTime(now, timeZone);
+
+  if (frequency === "hours") {
+    const start = fromWallTime(
+      { ...wall, minute: 0, second: 0, millisecond: 0 },
+      timeZone,
+    );
+    return { start, end: new Date(start.getTime() + HOUR_MS) };
+  }
+
+  let start: WallTime = midnight(wall);
+  switch (frequency) {
+    case "weeks": {
+      // ISO weeks start on Monday.
+      const weekday = weekdayIn(now, timeZone);
+      start = { ...start, day: start.day - ((weekday + 6) % 7) };
+      break;
+    }
+    case "months":
+      start = { ...start, day: 1 };
+      break;
+    case "quarters":
+      start = {
+        ...start,
+        day: 1,
+        month: start.month - ((start.month - 1) % 3),
+      };
+      break;
+    case "years":
+      start = { ...start, day: 1, month: 1 };
+      break;
+  }
+
+  return {
+    start: fromWallTime(start, timeZone),
+    end: fromWallTime(addStep(start, frequency, 1), timeZone),
+  };
+}
+
+function creationPeriod(
+  frequency: QuotaFrequency,
+  now: Date,
+  createdAt: Date,
+  timeZone: string,
+): QuotaPeriod {
+  if (frequency === "hours") {
+    const elapsed = now.getTime() - createdAt.getTime();
+    const n = Math.floor(elapsed / HOUR_MS);
+    const start = createdAt.getTime() + n * HOUR_MS;
+    return { start: new Date(start), end: new Date(start + HOUR_MS) };
+  }
+
+  const anchor = toWallTime(createdAt, timeZone);
+  const at = (n: number) =>
+    fromWallTime(addStep(anchor, frequency, n), timeZone);
+
+  // Estimate the period index, then correct for DST and month-length drift.
+  const nowWall = toWallTime(now, timeZone);
+  let n: number;
+  if (MONTH_STEPS[frequency] > 0) {
+    const months =
+      (nowWall.year - anchor.year) * 12 + (nowWall.month - anchor.month);
+    n = Math.floor(months / MONTH_STEPS[frequency]);
+  } else {
+    const days = (now.getTime() - createdAt.getTime()) / (24 * HOUR_MS);
+    n = Math.floor(days / DAY_STEPS[frequency]);
+  }
+
+  while (at(n) > now) n--;
+  while (at(n + 1) <= now) n++;
+  return { start: at(n), end: at(n + 1) };
+}
+
+/**
+ * Compute the quota period containing `now` for a `frequency`.
+ *
+ * @example
+ * getQuotaPeriod("months", new Date(), { timeZone: "Asia/Manila" });
+ * // → { start: 1st of this month 00:00 Manila time, end: 1st of next month }
+ */
+export function getQuotaPeriod(
+  frequency: QuotaFrequency,
+  now: Date,
+  options: QuotaPeriodOptions = {},
+): QuotaPeriod {
+  const anchor: QuotaAnchor = options.anchor ?? "calendar";
+  const timeZone = options.timeZone ?? "UTC";
+  if (!isValidTimeZone(timeZone)) {
+    throw new TypeError(
+      `[MajikAPI] getQuotaPeriod(): Unknown time zone: ${JSON.stringify(timeZone)}`,
+    );
+  }
+
+  if (anchor === "creation") {
+    if (!(options.createdAt instanceof Date)) {
+      throw new TypeError(
+        "[MajikAPI] getQuotaPeriod(): 'createdAt' is required when anchor is \"creation\".",
+      );
+    }
+    if (now < options.createdAt) {
+      return { start: options.createdAt, end: options.createdAt };
+    }
+    return creationPeriod(frequency, now, options.createdAt, timeZone);
+  }
+  return calendarPeriod(frequency, now, timeZone);
+}
+
+// ─────────────────────────────────────────────
+//  In-Memory Usage Backend
+// ─────────────────────────────────────────────
+
+/**
+ * Reference UsageCounterBackend backed by a Map. Suitable for tests and
+ * single-process deployments. Expiry is evaluated lazily against `clock`.
+ */
+export class InMemoryUsageBackend implements UsageCounterBackend {
+  private readonly _counters = new Map<
+    string,
+    { value: number; expiresAt: number | null }
+  >();
+  private readonly _clock: MajikAPIClock;
+
+  constructor(clock: MajikAPIClock = systemClock) {
+    this._clock = clock;
+  }
+
+  async increment(
+    key: string,
+    by: number,
+    expiresAt: Date | null,
+  ): Promise<number> {
+    const entry = this.live(key);
+    if (!entry) {
+      this._counters.set(key, {
+        value: by,
+        expiresAt: expiresAt ? expiresAt.getTime() : null,
+      });
+      return by;
+    }
+    entry.value += by;
+    return entry.value;
+  }
+
+  async get(key: string): Promise<number> {
+    return this.live(key)?.value ?? 0;
+  }
+
+  async delete(key: string): Promise<void> {
+    this._counters.delete(key);
+  }
+
+  private live(
+    key: string,
+  ): { value: number; expiresAt: number | null } | null {
+    const entry = this._counters.get(key);
+    if (!entry) return null;
+    if (
+      entry.expiresAt !== null &&
+      entry.expiresAt <= this._clock().getTime()
+    ) {
+      this._counters.delete(key);
+      return null;
+    }
+    return entry;
+  }
+}
+
+// ─────────────────────────────────────────────
+//  Usage Meter
+// ─────────────────────────────────────────────
+
+/**
+ * Records quota consumption per key id and reports it against the key's
+ * `settings.quota`.
+ *
+ * Periodic quotas are counted per period (see `getQuotaPeriod()`); fixed
+ * quotas and keys without a quota use a single lifetime counter. Counters
+ * are keyed by the stable `id`, so usage survives key rotation.
+ *
+ * @example
+ * const meter = new MajikAPIUsageMeter(new InMemoryUsageBackend(), {
+ *   anchor: "calendar",
+ *   timeZone: "Europe/Berlin",
+ * });
+ *
+ * const usage = await meter.consume(key, 5); // an expensive call costs 5
+ * if (!usage.allowed) return res.status(429).end();
+ */
+export class MajikAPIUsageMeter {
+  private readonly _backend: UsageCounterBackend;
+  private readonly _options: QuotaPeriodOptions;
+  private readonly _clock: MajikAPIClock;
+  private readonly _prefix: string;
+
+  constructor(backend: UsageCounterBackend, options: UsageMeterOptions = {}) {
+    const timeZone = options.timeZone ?? "UTC";
+    if (!isValidTimeZone(timeZone)) {
+      throw new TypeError(
+        `[MajikAPI] MajikAPIUsageMeter: Unknown time zone: ${JSON.stringify(timeZone)}`,
+      );
+    }
+    this._backend = backend;
+    this._options = { anchor: options.anchor ?? "calendar", timeZone };
+    this._clock = options.clock ?? systemClock;
+    this._prefix = options.keyPrefix ?? "majik:usage";
+  }
+
+  /** The clock periods are computed against. */
+  get clock(): MajikAPIClock {
+    return this._clock;
+  }
+
+  /** Current usage without recording anything. */
+  async getUsage(key: MajikAPI): Promise<UsageReport> {
+    const slot = this.slot(key);
+    const used = await this._backend.get(slot.counter);
+    return this.report(key, slot, used);
+  }
+
+  /**
+   * Record `cost` units unconditionally — even past the quota. Use this for
+   * post-hoc accounting when the request has already been served.
+   */
+  async record(key: MajikAPI, cost = 1): Promise<UsageReport> {
+    assertPositiveInteger(cost, "cost");
+    const slot = this.slot(key);
+    const used = await this._backend.increment(
+      slot.counter,
+      cost,
+      slot.period?.end ?? null,
+    );
+    return this.report(key, slot, used);
+  }
+
+  /**
+   * Record `cost` units only if they fit within the quota. The returned
+   * report has `allowed` set; when false, nothing was recorded.
+   */
+  async consume(key: MajikAPI, cost = 1): Promise<UsageReport> {
+    assertPositiveInteger(cost, "cost");
+    const slot = this.slot(key);
+    const limit = key.quotaLimit;
+
+    const used = await this._backend.increment(
+      slot.counter,
+      cost,
+      slot.period?.end ?? null,
+    );
+    if (limit !== null && used > limit) {
+      const rolledBack = await this._backend.increment(
+        slot.counter,
+        -cost,
+        slot.period?.end ?? null,
+      );
+      return { ...this.report(key, slot, rolledBack), allowed: false };
+    }
+    return { ...this.report(key, slot, used), allowed: true };
+  }
+
+  /** Clear the counter for the key's current period. */
+  async reset(key: MajikAPI): Promise<void> {
+    await this._backend.delete(this.slot(key).counter);
+  }
+
+  private slot(key: MajikAPI): { counter: string; period: QuotaPeriod | null } {
+    const quota = key.quota;
+    if (quota?.type !== "periodic") {
+      return { counter: `${this._prefix}:${key.id}:lifetime`, period: null };
+    }
+    const period = getQuotaPeriod(quota.frequency, this._clock(), {
+      ...this._options,
+      createdAt: key.createdAt,
+    });
+    return {
+      counter: `${this._prefix}:${key.id}:${quota.frequency}:${period.start.getTime()}`,
+      period,
+    };
+  }
+
+  private report(
+    key: MajikAPI,
+    slot: { period: QuotaPeriod | null },
+    used: number,
+  ): UsageReport {
+    const limit = key.quotaLimit;
+    return {
+      keyId: key.id,
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      periodStart: slot.period?.start ?? null,
+      resetsAt: slot.period?.end ?? null,
+      exceeded: limit !== null && used >= limit,
+    };
+  }
+}
@@ -1,13 +1,48 @@
-import { hash } from "@stablelib/sha256";
+import { BLOCK_SIZE, hash, SHA256 } from "@stablelib/sha256";
 import { v4 as uuidv4 } from "uuid";
-import { MajikAPISettings, RateLimitFrequency } from "./types";
-import { DEFAULT_RATE_LIMIT } from "./constants";
+import {
+  AuditChange,
+  MajikAPIClock,
+  MajikAPISettings,
+  MajikAPIValidationCode,
+  MajikAPIValidationIssue,
+  RateLimit,
+  RateLimitFrequency,
+} from "./types";
+import {
+  DEFAULT_RATE_LIMIT,
+  RATE_LIMIT_FREQUENCIES,
+  TO_MINUTES,
+} from "./constants";
+import { MajikAPIValidationError } from "./errors";
+import {
+  isPublicSuffix,
+  isPublicSuffixWildcard,
+  normalizeDomainEntry,
+} from "./domain";
+import { parseIP, parseIPRange } from "./ip";
 
 export function sha256(input: string): string {
   const hashed = hash(new TextEncoder().encode(input));
   return arrayToBase64(hashed);
 }
 
+/** HMAC-SHA-256 (RFC 2104) of `message` under `key`. Returns the raw digest. */
+export function hmacSHA256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const block = new Uint8Array(BLOCK_SIZE);
+  block.set(key.length > BLOCK_SIZE ? hash(key) : key);
+
+  const inner = new Uint8Array(BLOCK_SIZE);
+  const outer = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+
+  const innerDigest = new SHA256().update(inner).update(message).digest();
+  return new SHA256().update(outer).update(innerDigest).digest();
+}
+
 export function arrayToBase64(data: Uint8Array): string {
   let binary = "";
   const bytes = data;
@@ -20,6 +55,36 @@ export function arrayToBase64(data: Uint8Array): string {
   return btoa(binary);
 }
 
+/** Decode base64 to bytes. Returns null for invalid input instead of throwing. */
+export function base64ToArray(data: string): Uint8Array | null {
+  try {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare two byte arrays in constant time with respect to their contents.
+ * Always walks the full length of `b`, so timing only reveals whether the
+ * lengths differ — never where the first differing byte is.
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    diff |= (a[i % Math.max(a.length, 1)] ?? 0) ^ b[i];
+  }
+  return diff === 0;
+}
+
+/** The default clock — the system time. */
+export const systemClock: MajikAPIClock = () => new Date();
+
 /**
  * Generate a Random v4 UUID
  */
@@ -36,102 +101,233 @@ export function generateID(): string {
 // ─────────────────────────────────────────────
 //  Validation Helpers
 // ─────────────────────────────────────────────
+//
+//  check*() return the issue for a bad value (null when it is fine) so
+//  validation.ts can collect every problem. assert*() throw a
+//  MajikAPIValidationError for the same issue.
+// ─────────────────────────────────────────────
+
+function issue(
+  path: string,
+  code: MajikAPIValidationCode,
+  message: string,
+): MajikAPIValidationIssue {
+  return { path, code, message };
+}
+
+/** "required" for missing values, otherwise `code`. */
+function missingOr(
+  value: unknown,
+  code: MajikAPIValidationCode,
+): MajikAPIValidationCode {
+  return value === undefined || value === null ? "required" : code;
+}
+
+function throwIssue(found: MajikAPIValidationIssue | null): void {
+  if (found) throw new MajikAPIValidationError([found]);
+}
+
+export function checkString(
+  value: unknown,
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (typeof value === "string" && value.trim() !== "") return null;
+  return issue(
+    label,
+    typeof value === "string" ? "required" : missingOr(value, "invalid_type"),
+    `"${label}" must be a non-empty string. Received: ${JSON.stringify(value)}`,
+  );
+}
+
+export function checkPositiveInteger(
+  value: unknown,
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 1) {
+    return null;
+  }
+  return issue(
+    label,
+    typeof value === "number"
+      ? "out_of_range"
+      : missingOr(value, "invalid_type"),
+    `"${label}" must be a positive integer. Received: ${JSON.stringify(value)}`,
+  );
+}
+
+export function checkNonNegativeInteger(
+  value: unknown,
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+    return null;
+  }
+  return issue(
+    label,
+    typeof value === "number"
+      ? "out_of_range"
+      : missingOr(value, "invalid_type"),
+    `"${label}" must be a non-negative integer. Received: ${JSON.stringify(value)}`,
+  );
+}
+
+export function checkOneOf<T extends string>(
+  value: unknown,
+  valid: readonly T[],
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (valid.includes(value as T)) return null;
+  return issue(
+    label,
+    missingOr(value, "invalid_value"),
+    `"${label}" must be one of: ${valid.join(", ")}. Received: ${JSON.stringify(value)}`,
+  );
+}
+
+export function checkBoolean(
+  value: unknown,
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (typeof value === "boolean") return null;
+  return issue(
+    label,
+    missingOr(value, "invalid_type"),
+    `"${label}" must be a boolean. Received: ${JSON.stringify(value)}`,
+  );
+}
+
+export function checkStringArray(
+  value: unknown,
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+    return null;
+  }
+  return issue(
+    label,
+    missingOr(value, "invalid_type"),
+    `"${label}" must be an array of strings. Received: ${JSON.stringify(value)}`,
+  );
+}
+
+/** A non-empty ISO date string. */
+export function checkISODate(
+  value: unknown,
+  label: string,
+): MajikAPIValidationIssue | null {
+  const notString = checkString(value, label);
+  if (notString) return notString;
+  if (isValidISODate(value as string)) return null;
+  return issue(
+    label,
+    "invalid_format",
+    `"${label}" is not a valid ISO date: ${JSON.stringify(value)}`,
+  );
+}
+
+export function checkIP(
+  ip: string,
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (parseIPRange(ip) !== null) return null;
+  return issue(
+    label,
+    "invalid_format",
+    `"${label}" is not a valid IP address or CIDR: "${ip}"`,
+  );
+}
+
+export function checkDomain(
+  domain: string,
+  label: string,
+): MajikAPIValidationIssue | null {
+  if (isValidDomain(domain)) return null;
+  const suffix =
+    domain.trim().startsWith("*.") && isPublicSuffix(domain.trim().slice(2))
+      ? " (wildcard over a public suffix)"
+      : "";
+  return issue(
+    label,
+    "invalid_format",
+    `"${label}" is not a valid domain: "${domain}"${suffix}`,
+  );
+}
+
+/**
+ * checkDomain() for entries read back from storage: also accepts wildcards
+ * over a public suffix, which older versions allowed. They never match.
+ */
+export function checkStoredDomain(
+  domain: string,
+  label: string,
+): MajikAPIValidationIssue | null {
+  return isPublicSuffixWildcard(domain) ? null : checkDomain(domain, label);
+}
 
 export function assertString(
   value: unknown,
   label: string,
 ): asserts value is string {
-  if (typeof value !== "string" || value.trim() === "") {
-    throw new TypeError(
-      `[MajikAPI] "${label}" must be a non-empty string. Received: ${JSON.stringify(value)}`,
-    );
-  }
+  throwIssue(checkString(value, label));
 }
 
 export function assertPositiveInteger(
   value: unknown,
   label: string,
 ): asserts value is number {
-  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
-    throw new RangeError(
-      `[MajikAPI] "${label}" must be a positive integer. Received: ${JSON.stringify(value)}`,
-    );
-  }
+  throwIssue(checkPositiveInteger(value, label));
+}
+
+export function assertNonNegativeInteger(
+  value: unknown,
+  label: string,
+): asserts value is number {
+  throwIssue(checkNonNegativeInteger(value, label));
 }
 
 export function assertRateLimitFrequency(
   value: unknown,
   label: string,
 ): asserts value is RateLimitFrequency {
-  const valid: RateLimitFrequency[] = ["seconds", "minutes", "hours"];
-  if (!valid.includes(value as RateLimitFrequency)) {
-    throw new TypeError(
-      `[MajikAPI] "${label}" must be one of: ${valid.join(", ")}. Received: ${JSON.stringify(value)}`,
-    );
-  }
+  throwIssue(checkOneOf(value, RATE_LIMIT_FREQUENCIES, label));
 }
 
 export function assertBoolean(
   value: unknown,
   label: string,
 ): asserts value is boolean {
-  if (typeof value !== "boolean") {
-    throw new TypeError(
-      `[MajikAPI] "${label}" must be a boolean. Received: ${JSON.stringify(value)}`,
-    );
-  }
+  throwIssue(checkBoolean(value, label));
 }
 
 export function assertStringArray(
   value: unknown,
   label: string,
 ): asserts value is string[] {
-  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
-    throw new TypeError(
-      `[MajikAPI] "${label}" must be an array of strings. Received: ${JSON.stringify(value)}`,
-    );
-  }
+  throwIssue(checkStringArray(value, label));
 }
 
 export function isValidIPv4(ip: string): boolean {
-  return (
-    /^(\d{1,3}\.){3}\d{1,3}$/.test(ip) &&
-    ip.split(".").every((o) => parseInt(o) <= 255)
-  );
+  return parseIP(ip)?.version === 4;
 }
 
 export function isValidIPv6(ip: string): boolean {
-  return /^[0-9a-fA-F:]+$/.test(ip) && ip.includes(":");
+  return parseIP(ip)?.version === 6;
 }
 
 export function isValidCIDR(cidr: string): boolean {
-  const [ip, prefix] = cidr.split("/");
-  if (!prefix) return false;
-  const p = parseInt(prefix);
-  return (
-    (isValidIPv4(ip) && p >= 0 && p <= 32) ||
-    (isValidIPv6(ip) && p >= 0 && p <= 128)
-  );
+  return cidr.includes("/") && parseIPRange(cidr) !== null;
 }
 
-export function validateIP(ip: string): void {
-  if (!isValidIPv4(ip) && !isValidIPv6(ip) && !isValidCIDR(ip)) {
-    throw new Error(`[MajikAPI] Invalid IP address or CIDR: "${ip}"`);
-  }
+export function validateIP(ip: string, label = "ip"): void {
+  throwIssue(checkIP(ip, label));
 }
 
 export function isValidDomain(domain: string): boolean {
-  return (
-    /^(\*\.)?[a-zA-Z0-9]([a-zA-Z0-9\-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z]{2,})+$/.test(
-      domain,
-    ) || /^\*$/.test(domain)
-  );
+  return normalizeDomainEntry(domain) !== null;
 }
 
-export function validateDomain(domain: string): void {
-  if (!isValidDomain(domain)) {
-    throw new Error(`[MajikAPI] Invalid domain: "${domain}"`);
-  }
+export function validateDomain(domain: string, label = "domain"): void {
+  throwIssue(checkDomain(domain, label));
 }
 
 export function isValidISODate(value: string): boolean {
@@ -139,6 +335,11 @@ export function isValidISODate(value: string): boolean {
   return !isNaN(d.getTime());
 }
 
+/** A rate normalised to requests per minute: 10 per second → 600. */
+export function toRequestsPerMinute(rate: RateLimit): number {
+  return rate.amount / TO_MINUTES[rate.frequency];
+}
+
 // ─────────────────────────────────────────────
 //  Default Settings Factory
 // ─────────────────────────────────────────────
@@ -148,6 +349,7 @@ export function buildDefaultSettings(
 ): MajikAPISettings {
   return {
     rateLimit: { ...DEFAULT_RATE_LIMIT, ...(overrides?.rateLimit ?? {}) },
+    rateLimits: overrides?.rateLimits ?? [],
     ipWhitelist: {
       enabled: false,
       addresses: [],
@@ -159,7 +361,43 @@ export function buildDefaultSettings(
       ...(overrides?.domainWhitelist ?? {}),
     },
     allowedMethods: overrides?.allowedMethods ?? [],
+    scopes: overrides?.scopes ?? [],
+    timeWindows: overrides?.timeWindows ?? [],
     metadata: overrides?.metadata ?? {},
     quota: overrides?.quota ?? null,
   };
 }
+
+// ─────────────────────────────────────────────
+//  JSON Diff
+// ─────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare two JSON-safe values and list what differs, by dotted path.
+ * Plain objects are compared key by key; arrays and primitives as a whole.
+ * Missing values are reported as null.
+ *
+ * @example
+ * diffJSON({ a: { b: 1 } }, { a: { b: 2 } });
+ * // → [{ path: "a.b", before: 1, after: 2 }]
+ */
+export function diffJSON(
+  before: unknown,
+  after: unknown,
+  path = "",
+): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) =>
+      diffJSON(before[key], after[key], path ? `${path}.${key}` : key),
+    );
+  }
+  const from = before ?? null;
+  const to = after ?? null;
+  if (JSON.stringify(from) === JSON.stringify(to)) return [];
+  return [{ path, before: from, after: to }];
+}
@@ -0,0 +1,637 @@
+import {
+  DEFAULT_RATE_LIMIT,
+  HTTP_METHODS,
+  MAX_RATE_LIMIT,
+  POLICY_FIELDS,
+  QUOTA_FREQUENCIES,
+  RATE_LIMIT_FREQUENCIES,
+  REVOCATION_REASONS,
+  WEEKDAYS,
+} from "./constants";
+import { MajikAPIValidationError } from "./errors";
+import { isValidRoute } from "./routes";
+import {
+  isValidScope,
+  normalizeScope,
+  normalizeScopeCatalogue,
+  scopeGrants,
+} from "./scopes";
+import { isValidTimeZone } from "./time";
+import { isValidTimeOfDay } from "./time-windows";
+import type {
+  MajikAPIValidateOptions,
+  MajikAPIValidationIssue,
+  RateLimit,
+} from "./types";
+import {
+  buildDefaultSettings,
+  checkBoolean,
+  checkIP,
+  checkISODate,
+  checkNonNegativeInteger,
+  checkOneOf,
+  checkPositiveInteger,
+  checkStoredDomain,
+  checkString,
+  checkStringArray,
+  toRequestsPerMinute,
+} from "./utils";
+
+// ─────────────────────────────────────────────
+//  Validation
+// ─────────────────────────────────────────────
+//
+//  Unlike the setters, which stop at the first bad value, these functions
+//  walk the whole input and return every issue — so a form can show all of
+//  its errors at once. An empty array means the input is valid.
+// ─────────────────────────────────────────────
+
+type Issues = MajikAPIValidationIssue[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function push(issues: Issues, found: MajikAPIValidationIssue | null): boolean {
+  if (found) issues.push(found);
+  return found === null;
+}
+
+function checkObject(
+  issues: Issues,
+  value: unknown,
+  path: string,
+): value is Record<string, unknown> {
+  if (isObject(value)) return true;
+  issues.push({
+    path,
+    code: value === undefined || value === null ? "required" : "invalid_type",
+    message: `"${path}" must be an object. Received: ${JSON.stringify(value)}`,
+  });
+  return false;
+}
+
+/** Check a `{ amount, frequency }` rate limit. */
+function checkRate(issues: Issues, value: unknown, path: string): void {
+  if (!checkObject(issues, value, path)) return;
+  push(issues, checkPositiveInteger(value.amount, `${path}.amount`));
+  push(
+    issues,
+    checkOneOf(value.frequency, RATE_LIMIT_FREQUENCIES, `${path}.frequency`),
+  );
+}
+
+/** Like check*(), but null and undefined are fine. */
+function optional<T>(
+  value: unknown,
+  check: (value: unknown, label: string) => T | null,
+  label: string,
+): T | null {
+  return value === null || value === undefined ? null : check(value, label);
+}
+
+/**
+ * Validate key settings and return every issue found.
+ *
+ * Missing optional fields (`rateLimits`, `allowedMethods`, `scopes`,
+ * `metadata`, `quota`) are fine; everything else must be present. Paths start with `path`.
+ *
+ * @example
+ * validateMajikAPISettings({
+ *   rateLimit: { amount: 0, frequency: "weeks" },
+ *   ipWhitelist: { enabled: true, addresses: ["10.0.0.300"] },
+ *   domainWhitelist: { enabled: false, domains: [] },
+ *   quota: null,
+ * });
+ * // → [
+ * //   { path: "settings.rateLimit.amount", code: "out_of_range", … },
+ * //   { path: "settings.rateLimit.frequency", code: "invalid_value", … },
+ * //   { path: "settings.ipWhitelist.addresses[0]", code: "invalid_format", … },
+ * // ]
+ */
+export function validateMajikAPISettings(
+  settings: unknown,
+  options: MajikAPIValidateOptions = {},
+  path = "settings",
+): MajikAPIValidationIssue[] {
+  const issues: Issues = [];
+  if (!checkObject(issues, settings, path)) return issues;
+
+  checkRate(issues, settings.rateLimit, `${path}.rateLimit`);
+
+  if (settings.rateLimits !== undefined) {
+    issues.push(
+      ...validateRateLimitRules(settings.rateLimits, `${path}.rateLimits`),
+    );
+  }
+
+  const quota = settings.quota;
+  if (
+    quota !== null &&
+    quota !== undefined &&
+    checkObject(issues, quota, `${path}.quota`)
+  ) {
+    push(issues, checkPositiveInteger(quota.limit, `${path}.quota.limit`));
+    if (
+      push(
+        issues,
+        checkOneOf(quota.type, ["fixed", "periodic"], `${path}.quota.type`),
+      ) &&
+      quota.type === "periodic"
+    ) {
+      push(
+        issues,
+        checkOneOf(
+          quota.frequency,
+          QUOTA_FREQUENCIES,
+          `${path}.quota.frequency`,
+        ),
+      );
+    }
+  }
+
+  if (checkObject(issues, settings.ipWhitelist, `${path}.ipWhitelist`)) {
+    const { enabled, addresses } = settings.ipWhitelist;
+    const label = `${path}.ipWhitelist.addresses`;
+    push(issues, checkBoolean(enabled, `${path}.ipWhitelist.enabled`));
+    if (push(issues, checkStringArray(addresses, label))) {
+      (addresses as string[]).forEach((ip, i) =>
+        push(issues, checkIP(ip, `${label}[${i}]`)),
+      );
+    }
+  }
+
+  if (
+    checkObject(issues, settings.domainWhitelist, `${path}.domainWhitelist`)
+  ) {
+    const { enabled, domains } = settings.domainWhitelist;
+    const label = `${path}.domainWhitelist.domains`;
+    push(issues, checkBoolean(enabled, `${path}.domainWhitelist.enabled`));
+    if (push(issues, checkStringArray(domains, label))) {
+      (domains as string[]).forEach((domain, i) =>
+        push(issues, checkStoredDomain(domain, `${label}[${i}]`)),
+      );
+    }
+  }
+
+  const methods = settings.allowedMethods;
+  const methodsLabel = `${path}.allowedMethods`;
+  if (
+    methods !== undefined &&
+    push(issues, checkStringArray(methods, methodsLabel))
+  ) {
+    (methods as string[]).forEach((method, i) =>
+      push(
+        issues,
+        checkOneOf(method.toUpperCase(), HTTP_METHODS, `${methodsLabel}[${i}]`),
+      ),
+    );
+  }
+
+  const scopes = settings.scopes;
+  const scopesLabel = `${path}.scopes`;
+  if (
+    scopes !== undefined &&
+    push(issues, checkStringArray(scopes, scopesLabel))
+  ) {
+    const catalogue =
+      options.scopeCatalogue === undefined
+        ? null
+        : normalizeScopeCatalogue(options.scopeCatalogue);
+    (scopes as string[]).forEach((scope, i) => {
+      const label = `${scopesLabel}[${i}]`;
+      if (!isValidScope(scope)) {
+        issues.push({
+          path: label,
+          code: "invalid_format",
+          message: `"${label}" is not a valid scope: ${JSON.stringify(scope)}. Expected ":"-separated lowercase segments, e.g. "projects:read" or "admin:*".`,
+        });
+      } else if (
+        catalogue !== null &&
+        !catalogue.some((entry) => scopeGrants(normalizeScope(scope), entry))
+      ) {
+        issues.push({
+          path: label,
+          code: "unknown_scope",
+          message: `"${label}" is not in the scope catalogue: ${JSON.stringify(scope)}`,
+        });
+      }
+    });
+  }
+
+  if (settings.timeWindows !== undefined) {
+    issues.push(
+      ...validateTimeWindows(settings.timeWindows, `${path}.timeWindows`),
+    );
+  }
+
+  if (settings.metadata !== undefined) {
+    checkObject(issues, settings.metadata, `${path}.metadata`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a list of time windows and return every issue found. Each needs
+ * at least one day, "HH:MM" start and end times that differ, and a time
+ * zone this runtime knows.
+ */
+export function validateTimeWindows(
+  windows: unknown,
+  path = "timeWindows",
+): MajikAPIValidationIssue[] {
+  if (!Array.isArray(windows)) {
+    return [
+      {
+        path,
+        code:
+          windows === undefined || windows === null
+            ? "required"
+            : "invalid_type",
+        message: `"${path}" must be an array of time windows. Received: ${JSON.stringify(windows)}`,
+      },
+    ];
+  }
+
+  const issues: Issues = [];
+  windows.forEach((window: unknown, i) => {
+    const label = `${path}[${i}]`;
+    if (!checkObject(issues, window, label)) return;
+
+    const days = window.days;
+    if (push(issues, checkStringArray(days, `${label}.days`))) {
+      if ((days as string[]).length === 0) {
+        issues.push({
+          path: `${label}.days`,
+          code: "required",
+          message: `"${label}.days" must list at least one day.`,
+        });
+      }
+      (days as string[]).forEach((day, j) =>
+        push(issues, checkOneOf(day, WEEKDAYS, `${label}.days[${j}]`)),
+      );
+    }
+
+    for (const field of ["start", "end"] as const) {
+      const value = window[field];
+      if (
+        push(issues, checkString(value, `${label}.${field}`)) &&
+        !isValidTimeOfDay(value as string)
+      ) {
+        issues.push({
+          path: `${label}.${field}`,
+          code: "invalid_format",
+          message: `"${label}.${field}" must be an "HH:MM" time from "00:00" to "24:00". Received: ${JSON.stringify(value)}`,
+        });
+      }
+    }
+    if (
+      window.start === window.end &&
+      isValidTimeOfDay(window.start as string)
+    ) {
+      issues.push({
+        path: `${label}.end`,
+        code: "conflict",
+        message: `"${label}.end" must differ from "${label}.start".`,
+      });
+    }
+
+    if (
+      push(issues, checkString(window.timeZone, `${label}.timeZone`)) &&
+      !isValidTimeZone(window.timeZone as string)
+    ) {
+      issues.push({
+        path: `${label}.timeZone`,
+        code: "invalid_value",
+        message: `"${label}.timeZone" is not a known IANA time zone: ${JSON.stringify(window.timeZone)}`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Validate a list of layered rate-limit rules and return every issue found.
+ * Methods are case-insensitive. The MAX_RATE_LIMIT ceiling is not checked
+ * here — setRateLimits() enforces it.
+ */
+export function validateRateLimitRules(
+  rules: unknown,
+  path = "rateLimits",
+): MajikAPIValidationIssue[] {
+  if (!Array.isArray(rules)) {
+    return [
+      {
+        path,
+        code:
+          rules === undefined || rules === null ? "required" : "invalid_type",
+        message: `"${path}" must be an array of rate-limit rules. Received: ${JSON.stringify(rules)}`,
+      },
+    ];
+  }
+
+  const issues: Issues = [];
+  rules.forEach((rule: unknown, i) => {
+    const label = `${path}[${i}]`;
+    if (!checkObject(issues, rule, label)) return;
+    push(issues, checkPositiveInteger(rule.amount, `${label}.amount`));
+    push(
+      issues,
+      checkOneOf(rule.frequency, RATE_LIMIT_FREQUENCIES, `${label}.frequency`),
+    );
+    if (
+      rule.method !== undefined &&
+      push(issues, checkString(rule.method, `${label}.method`))
+    ) {
+      push(
+        issues,
+        checkOneOf(
+          (rule.method as string).toUpperCase(),
+          HTTP_METHODS,
+          `${label}.method`,
+        ),
+      );
+    }
+    if (
+      rule.route !== undefined &&
+      push(issues, checkString(rule.route, `${label}.route`)) &&
+      !isValidRoute(rule.route as string)
+    ) {
+      issues.push({
+        path: `${label}.route`,
+        code: "invalid_format",
+        message: `"${label}.route" is not a valid route pattern: ${JSON.stringify(rule.route)}. Expected a path such as "/v1/search", "/v1/projects/*" or "/v1/projects/**".`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Validate the settings of a policy, or a key's overrides of one. Only the
+ * policy fields (`rateLimit`, `rateLimits`, `quota`, `allowedMethods`,
+ * `scopes`) may be present; each one that is must be complete and valid.
+ */
+export function validatePolicySettings(
+  settings: unknown,
+  options: MajikAPIValidateOptions = {},
+  path = "settings",
+): MajikAPIValidationIssue[] {
+  const issues: Issues = [];
+  if (!checkObject(issues, settings, path)) return issues;
+
+  const fields = POLICY_FIELDS as readonly string[];
+  for (const field of Object.keys(settings)) {
+    if (!fields.includes(field)) {
+      issues.push({
+        path: `${path}.${field}`,
+        code: "invalid_value",
+        message: `"${path}.${field}" is not a policy setting. Expected one of: ${fields.join(", ")}.`,
+      });
+    }
+  }
+
+  // Stand in valid values for the per-key fields so only the policy fields
+  // can produce issues.
+  const probe = {
+    rateLimit: DEFAULT_RATE_LIMIT,
+    quota: null,
+    ipWhitelist: { enabled: false, addresses: [] },
+    domainWhitelist: { enabled: false, domains: [] },
+    ...Object.fromEntries(
+      Object.entries(settings).filter(
+        ([field, value]) => fields.includes(field) && value !== undefined,
+      ),
+    ),
+  };
+  issues.push(...validateMajikAPISettings(probe, options, path));
+  return issues;
+}
+
+/**
+ * Validate a serialised key — a `toJSON()` result, a database row or a
+ * request body — and return every issue found. Accepts exactly what
+ * `MajikAPI.fromJSON()` accepts after migration: nullable columns may be
+ * missing, and missing settings fall back to the defaults.
+ *
+ * Payloads from older schema versions should be passed through
+ * `MajikAPI.migrate()` first.
+ *
+ * @example
+ * const issues = validateMajikAPIJSON(req.body);
+ * if (issues.length > 0) return res.status(422).json({ issues });
+ */
+export function validateMajikAPIJSON(
+  data: unknown,
+  options: MajikAPIValidateOptions = {},
+): MajikAPIValidationIssue[] {
+  if (!isObject(data)) {
+    return [
+      {
+        path: "",
+        code: "invalid_type",
+        message: "Expected a plain object.",
+      },
+    ];
+  }
+
+  const issues: Issues = [];
+  push(issues, checkString(data.id, "id"));
+  push(issues, checkString(data.owner_id, "owner_id"));
+  push(issues, optional(data.parent_id, checkString, "parent_id"));
+  push(issues, checkString(data.name, "name"));
+  push(issues, checkString(data.api_key, "api_key"));
+  push(issues, optional(data.key_id, checkString, "key_id"));
+  push(issues, optional(data.key_prefix, checkString, "key_prefix"));
+  push(issues, checkISODate(data.timestamp, "timestamp"));
+  push(issues, checkBoolean(data.restricted, "restricted"));
+  push(issues, optional(data.valid_from, checkISODate, "valid_from"));
+  push(issues, optional(data.valid_until, checkISODate, "valid_until"));
+  if (
+    typeof data.valid_from === "string" &&
+    typeof data.valid_until === "string" &&
+    new Date(data.valid_until) <= new Date(data.valid_from)
+  ) {
+    issues.push({
+      path: "valid_until",
+      code: "conflict",
+      message: '"valid_until" must be later than "valid_from".',
+    });
+  }
+  push(issues, optional(data.revoked_at, checkISODate, "revoked_at"));
+  push(issues, optional(data.revoked_by, checkString, "revoked_by"));
+  push(
+    issues,
+    optional(
+      data.revocation_reason,
+      (value, label) => checkOneOf(value, REVOCATION_REASONS, label),
+      "revocation_reason",
+    ),
+  );
+  if (!data.revoked_at) {
+    for (const field of ["revoked_by", "revocation_reason"] as const) {
+      if (data[field] !== null && data[field] !== undefined) {
+        issues.push({
+          path: field,
+          code: "conflict",
+          message: `"${field}" must be null for a key without revoked_at.`,
+        });
+      }
+    }
+  }
+  push(
+    issues,
+    optional(data.schema_version, checkNonNegativeInteger, "schema_version"),
+  );
+  push(issues, optional(data.version, checkNonNegativeInteger, "version"));
+
+  const policyId = data.policy_id;
+  if (push(issues, optional(policyId, checkString, "policy_id"))) {
+    if (
+      policyId &&
+      options.policies &&
+      !options.policies.has(policyId as string)
+    ) {
+      issues.push({
+        path: "policy_id",
+        code: "unknown_policy",
+        message: `"policy_id" is not a registered policy: ${JSON.stringify(policyId)}`,
+      });
+    }
+  }
+  if (data.overrides !== null && data.overrides !== undefined) {
+    issues.push(
+      ...validatePolicySettings(data.overrides, options, "overrides"),
+    );
+    if (
+      !policyId &&
+      isObject(data.overrides) &&
+      Object.keys(data.overrides).length > 0
+    ) {
+      issues.push({
+        path: "overrides",
+        code: "invalid_value",
+        message: '"overrides" must be empty for a key without a policy_id.',
+      });
+    }
+  }
+
+  const previous = data.previous_keys;
+  if (previous !== null && previous !== undefined) {
+    if (!Array.isArray(previous)) {
+      issues.push({
+        path: "previous_keys",
+        code: "invalid_type",
+        message: `"previous_keys" must be an array. Received: ${JSON.stringify(previous)}`,
+      });
+    } else {
+      previous.forEach((entry: unknown, i) => {
+        const label = `previous_keys[${i}]`;
+        if (!checkObject(issues, entry, label)) return;
+        push(issues, checkString(entry.api_key, `${label}.api_key`));
+        push(issues, optional(entry.key_id, checkString, `${label}.key_id`));
+        push(issues, checkISODate(entry.expires_at, `${label}.expires_at`));
+      });
+    }
+  }
+
+  if (checkObject(issues, data.settings, "settings")) {
+    issues.push(
+      ...validateMajikAPISettings(buildDefaultSettings(data.settings), options),
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a MajikAPIConfig and return every issue found. The default rate
+ * limit must fit under the configured ceiling.
+ *
+ * @example
+ * validateMajikAPIConfig({ maxRateLimit: { amount: 2000, frequency: "fortnights" } });
+ * // → [{ path: "maxRateLimit.frequency", code: "invalid_value", … }]
+ */
+export function validateMajikAPIConfig(
+  config: unknown,
+): MajikAPIValidationIssue[] {
+  const issues: Issues = [];
+  if (!checkObject(issues, config, "config")) return issues;
+
+  if (config.maxRateLimit !== undefined) {
+    checkRate(issues, config.maxRateLimit, "maxRateLimit");
+  }
+  const validCeiling = issues.length === 0;
+  const tiers = config.maxRateLimitByTier;
+  if (tiers !== undefined && checkObject(issues, tiers, "maxRateLimitByTier")) {
+    for (const [tier, rate] of Object.entries(tiers)) {
+      checkRate(issues, rate, `maxRateLimitByTier.${tier}`);
+    }
+  }
+
+  for (const field of ["ownerTier", "clock"] as const) {
+    const value = config[field];
+    if (value !== undefined && typeof value !== "function") {
+      issues.push({
+        path: field,
+        code: "invalid_type",
+        message: `"${field}" must be a function. Received: ${JSON.stringify(value)}`,
+      });
+    }
+  }
+
+  const hasher = config.hasher;
+  if (
+    hasher !== undefined &&
+    (!isObject(hasher) || typeof hasher.hash !== "function")
+  ) {
+    issues.push({
+      path: "hasher",
+      code: "invalid_type",
+      message: '"hasher" must implement MajikAPIKeyHasher.',
+    });
+  }
+
+  const defaults = config.defaultSettings;
+  if (
+    defaults !== undefined &&
+    checkObject(issues, defaults, "defaultSettings")
+  ) {
+    const settings = buildDefaultSettings(defaults);
+    const settingsIssues = validateMajikAPISettings(
+      settings,
+      {},
+      "defaultSettings",
+    );
+    issues.push(...settingsIssues);
+
+    const ceiling = (config.maxRateLimit ?? MAX_RATE_LIMIT) as RateLimit;
+    const rate = settings.rateLimit;
+    if (
+      validCeiling &&
+      settingsIssues.length === 0 &&
+      toRequestsPerMinute(rate) > toRequestsPerMinute(ceiling)
+    ) {
+      issues.push({
+        path: "defaultSettings.rateLimit",
+        code: "out_of_range",
+        message: `"defaultSettings.rateLimit" (${rate.amount} per ${rate.frequency}) exceeds the ceiling of ${ceiling.amount} per ${ceiling.frequency}.`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw a MajikAPIValidationError listing `issues`, unless there are none.
+ *
+ * @param method - Name of the calling method, for the error message.
+ */
+export function assertValid(
+  issues: MajikAPIValidationIssue[],
+  method?: string,
+): void {
+  if (issues.length > 0) throw new MajikAPIValidationError(issues, method);
+}
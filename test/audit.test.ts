@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { InMemoryAuditSink, MajikAPI, type AuditEvent } from "../src/index";
+
+describe("audit events", () => {
+  const cleanup: (() => void)[] = [];
+  afterEach(() => {
+    cleanup.splice(0).forEach((stop) => stop());
+    vi.restoreAllMocks();
+  });
+
+  it("emits a diff for every mutation", () => {
+    const sink = new InMemoryAuditSink();
+    const key = MajikAPI.create("owner", undefined, { actor: "user:1" });
+    key.onAudit((event) => sink.write(event));
+
+    key.setRateLimit(5, "seconds");
+    key.rotate();
+
+    const [limit, rotate] = sink.events;
+    expect(limit).toMatchObject({
+      entity_id: key.id,
+      operation: "setRateLimit",
+      actor: "user:1",
+    });
+    expect(limit.changes).toContainEqual({
+      path: "settings.rateLimit.frequency",
+      before: "minutes",
+      after: "seconds",
+    });
+    expect(rotate.changes).toContainEqual({
+      path: "api_key",
+      before: "[redacted]",
+      after: "[redacted]",
+    });
+  });
+
+  it("applies the change when a listener throws", () => {
+    const key = MajikAPI.create("owner");
+    key.onAudit(() => {
+      throw new Error("sink down");
+    });
+
+    expect(() => key.revoke("compromised")).not.toThrow();
+    expect(key.isRevoked()).toBe(true);
+  });
+
+  it("reports listener errors to onAuditError()", () => {
+    const errors: [unknown, AuditEvent][] = [];
+    cleanup.push(
+      MajikAPI.onAuditError((error, event) => errors.push([error, event])),
+      MajikAPI.onAudit(() => {
+        throw new Error("global sink down");
+      }),
+    );
+    const key = MajikAPI.create("owner");
+    const after: string[] = [];
+    key.onAudit(() => {
+      throw new Error("key sink down");
+    });
+    key.onAudit((event) => after.push(event.operation));
+
+    key.restrict();
+
+    expect(errors.map(([error]) => (error as Error).message)).toEqual([
+      "global sink down",
+      "key sink down",
+      "global sink down",
+    ]);
+    expect(errors[2][1].operation).toBe("restrict");
+    expect(after).toEqual(["restrict"]);
+  });
+
+  it("does not log listener errors when nobody subscribed to them", () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const key = MajikAPI.create("owner");
+    key.onAudit(() => {
+      throw new Error("sink down");
+    });
+
+    key.restrict();
+
+    expect(log).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { MajikAPI, authorize } from "../src/index";
+
+describe("authorize()", () => {
+  it("allows a request that meets every stored rule", () => {
+    const key = MajikAPI.create("owner", undefined, {
+      settings: {
+        ipWhitelist: { enabled: true, addresses: ["10.0.0.0/8"] },
+        domainWhitelist: { enabled: true, domains: ["*.example.com"] },
+        allowedMethods: ["GET"],
+      },
+    });
+
+    const decision = key.authorize({
+      ip: "10.1.2.3",
+      origin: "https://app.example.com",
+      method: "GET",
+    });
+
+    expect(decision.allowed).toBe(true);
+    expect(decision.matched.map((rule) => rule.type)).toEqual([
+      "ipWhitelist",
+      "domainWhitelist",
+      "allowedMethods",
+    ]);
+  });
+
+  it("denies with the first failing rule", () => {
+    const key = MajikAPI.create("owner", undefined, {
+      settings: { ipWhitelist: { enabled: true, addresses: ["10.0.0.1"] } },
+    });
+
+    expect(key.authorize({ ip: "10.0.0.2" }).reason).toBe("ip_not_allowed");
+    expect(key.authorize({}).reason).toBe("ip_not_allowed");
+  });
+
+  it("denies a restricted key", () => {
+    const key = MajikAPI.create("owner", undefined, { restricted: true });
+    expect(key.authorize().reason).toBe("restricted");
+  });
+
+  describe("allowed methods", () => {
+    it("stores methods given in lower case in upper case", () => {
+      const key = MajikAPI.create("owner", undefined, {
+        settings: { allowedMethods: ["get", "Post"] },
+      });
+      expect(key.allowedMethods).toEqual(["GET", "POST"]);
+    });
+
+    it("matches methods in any case", () => {
+      const key = MajikAPI.create("owner", undefined, {
+        settings: { allowedMethods: ["get"] },
+      });
+
+      expect(key.authorize({ method: "GET" }).allowed).toBe(true);
+      expect(key.authorize({ method: "get" }).allowed).toBe(true);
+      expect(key.authorize({ method: "POST" }).reason).toBe(
+        "method_not_allowed",
+      );
+    });
+
+    it("matches lower-case methods in stored rows", () => {
+      const row = MajikAPI.create("owner").toJSON();
+      row.settings.allowedMethods = ["get"];
+
+      expect(authorize(row, { method: "GET" }).allowed).toBe(true);
+      expect(authorize(row, { method: "DELETE" }).allowed).toBe(false);
+    });
+  });
+});
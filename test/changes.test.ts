@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPIRepository,
+  MajikAPIVersionConflictError,
+  applyChanges,
+} from "../src/index";
+
+async function savedKey() {
+  const store = new InMemoryMajikAPIStore();
+  const repository = new MajikAPIRepository(store);
+  const key = MajikAPI.create("owner");
+  await repository.save(key);
+  return { store, repository, key };
+}
+
+describe("change tracking", () => {
+  it("reports nothing for a freshly loaded key", async () => {
+    const { repository, key } = await savedKey();
+    const loaded = await repository.findById(key.id);
+
+    expect(loaded?.getChanges()).toEqual({});
+    expect(loaded?.hasChanges()).toBe(false);
+  });
+
+  it("reports changed fields by dotted path", async () => {
+    const { repository, key } = await savedKey();
+    const loaded = (await repository.findById(key.id))!;
+
+    loaded.addIP("10.0.0.1");
+    loaded.rename("Renamed");
+
+    expect(loaded.getChanges()).toEqual({
+      name: "Renamed",
+      "settings.ipWhitelist.addresses": ["10.0.0.1"],
+    });
+    expect(loaded.getPatch()).toMatchObject({ id: key.id, version: 1 });
+  });
+
+  it("sends the whole metadata object when a key is deleted", async () => {
+    const { repository, key } = await savedKey();
+    key.setMetadata("plan", "pro");
+    key.setMetadata("region", "eu");
+    await repository.save(key);
+
+    key.deleteMetadata("region");
+
+    expect(key.getChanges()).toEqual({
+      "settings.metadata": { plan: "pro" },
+    });
+  });
+
+  it("clears changes and bumps the version once saved", async () => {
+    const { store, repository, key } = await savedKey();
+    key.restrict();
+
+    await repository.save(key);
+
+    expect(key.hasChanges()).toBe(false);
+    expect(key.version).toBe(2);
+    expect((await store.findById(key.id))?.restricted).toBe(true);
+  });
+
+  it("rejects a save based on an outdated version", async () => {
+    const { repository, key } = await savedKey();
+    const first = (await repository.findById(key.id))!;
+    const second = (await repository.findById(key.id))!;
+
+    first.addIP("10.0.0.1");
+    second.addDomain("example.com");
+    await repository.save(first);
+
+    await expect(repository.save(second)).rejects.toBeInstanceOf(
+      MajikAPIVersionConflictError,
+    );
+  });
+
+  it("merges a patch into a stored row", () => {
+    const row = MajikAPI.create("owner").toJSON();
+
+    const updated = applyChanges(row, {
+      name: "Renamed",
+      "settings.ipWhitelist.addresses": ["10.0.0.1"],
+    });
+
+    expect(updated.name).toBe("Renamed");
+    expect(updated.settings.ipWhitelist.addresses).toEqual(["10.0.0.1"]);
+    expect(row.settings.ipWhitelist.addresses).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikAPIRateLimitCeilingError,
+  MajikAPIValidationError,
+  createMajikAPI,
+} from "../src/index";
+
+describe("createMajikAPI()", () => {
+  it("starts keys from the configured defaults", () => {
+    const majik = createMajikAPI({
+      defaultSettings: {
+        rateLimit: { amount: 300, frequency: "minutes" },
+        scopes: ["projects:read"],
+      },
+    });
+    const key = majik.create("owner");
+
+    expect(key.rateLimit).toEqual({ amount: 300, frequency: "minutes" });
+    expect(key.scopes).toEqual(["projects:read"]);
+  });
+
+  it("gives every key its own copy of the defaults", () => {
+    const defaultSettings = {
+      ipWhitelist: { enabled: true, addresses: [] as string[] },
+      domainWhitelist: { enabled: true, domains: [] as string[] },
+      metadata: {},
+    };
+    const majik = createMajikAPI({ defaultSettings });
+
+    const first = majik.create("tenant-a");
+    first.addIP("10.0.0.1");
+    first.addDomain("a.example.com");
+    first.setMetadata("plan", "pro");
+    const second = majik.create("tenant-b");
+
+    expect(second.ipWhitelist.addresses).toEqual([]);
+    expect(second.domainWhitelist.domains).toEqual([]);
+    expect(second.getMetadata("plan")).toBeUndefined();
+    expect(majik.config.defaultSettings?.ipWhitelist?.addresses).toEqual([]);
+  });
+
+  it("is not affected by later changes to the config object", () => {
+    const config = {
+      defaultSettings: { scopes: ["projects:read"] },
+    };
+    const majik = createMajikAPI(config);
+    config.defaultSettings.scopes.push("admin:*");
+
+    expect(majik.create("owner").scopes).toEqual(["projects:read"]);
+  });
+
+  it("enforces the owner's ceiling on defaults", () => {
+    const majik = createMajikAPI({
+      maxRateLimitByTier: { free: { amount: 60, frequency: "minutes" } },
+      ownerTier: (ownerId) => (ownerId.startsWith("free:") ? "free" : null),
+      defaultSettings: { rateLimit: { amount: 100, frequency: "minutes" } },
+    });
+
+    expect(majik.create("paid:1").rateLimit.amount).toBe(100);
+    expect(() => majik.create("free:1")).toThrow(MajikAPIRateLimitCeilingError);
+  });
+
+  it("rejects defaults above the ceiling up front", () => {
+    expect(() =>
+      createMajikAPI({
+        maxRateLimit: { amount: 10, frequency: "minutes" },
+        defaultSettings: { rateLimit: { amount: 11, frequency: "minutes" } },
+      }),
+    ).toThrow(MajikAPIValidationError);
+  });
+
+  it("uses the configured clock", () => {
+    const majik = createMajikAPI({
+      clock: () => new Date("2030-01-01T00:00:00Z"),
+    });
+    expect(majik.create("owner").createdAt.toISOString()).toBe(
+      "2030-01-01T00:00:00.000Z",
+    );
+  });
+});
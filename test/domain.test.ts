@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikAPI,
+  MajikAPIValidationError,
+  domainMatches,
+  extractHost,
+  isPublicSuffix,
+  isPublicSuffixWildcard,
+  matchDomain,
+  normalizeDomainEntry,
+} from "../src/index";
+
+describe("domain matching", () => {
+  it("extracts the host from origins, referers and bare hosts", () => {
+    expect(extractHost("https://App.Example.com:8443/path")).toBe(
+      "app.example.com",
+    );
+    expect(extractHost("app.example.com.")).toBe("app.example.com");
+    expect(extractHost("null")).toBeNull();
+    expect(extractHost("")).toBeNull();
+  });
+
+  it("matches exact entries and subdomain wildcards", () => {
+    expect(domainMatches("example.com", "example.com")).toBe(true);
+    expect(domainMatches("api.example.com", "example.com")).toBe(false);
+    expect(domainMatches("a.b.example.com", "*.example.com")).toBe(true);
+    expect(domainMatches("example.com", "*.example.com")).toBe(false);
+    expect(domainMatches("badexample.com", "*.example.com")).toBe(false);
+    expect(domainMatches("anything.test", "*")).toBe(true);
+  });
+
+  it("matches localhost on any port", () => {
+    expect(matchDomain("http://localhost:3000", ["localhost"])).toBe(
+      "localhost",
+    );
+  });
+
+  it("compares IDN hosts in punycode form", () => {
+    expect(normalizeDomainEntry("Bücher.de")).toBe("xn--bcher-kva.de");
+    expect(matchDomain("https://xn--bcher-kva.de", ["bücher.de"])).toBe(
+      "bücher.de",
+    );
+  });
+
+  it("returns the first entry covering the origin", () => {
+    expect(
+      matchDomain("https://api.example.com", ["other.com", "*.example.com"]),
+    ).toBe("*.example.com");
+    expect(matchDomain("https://evil.com", ["*.example.com"])).toBeNull();
+  });
+
+  describe("public suffixes", () => {
+    it("recognises listed suffixes and single labels", () => {
+      expect(isPublicSuffix("co.uk")).toBe(true);
+      expect(isPublicSuffix("github.io")).toBe(true);
+      expect(isPublicSuffix("com")).toBe(true);
+      expect(isPublicSuffix("example.co.uk")).toBe(false);
+      expect(isPublicSuffix("localhost")).toBe(false);
+    });
+
+    it("rejects wildcards over a public suffix", () => {
+      expect(normalizeDomainEntry("*.co.uk")).toBeNull();
+      expect(normalizeDomainEntry("*.github.io")).toBeNull();
+      expect(normalizeDomainEntry("*.com")).toBeNull();
+      expect(normalizeDomainEntry("*.example.co.uk")).toBe("*.example.co.uk");
+      expect(isPublicSuffixWildcard("*.github.io")).toBe(true);
+      expect(isPublicSuffixWildcard("*.example.co.uk")).toBe(false);
+    });
+
+    it("refuses them as new whitelist entries", () => {
+      const key = MajikAPI.create("owner");
+
+      expect(() => key.addDomain("*.github.io")).toThrow(
+        /wildcard over a public suffix/,
+      );
+      expect(() => key.setDomainWhitelist(["*.co.uk"])).toThrow(
+        MajikAPIValidationError,
+      );
+    });
+
+    it("loads stored keys that hold one, without ever matching it", () => {
+      const row = MajikAPI.create("owner", undefined, {
+        settings: {
+          domainWhitelist: { enabled: true, domains: ["example.com"] },
+        },
+      }).toJSON();
+      row.settings.domainWhitelist.domains = ["*.github.io", "example.com"];
+
+      const key = MajikAPI.fromJSON(row);
+
+      expect(key.domainWhitelist.domains).toContain("*.github.io");
+      expect(
+        key.authorize({ origin: "https://someone.github.io" }).reason,
+      ).toBe("domain_not_allowed");
+      expect(key.authorize({ origin: "https://example.com" }).allowed).toBe(
+        true,
+      );
+      expect(() => key.validate()).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPIExpiryScanner,
+  MajikAPIRepository,
+  type MajikAPIStore,
+} from "../src/index";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function testClock() {
+  let now = Date.now();
+  return {
+    clock: () => new Date(now),
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+async function keyExpiringIn(repository: MajikAPIRepository, ms: number) {
+  const key = MajikAPI.create("owner");
+  key.setExpiry(new Date(Date.now() + ms));
+  await repository.save(key);
+  return key;
+}
+
+describe("MajikAPIExpiryScanner", () => {
+  it("reports keys at the smallest threshold they are inside", async () => {
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const soon = await keyExpiringIn(repository, 5 * DAY);
+    await keyExpiringIn(repository, 60 * DAY);
+    await repository.save(MajikAPI.create("owner"));
+    const scanner = new MajikAPIExpiryScanner(repository);
+
+    const report = await scanner.scan();
+
+    expect(report.events).toHaveLength(1);
+    expect(report.events[0]).toMatchObject({
+      type: "expiring",
+      keyId: soon.id,
+      thresholdDays: 7,
+    });
+    expect(report.notices).toEqual([
+      {
+        keyId: soon.id,
+        validUntil: soon.validUntil!.toISOString(),
+        thresholdDays: 7,
+      },
+    ]);
+  });
+
+  it("ignores revoked keys", async () => {
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const key = await keyExpiringIn(repository, 5 * DAY);
+    key.revoke("compromised");
+    await repository.save(key);
+
+    const report = await new MajikAPIExpiryScanner(repository).scan();
+
+    expect(report.events).toEqual([]);
+  });
+
+  describe("with the previous report's notices", () => {
+    it("reports each threshold once per key", async () => {
+      const { clock, advance } = testClock();
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      await keyExpiringIn(repository, 10 * DAY);
+      const scanner = new MajikAPIExpiryScanner(repository, { clock });
+
+      const first = await scanner.scan();
+      const second = await scanner.scan({ notices: first.notices });
+      advance(5 * DAY);
+      const third = await scanner.scan({ notices: second.notices });
+
+      expect(first.events.map((e) => e.thresholdDays)).toEqual([30]);
+      expect(second.events).toEqual([]);
+      expect(third.events.map((e) => e.thresholdDays)).toEqual([7]);
+    });
+
+    it("reports a key created since the previous scan", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      await keyExpiringIn(repository, 5 * DAY);
+      const scanner = new MajikAPIExpiryScanner(repository);
+      const first = await scanner.scan();
+
+      const added = await keyExpiringIn(repository, 5 * DAY);
+      const second = await scanner.scan({ notices: first.notices });
+
+      expect(second.events.map((e) => e.keyId)).toEqual([added.id]);
+    });
+
+    it("reports a key again when its expiry changes", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      const key = await keyExpiringIn(repository, 5 * DAY);
+      const scanner = new MajikAPIExpiryScanner(repository);
+      const first = await scanner.scan();
+
+      key.setExpiry(new Date(Date.now() + 3 * DAY));
+      await repository.save(key);
+      const second = await scanner.scan({ notices: first.notices });
+
+      expect(second.events).toHaveLength(1);
+      expect(second.events[0].validUntil).toEqual(key.validUntil);
+    });
+  });
+
+  it("reports keys that expired since the previous scan once", async () => {
+    const { clock, advance } = testClock();
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const key = await keyExpiringIn(repository, DAY);
+    const scanner = new MajikAPIExpiryScanner(repository, { clock });
+    const first = await scanner.scan();
+
+    advance(2 * DAY);
+    const second = await scanner.scan({ since: first.scannedAt });
+    const third = await scanner.scan({ since: second.scannedAt });
+
+    expect(second.events).toMatchObject([
+      { type: "expired", keyId: key.id, msUntilExpiry: 0, thresholdDays: null },
+    ]);
+    expect(third.events).toEqual([]);
+  });
+
+  describe("renewals", () => {
+    it("extends keys inside the renewal window and saves them", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      const key = await keyExpiringIn(repository, 12 * 60 * 60 * 1000);
+      const scanner = new MajikAPIExpiryScanner(repository, {
+        renewalPolicy: () => ({ action: "extend", days: 90 }),
+      });
+
+      const report = await scanner.scan();
+      const saved = await repository.findById(key.id);
+
+      expect(report.actions).toMatchObject([
+        { type: "extended", keyId: key.id, saved: true },
+      ]);
+      expect(report.events).toEqual([]);
+      expect(saved?.validUntil).toEqual(report.actions[0].validUntil);
+    });
+
+    it("leaves keys outside the renewal window alone", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      await keyExpiringIn(repository, 5 * DAY);
+      const scanner = new MajikAPIExpiryScanner(repository, {
+        renewalPolicy: () => ({ action: "extend", days: 90 }),
+      });
+
+      expect((await scanner.scan()).actions).toEqual([]);
+    });
+
+    it("rotates keys and hands back the new raw key", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      const key = await keyExpiringIn(repository, 12 * 60 * 60 * 1000);
+      const scanner = new MajikAPIExpiryScanner(repository, {
+        renewalPolicy: () => ({
+          action: "rotate",
+          days: 90,
+          gracePeriodMs: DAY,
+        }),
+      });
+
+      const report = await scanner.scan();
+      const [rotated] = report.rotatedKeys;
+
+      expect(report.actions[0].type).toBe("rotated");
+      expect(report.actions[0]).not.toHaveProperty("rawApiKey");
+      expect(rotated).toMatchObject({ keyId: key.id, ownerId: key.ownerId });
+      expect((await repository.verify(rotated.rawApiKey))?.id).toBe(key.id);
+      expect((await repository.verify(key.rawApiKey!))?.id).toBe(key.id);
+    });
+
+    it("skips idle keys when the policy needs recent usage", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      await keyExpiringIn(repository, 12 * 60 * 60 * 1000);
+      const policy = () => ({
+        action: "extend" as const,
+        days: 90,
+        ifUsedWithinDays: 30,
+      });
+
+      const withoutUsage = await new MajikAPIExpiryScanner(repository, {
+        renewalPolicy: policy,
+      }).scan();
+      const idle = await new MajikAPIExpiryScanner(repository, {
+        renewalPolicy: policy,
+        lastUsedAt: () => new Date(Date.now() - 60 * DAY),
+      }).scan();
+
+      expect(withoutUsage.actions[0].type).toBe("skipped");
+      expect(idle.actions[0]).toMatchObject({
+        type: "skipped",
+        reason: "Not used in the last 30 days.",
+      });
+      expect(idle.events).toHaveLength(1);
+    });
+
+    it("reports a failed save and goes on", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      await keyExpiringIn(repository, 12 * 60 * 60 * 1000);
+      await keyExpiringIn(repository, 12 * 60 * 60 * 1000);
+      repository.save = async () => {
+        throw new Error("Version conflict.");
+      };
+      const scanner = new MajikAPIExpiryScanner(repository, {
+        renewalPolicy: () => ({ action: "extend", days: 90 }),
+      });
+
+      const report = await scanner.scan();
+
+      expect(report.actions).toMatchObject([
+        { type: "failed", reason: "Version conflict.", saved: false },
+        { type: "failed", reason: "Version conflict.", saved: false },
+      ]);
+      expect(report.events).toHaveLength(2);
+    });
+
+    it("reports a row that fails to load and goes on", async () => {
+      const store = new InMemoryMajikAPIStore();
+      const repository = new MajikAPIRepository(store);
+      const broken = MajikAPI.create("owner");
+      broken.setExpiry(new Date(Date.now() + 5 * DAY));
+      await store.save({
+        ...broken.toJSON(),
+        settings: {
+          ...broken.toJSON().settings,
+          rateLimit: { amount: 0, frequency: "minutes" },
+        },
+      });
+      const healthy = await keyExpiringIn(repository, 5 * DAY);
+
+      const report = await new MajikAPIExpiryScanner(repository).scan();
+
+      expect(report.actions).toMatchObject([
+        { type: "failed", keyId: broken.id, saved: false },
+      ]);
+      expect(report.events.map((e) => e.keyId)).toEqual([healthy.id]);
+    });
+
+    it("saves nothing on a dry run", async () => {
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+      const key = await keyExpiringIn(repository, 12 * 60 * 60 * 1000);
+      const scanner = new MajikAPIExpiryScanner(repository, {
+        renewalPolicy: () => ({ action: "extend", days: 90 }),
+      });
+
+      const report = await scanner.scan({ dryRun: true });
+      const saved = await repository.findById(key.id);
+
+      expect(report.actions).toMatchObject([
+        { type: "extended", saved: false },
+      ]);
+      expect(saved?.validUntil).toEqual(key.validUntil);
+    });
+  });
+
+  it("rejects stores without list() and bad thresholds", () => {
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const store = { ...new InMemoryMajikAPIStore(), list: undefined };
+
+    expect(
+      () =>
+        new MajikAPIExpiryScanner(
+          new MajikAPIRepository(store as unknown as MajikAPIStore),
+        ),
+    ).toThrow(/list\(\)/);
+    expect(
+      () => new MajikAPIExpiryScanner(repository, { thresholdsDays: [] }),
+    ).toThrow(/thresholdsDays/);
+    expect(
+      () => new MajikAPIExpiryScanner(repository, { thresholdsDays: [0] }),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  LegacySHA256Hasher,
+  MajikAPI,
+  MajikAPIRepository,
+  PepperedKeyHasher,
+} from "../src/index";
+
+const PEPPER_1 = "pepper-one-0123456789abcdef";
+const PEPPER_2 = "pepper-two-0123456789abcdef";
+
+function peppered(currentPepperId: "p1" | "p2", acceptLegacy = true) {
+  return new PepperedKeyHasher({
+    peppers: { p1: PEPPER_1, p2: PEPPER_2 },
+    currentPepperId,
+    acceptLegacy,
+  });
+}
+
+describe("PepperedKeyHasher", () => {
+  it("produces self-describing hashes that name their pepper", () => {
+    const hash = peppered("p1").hash("raw-key");
+    expect(hash.startsWith("v2$hmac-sha256$p1$")).toBe(true);
+    expect(hash).not.toContain("raw-key");
+  });
+
+  it("verifies hashes made with a retired pepper and asks for a rehash", () => {
+    const stored = peppered("p1").hash("raw-key");
+    const hasher = peppered("p2");
+
+    expect(hasher.verify("raw-key", stored)).toEqual({
+      valid: true,
+      needsRehash: true,
+    });
+    expect(hasher.verify("other-key", stored).valid).toBe(false);
+    expect(hasher.candidates("raw-key")).toContain(stored);
+  });
+
+  it("accepts legacy SHA-256 hashes only when configured to", () => {
+    const legacy = new LegacySHA256Hasher().hash("raw-key");
+
+    expect(peppered("p1").verify("raw-key", legacy)).toEqual({
+      valid: true,
+      needsRehash: true,
+    });
+    expect(peppered("p1", false).verify("raw-key", legacy).valid).toBe(false);
+  });
+
+  it("verifies the same way asynchronously", async () => {
+    const hasher = peppered("p1");
+    const stored = hasher.hash("raw-key");
+    expect(await hasher.verifyAsync("raw-key", stored)).toEqual(
+      hasher.verify("raw-key", stored),
+    );
+  });
+
+  it("rejects short peppers and an unknown current pepper", () => {
+    expect(
+      () =>
+        new PepperedKeyHasher({
+          peppers: { p1: "short" },
+          currentPepperId: "p1",
+        }),
+    ).toThrow(/at least 16 bytes/);
+    expect(
+      () =>
+        new PepperedKeyHasher({
+          peppers: { p1: PEPPER_1 },
+          currentPepperId: "p9",
+        }),
+    ).toThrow(/currentPepperId/);
+  });
+});
+
+describe("MajikAPIRepository.verify() with rehashing", () => {
+  it("upgrades a legacy hash to the current pepper and saves it", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const key = MajikAPI.create("owner");
+    const rawKey = key.rawApiKey!;
+    await store.save(key.toJSON());
+
+    const repository = new MajikAPIRepository(store, {
+      hasher: peppered("p1"),
+    });
+    const resolved = await repository.verify(rawKey);
+
+    expect(resolved?.id).toBe(key.id);
+    expect(resolved?.apiKey.startsWith("v2$hmac-sha256$p1$")).toBe(true);
+    expect((await store.findById(key.id))?.api_key).toBe(resolved?.apiKey);
+    expect((await repository.verify(rawKey))?.id).toBe(key.id);
+  });
+
+  it("resolves concurrent verifies of a key being upgraded", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const key = MajikAPI.create("owner");
+    const rawKey = key.rawApiKey!;
+    await store.save(key.toJSON());
+
+    const repository = new MajikAPIRepository(store, {
+      hasher: peppered("p1"),
+    });
+    const results = await Promise.all([
+      repository.verify(rawKey),
+      repository.verify(rawKey),
+    ]);
+
+    expect(results.map((resolved) => resolved?.id)).toEqual([key.id, key.id]);
+    expect((await store.findById(key.id))?.version).toBe(2);
+  });
+
+  it("resolves the key when saving the upgrade fails", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const key = MajikAPI.create("owner");
+    const rawKey = key.rawApiKey!;
+    await store.save(key.toJSON());
+    store.patch = async () => {
+      throw new Error("Connection reset.");
+    };
+
+    const repository = new MajikAPIRepository(store, {
+      hasher: peppered("p1"),
+    });
+
+    expect((await repository.verify(rawKey))?.id).toBe(key.id);
+  });
+
+  it("resolves a revoked legacy key without rehashing it", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const key = MajikAPI.create("owner");
+    const rawKey = key.rawApiKey!;
+    key.revoke("compromised");
+    await store.save(key.toJSON());
+
+    const repository = new MajikAPIRepository(store, {
+      hasher: peppered("p1"),
+    });
+    const resolved = await repository.verify(rawKey);
+
+    expect(resolved?.status).toBe("revoked");
+    expect(resolved?.apiKey).toBe(key.apiKey);
+    expect((await store.findById(key.id))?.api_key).toBe(key.apiKey);
+  });
+
+  it("does not rehash a restricted key", () => {
+    const key = MajikAPI.create("owner", undefined, { restricted: true });
+    const loaded = MajikAPI.fromJSON(key.toJSON(), { hasher: peppered("p1") });
+
+    expect(loaded.verifyAndUpgrade(key.rawApiKey!)).toEqual({
+      valid: true,
+      upgraded: false,
+    });
+  });
+});
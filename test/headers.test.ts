@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryRateLimitBackend,
+  InMemoryUsageBackend,
+  MajikAPI,
+  MajikAPIRateLimiter,
+  MajikAPIUsageMeter,
+  buildRateLimitHeaders,
+} from "../src/index";
+
+const NOW = new Date("2026-05-14T12:00:20Z");
+
+function setup(amount = 2) {
+  const clock = () => NOW;
+  const limiter = new MajikAPIRateLimiter(new InMemoryRateLimitBackend(clock), {
+    clock,
+  });
+  const meter = new MajikAPIUsageMeter(new InMemoryUsageBackend(clock), {
+    clock,
+  });
+  const key = MajikAPI.create("owner", undefined, {
+    settings: { rateLimit: { amount, frequency: "minutes" } },
+  });
+  return { limiter, meter, key };
+}
+
+describe("buildRateLimitHeaders()", () => {
+  it("reports the limiter decision in IETF and legacy form", async () => {
+    const { limiter, key } = setup(5);
+    const rateLimit = await limiter.consume(key);
+
+    expect(buildRateLimitHeaders(key, { rateLimit, now: NOW })).toEqual({
+      "RateLimit-Limit": "5",
+      "RateLimit-Remaining": "4",
+      "RateLimit-Reset": "40",
+      "RateLimit-Policy": "5;w=60",
+      "X-RateLimit-Limit": "5",
+      "X-RateLimit-Remaining": "4",
+      "X-RateLimit-Reset": String(Date.parse("2026-05-14T12:01:00Z") / 1000),
+    });
+  });
+
+  it("adds quota headers and a quota policy for periodic quotas", async () => {
+    const { limiter, meter, key } = setup();
+    key.setPeriodicQuota(100, "days");
+    const rateLimit = await limiter.consume(key);
+    const usage = await meter.consume(key, 10);
+
+    const headers = buildRateLimitHeaders(key, { rateLimit, usage, now: NOW });
+
+    expect(headers["RateLimit-Policy"]).toBe(
+      '2;w=60, 100;w=86400;comment="quota"',
+    );
+    expect(headers["X-Quota-Limit"]).toBe("100");
+    expect(headers["X-Quota-Remaining"]).toBe("90");
+    expect(headers["X-Quota-Reset"]).toBe(String(12 * 3600 - 20));
+  });
+
+  it("leaves out quota headers for fixed quotas", async () => {
+    const { meter, key } = setup();
+    key.setFixedQuota(1);
+    const usage = await meter.consume(key);
+
+    expect(buildRateLimitHeaders(key, { usage, now: NOW })).toEqual({});
+  });
+
+  it("sets Retry-After to the longer wait when requests are denied", async () => {
+    const { limiter, meter, key } = setup(1);
+    key.setPeriodicQuota(1, "hours");
+    await limiter.consume(key);
+    await meter.consume(key);
+    const rateLimit = await limiter.consume(key);
+    const usage = await meter.consume(key);
+
+    const headers = buildRateLimitHeaders(key, { rateLimit, usage, now: NOW });
+
+    expect(rateLimit.allowed).toBe(false);
+    expect(usage.allowed).toBe(false);
+    expect(headers["Retry-After"]).toBe(String(60 * 60 - 20));
+  });
+
+  it("emits only the header families asked for", async () => {
+    const { limiter, key } = setup();
+    const rateLimit = await limiter.consume(key);
+
+    const headers = buildRateLimitHeaders(
+      key,
+      { rateLimit, now: NOW },
+      { ietf: false },
+    );
+
+    expect(Object.keys(headers)).toEqual([
+      "X-RateLimit-Limit",
+      "X-RateLimit-Remaining",
+      "X-RateLimit-Reset",
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikAPI,
+  MajikAPIValidationError,
+  findIPOverlaps,
+  formatIP,
+  ipInRange,
+  matchIP,
+  normalizeIPEntry,
+  parseIP,
+  parseIPRange,
+} from "../src/index";
+
+describe("IP parsing", () => {
+  it("parses IPv4 and rejects malformed dotted quads", () => {
+    expect(parseIP("10.0.3.7")).toEqual({
+      version: 4,
+      value: 0x0a000307n,
+      zone: null,
+    });
+    expect(parseIP("256.0.0.1")).toBeNull();
+    expect(parseIP("10.0.0")).toBeNull();
+    expect(parseIP("10.0.0.1/8")).toBeNull();
+  });
+
+  it("parses compressed, mapped and zoned IPv6", () => {
+    expect(parseIP("2001:db8::1")?.value).toBe(
+      parseIP("2001:0db8:0000:0000:0000:0000:0000:0001")?.value,
+    );
+    expect(parseIP("::ffff:192.0.2.1")?.value).toBe(0xffffc0000201n);
+    expect(parseIP("fe80::1%eth0")?.zone).toBe("eth0");
+    expect(parseIP("1::2::3")).toBeNull();
+    expect(parseIP("abcd:efgh::1")).toBeNull();
+  });
+
+  it("writes addresses in RFC 5952 form", () => {
+    expect(formatIP(parseIP("2001:DB8:0:0:1:0:0:1")!)).toBe(
+      "2001:db8::1:0:0:1",
+    );
+    expect(formatIP(parseIP("::ffff:c000:201")!)).toBe("::ffff:192.0.2.1");
+  });
+
+  it("parses ranges and clears host bits", () => {
+    expect(parseIPRange("10.0.3.7/16")).toMatchObject({
+      network: 0x0a000000n,
+      prefix: 16,
+    });
+    expect(parseIPRange("10.0.0.1")?.prefix).toBe(32);
+    expect(parseIPRange("10.0.0.0/33")).toBeNull();
+    expect(parseIPRange("2001:db8::/129")).toBeNull();
+  });
+
+  it("normalises whitelist entries", () => {
+    expect(normalizeIPEntry("10.0.0.5/16")).toBe("10.0.0.0/16");
+    expect(normalizeIPEntry("2001:DB8:0:0::1/128")).toBe("2001:db8::1");
+    expect(() => normalizeIPEntry("not-an-ip")).toThrow(
+      MajikAPIValidationError,
+    );
+  });
+});
+
+describe("IP matching", () => {
+  it("tests containment in CIDR ranges", () => {
+    expect(ipInRange("10.0.3.7", "10.0.0.0/16")).toBe(true);
+    expect(ipInRange("10.1.0.1", "10.0.0.0/16")).toBe(false);
+    expect(ipInRange("2001:db8::42", "2001:db8::/32")).toBe(true);
+    expect(ipInRange("1.2.3.4", "0.0.0.0/0")).toBe(true);
+  });
+
+  it("matches IPv4 clients reported as IPv4-mapped IPv6 and back", () => {
+    expect(ipInRange("::ffff:10.1.2.3", "10.0.0.0/8")).toBe(true);
+    expect(ipInRange("10.1.2.3", "::ffff:10.0.0.0/104")).toBe(true);
+  });
+
+  it("only matches zoned entries for the same zone", () => {
+    expect(ipInRange("fe80::1%eth0", "fe80::/64")).toBe(true);
+    expect(ipInRange("fe80::1%eth0", "fe80::%eth0/64")).toBe(true);
+    expect(ipInRange("fe80::1%eth1", "fe80::%eth0/64")).toBe(false);
+  });
+
+  it("returns the first matching entry and skips invalid ones", () => {
+    expect(matchIP("10.0.3.7", ["bogus", "192.168.0.0/16", "10.0.0.0/8"])).toBe(
+      "10.0.0.0/8",
+    );
+    expect(matchIP("not-an-ip", ["0.0.0.0/0"])).toBeNull();
+  });
+
+  it("finds duplicate and overlapping entries", () => {
+    expect(
+      findIPOverlaps([
+        "10.0.0.0/8",
+        "10.1.0.0/16",
+        "192.0.2.1",
+        "192.0.2.1/32",
+      ]),
+    ).toEqual([
+      { kind: "overlap", entries: ["10.0.0.0/8", "10.1.0.0/16"] },
+      { kind: "duplicate", entries: ["192.0.2.1", "192.0.2.1/32"] },
+    ]);
+  });
+});
+
+describe("IP whitelist", () => {
+  it("stores normalised entries and ignores repeats", () => {
+    const key = MajikAPI.create("owner");
+    key.addIP("10.0.0.5/16");
+    key.addIP("10.0.0.0/16");
+
+    expect(key.ipWhitelist.addresses).toEqual(["10.0.0.0/16"]);
+  });
+
+  it("refuses entries that overlap an existing range", () => {
+    const key = MajikAPI.create("owner");
+    key.addIP("10.0.0.0/8");
+
+    expect(() => key.addIP("10.1.0.0/16")).toThrow(/overlaps/);
+    expect(() => key.setIPWhitelist(["10.0.0.0/8", "10.0.0.1"])).toThrow(
+      MajikAPIValidationError,
+    );
+  });
+
+  it("removes an entry by any spelling of it", () => {
+    const key = MajikAPI.create("owner");
+    key.addIP("2001:db8::1");
+    key.removeIP("2001:DB8:0:0::1");
+
+    expect(key.ipWhitelist.addresses).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import {
+  CachedKeyResolver,
+  InMemoryMajikAPIKeyCache,
+  MajikAPI,
+  MajikAPIRevocationList,
+  type MajikAPIKeyResolver,
+} from "../src/index";
+
+function testClock() {
+  let now = Date.now();
+  return {
+    clock: () => new Date(now),
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+/** A resolver over fixed keys that counts its lookups. */
+function countingSource(...keys: MajikAPI[]) {
+  const source = {
+    lookups: 0,
+    keys,
+    async verify(rawKey: string) {
+      source.lookups += 1;
+      const key = source.keys.find((k) => k.verify(rawKey));
+      return key ? MajikAPI.fromJSON(key.toJSON()) : null;
+    },
+  };
+  return source;
+}
+
+describe("CachedKeyResolver", () => {
+  it("serves repeated lookups from the cache", async () => {
+    const key = MajikAPI.create("owner");
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source);
+
+    const first = await resolver.verify(key.rawApiKey!);
+    const second = await resolver.verify(key.rawApiKey!);
+
+    expect(first?.id).toBe(key.id);
+    expect(second).not.toBe(first);
+    expect(source.lookups).toBe(1);
+    expect(resolver.size).toBe(1);
+  });
+
+  it("does not cache unknown keys", async () => {
+    const source = countingSource();
+    const resolver = new CachedKeyResolver(source);
+
+    expect(await resolver.verify("unknown")).toBeNull();
+    expect(await resolver.verify("unknown")).toBeNull();
+    expect(await resolver.verify("   ")).toBeNull();
+    expect(source.lookups).toBe(2);
+  });
+
+  it("looks the key up again after ttlMs", async () => {
+    const { clock, advance } = testClock();
+    const key = MajikAPI.create("owner");
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source, { ttlMs: 1000, clock });
+
+    await resolver.verify(key.rawApiKey!);
+    advance(1000);
+    await resolver.verify(key.rawApiKey!);
+
+    expect(source.lookups).toBe(2);
+  });
+
+  it("never serves a record past the key's expiry", async () => {
+    const { clock, advance } = testClock();
+    const key = MajikAPI.create("owner");
+    key.setExpiry(new Date(Date.now() + 5000));
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source, {
+      ttlMs: 60_000,
+      staleWhileRevalidateMs: 60_000,
+      clock,
+    });
+
+    await resolver.verify(key.rawApiKey!);
+    advance(10_000);
+    await resolver.verify(key.rawApiKey!);
+
+    expect(source.lookups).toBe(2);
+  });
+
+  it("serves a stale record while one refresh runs", async () => {
+    const { clock, advance } = testClock();
+    const key = MajikAPI.create("owner");
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source, {
+      ttlMs: 1000,
+      staleWhileRevalidateMs: 5000,
+      clock,
+    });
+    await resolver.verify(key.rawApiKey!);
+    key.rename("Renamed");
+    advance(2000);
+
+    const stale = await resolver.verify(key.rawApiKey!);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const fresh = await resolver.verify(key.rawApiKey!);
+
+    expect(stale?.name).not.toBe("Renamed");
+    expect(fresh?.name).toBe("Renamed");
+    expect(source.lookups).toBe(2);
+  });
+
+  it("coalesces concurrent misses for the same key", async () => {
+    const key = MajikAPI.create("owner");
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source);
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() => resolver.verify(key.rawApiKey!)),
+    );
+
+    expect(results.every((k) => k?.id === key.id)).toBe(true);
+    expect(source.lookups).toBe(1);
+  });
+
+  it("drops a key's records on invalidate()", async () => {
+    const key = MajikAPI.create("owner");
+    const shared = new InMemoryMajikAPIKeyCache();
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source, { shared });
+    await resolver.verify(key.rawApiKey!);
+
+    await resolver.invalidate(key.id);
+
+    expect(resolver.size).toBe(0);
+    expect(shared.size).toBe(0);
+    await resolver.verify(key.rawApiKey!);
+    expect(source.lookups).toBe(2);
+  });
+
+  it("invalidates keys changed in this process while watching", async () => {
+    const key = MajikAPI.create("owner");
+    const resolver = new CachedKeyResolver(countingSource(key));
+    const stop = resolver.watch();
+    try {
+      await resolver.verify(key.rawApiKey!);
+      key.restrict();
+      await Promise.resolve();
+      expect(resolver.size).toBe(0);
+    } finally {
+      stop();
+    }
+  });
+
+  it("shares records between resolvers through the shared cache", async () => {
+    const key = MajikAPI.create("owner");
+    const shared = new InMemoryMajikAPIKeyCache();
+    const source = countingSource(key);
+    await new CachedKeyResolver(source, { shared }).verify(key.rawApiKey!);
+
+    const other = new CachedKeyResolver(source, { shared });
+    expect((await other.verify(key.rawApiKey!))?.id).toBe(key.id);
+    expect(source.lookups).toBe(1);
+  });
+
+  it("skips cached records the revocation list revokes", async () => {
+    const key = MajikAPI.create("owner");
+    const revocations = new MajikAPIRevocationList();
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source, { revocations });
+    await resolver.verify(key.rawApiKey!);
+
+    revocations.revoke(key);
+    await resolver.verify(key.rawApiKey!);
+
+    expect(source.lookups).toBe(2);
+  });
+
+  it("evicts the least recently used record", async () => {
+    const first = MajikAPI.create("owner");
+    const second = MajikAPI.create("owner");
+    const source = countingSource(first, second);
+    const resolver = new CachedKeyResolver(source, { maxEntries: 1 });
+    await resolver.verify(first.rawApiKey!);
+    await resolver.verify(second.rawApiKey!);
+
+    expect(resolver.size).toBe(1);
+    await resolver.verify(first.rawApiKey!);
+    expect(source.lookups).toBe(3);
+    await resolver.invalidate(first.id);
+    expect(resolver.size).toBe(0);
+  });
+
+  it("forgets a key the source no longer finds", async () => {
+    const { clock, advance } = testClock();
+    const key = MajikAPI.create("owner");
+    const source = countingSource(key);
+    const resolver = new CachedKeyResolver(source, { ttlMs: 1000, clock });
+    await resolver.verify(key.rawApiKey!);
+
+    source.keys = [];
+    advance(1000);
+
+    expect(await resolver.verify(key.rawApiKey!)).toBeNull();
+    expect(resolver.size).toBe(0);
+  });
+
+  it("rejects a source without verify() and bad options", () => {
+    const source: MajikAPIKeyResolver = { verify: async () => null };
+    expect(
+      () => new CachedKeyResolver({} as unknown as MajikAPIKeyResolver),
+    ).toThrow(TypeError);
+    expect(() => new CachedKeyResolver(source, { ttlMs: 0 })).toThrow();
+    expect(() => new CachedKeyResolver(source, { maxEntries: 1.5 })).toThrow();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPINegativeCache,
+  MajikAPIRepository,
+  generateAPIKey,
+  hasAPIKeyShape,
+  parseAPIKey,
+} from "../src/index";
+
+/** Change the last character of the checksum. */
+function corrupt(rawKey: string): string {
+  return rawKey.slice(0, -1) + (rawKey.endsWith("A") ? "B" : "A");
+}
+
+describe("key format", () => {
+  it("generates keys that parse back", () => {
+    const { rawKey, keyId } = generateAPIKey({
+      prefix: "acme",
+      environment: "test",
+    });
+    expect(rawKey.startsWith(`acme_test_${keyId}_`)).toBe(true);
+    expect(parseAPIKey(rawKey)?.keyId).toBe(keyId);
+  });
+
+  it("rejects a bad checksum", () => {
+    const { rawKey } = generateAPIKey();
+    expect(parseAPIKey(corrupt(rawKey))).toBeNull();
+    expect(hasAPIKeyShape(corrupt(rawKey))).toBe(true);
+  });
+
+  it("does not treat other keys as generated ones", () => {
+    expect(hasAPIKeyShape("3b241101-e2bb-4255-8caf-4136c566a962")).toBe(false);
+    expect(hasAPIKeyShape("my-custom-key")).toBe(false);
+    expect(hasAPIKeyShape("acme_prod_key_abc_def", { prefix: "mjk" })).toBe(
+      false,
+    );
+  });
+
+  it("lets an instance reject a bad checksum without hashing", () => {
+    const key = MajikAPI.create("owner");
+    expect(key.tryVerify(corrupt(key.rawApiKey!))).toEqual({
+      ok: false,
+      reason: "malformed_key",
+    });
+  });
+
+  describe("MajikAPIRepository.verify()", () => {
+    async function setup() {
+      const store = new InMemoryMajikAPIStore();
+      const lookups: string[] = [];
+      const findByHash = store.findByHash.bind(store);
+      store.findByHash = (hash) => {
+        lookups.push(hash);
+        return findByHash(hash);
+      };
+      const negativeCache = new MajikAPINegativeCache();
+      const repository = new MajikAPIRepository(store, { negativeCache });
+      return { repository, lookups, negativeCache };
+    }
+
+    it("rejects a bad checksum before any lookup", async () => {
+      const { repository, lookups, negativeCache } = await setup();
+      const key = MajikAPI.create("owner");
+      await repository.save(key);
+
+      expect(await repository.verify(corrupt(key.rawApiKey!))).toBeNull();
+      expect(lookups).toEqual([]);
+      expect(negativeCache.size).toBe(0);
+    });
+
+    it("still resolves well-formed and custom keys", async () => {
+      const { repository, lookups } = await setup();
+      const generated = MajikAPI.create("owner");
+      const custom = MajikAPI.create(
+        "owner",
+        "3b241101-e2bb-4255-8caf-4136c566a962",
+      );
+      await repository.save(generated);
+      await repository.save(custom);
+
+      expect((await repository.verify(generated.rawApiKey!))?.id).toBe(
+        generated.id,
+      );
+      expect(
+        (await repository.verify("3b241101-e2bb-4255-8caf-4136c566a962"))?.id,
+      ).toBe(custom.id);
+      expect(lookups).toHaveLength(2);
+    });
+
+    it("resolves custom keys that look like generated ones", async () => {
+      const { repository } = await setup();
+      const custom = MajikAPI.create("owner", "acme_prod_key_abc_def");
+      await repository.save(custom);
+
+      expect((await repository.verify("acme_prod_key_abc_def"))?.id).toBe(
+        custom.id,
+      );
+    });
+  });
+});
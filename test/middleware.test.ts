@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryRateLimitBackend,
+  MajikAPI,
+  MajikAPIRateLimiter,
+  authenticateRequest,
+  type MajikAPIRequestInfo,
+} from "../src/index";
+
+function request(headers: Record<string, string>): MajikAPIRequestInfo {
+  return {
+    header: (name) => headers[name.toLowerCase()] ?? null,
+    method: "GET",
+    url: "/v1/projects",
+    ip: "203.0.113.7",
+  };
+}
+
+describe("authenticateRequest()", () => {
+  const key = MajikAPI.create("owner", undefined, {
+    settings: { rateLimit: { amount: 1, frequency: "minutes" } },
+  });
+  const rawKey = key.rawApiKey!;
+  const resolver = {
+    verify: async (raw: string) => (raw === rawKey ? key : null),
+  };
+
+  it("rejects a missing or unknown key with 401", async () => {
+    const missing = await authenticateRequest(request({}), { resolver });
+    const unknown = await authenticateRequest(
+      request({ "x-api-key": "nope" }),
+      { resolver },
+    );
+
+    expect(missing).toMatchObject({ ok: false, status: 401 });
+    expect(unknown).toMatchObject({ ok: false, error: "invalid_api_key" });
+    expect(unknown.headers["WWW-Authenticate"]).toContain("invalid_token");
+  });
+
+  it("accepts a bearer token", async () => {
+    const result = await authenticateRequest(
+      request({ authorization: `Bearer ${rawKey}` }),
+      { resolver },
+    );
+    expect(result.ok).toBe(true);
+  });
+
+  it("reports resets against the limiter's clock", async () => {
+    const clock = () => new Date("2020-01-01T00:00:45Z");
+    const rateLimiter = new MajikAPIRateLimiter(
+      new InMemoryRateLimitBackend(clock),
+      { clock },
+    );
+    const options = { resolver, rateLimiter };
+
+    const allowed = await authenticateRequest(
+      request({ "x-api-key": rawKey }),
+      options,
+    );
+    const denied = await authenticateRequest(
+      request({ "x-api-key": rawKey }),
+      options,
+    );
+
+    expect(allowed.headers["RateLimit-Reset"]).toBe("15");
+    expect(denied).toMatchObject({ ok: false, status: 429 });
+    expect(denied.headers["Retry-After"]).toBe("15");
+  });
+});
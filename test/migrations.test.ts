@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikAPI,
+  MajikAPIMigrationRegistry,
+  MajikAPIValidationError,
+  defaultMigrations,
+} from "../src/index";
+import { CURRENT_SCHEMA_VERSION } from "../src/constants";
+
+/** A row as written before schema_version existed. */
+function v0Row() {
+  const key = MajikAPI.create("owner", "legacy-key");
+  return {
+    id: key.id,
+    owner_id: "owner",
+    name: "Legacy",
+    api_key: key.apiKey,
+    timestamp: "2024-01-01T00:00:00.000Z",
+    restricted: false,
+    valid_until: null as string | null,
+    is_valid: true,
+    settings: {
+      rateLimit: { amount: 100, frequency: "minutes" },
+      quota: null,
+      ipWhitelist: { enabled: false, addresses: [] },
+      domainWhitelist: { enabled: false, domains: [] },
+    },
+  };
+}
+
+describe("schema migrations", () => {
+  it("upgrades a v0 row step by step to the current schema", () => {
+    const row = v0Row();
+
+    const { data, from, to, applied } = MajikAPI.migrate(row);
+
+    expect(from).toBe(0);
+    expect(to).toBe(CURRENT_SCHEMA_VERSION);
+    expect(applied.map((m) => `${m.from}→${m.to}`)).toEqual([
+      "0→1",
+      "1→2",
+      "2→3",
+      "3→4",
+      "4→5",
+    ]);
+    expect(data).toMatchObject({
+      schema_version: 5,
+      previous_keys: [],
+      parent_id: null,
+      policy_id: null,
+      overrides: {},
+      revoked_at: null,
+      valid_from: null,
+      settings: { scopes: [], rateLimits: [], timeWindows: [], metadata: {} },
+    });
+    expect(row).not.toHaveProperty("schema_version");
+  });
+
+  it("turns the old epoch revocation into revoked_at", () => {
+    const row = { ...v0Row(), valid_until: new Date(0).toISOString() };
+
+    const { data } = MajikAPI.migrate(row);
+
+    expect(data).toMatchObject({
+      valid_until: null,
+      revoked_at: new Date(0).toISOString(),
+      revocation_reason: "unspecified",
+    });
+  });
+
+  it("loads legacy rows and reports the migrated fields as changes", () => {
+    const key = MajikAPI.fromJSON(v0Row() as never);
+
+    expect(key.verify("legacy-key")).toBe(true);
+    expect(key.scopes).toEqual([]);
+    expect(key.getChanges()).toHaveProperty("schema_version", 5);
+  });
+
+  it("leaves current rows alone", () => {
+    const row = MajikAPI.create("owner").toJSON();
+    expect(MajikAPI.migrate(row).applied).toEqual([]);
+  });
+
+  it("rejects rows from a newer library", () => {
+    const row = { ...v0Row(), schema_version: CURRENT_SCHEMA_VERSION + 1 };
+
+    try {
+      MajikAPI.migrate(row);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MajikAPIValidationError);
+      expect((error as MajikAPIValidationError).issues[0]).toMatchObject({
+        path: "schema_version",
+        code: "out_of_range",
+      });
+    }
+  });
+
+  it("rejects malformed payloads", () => {
+    expect(() => MajikAPI.migrate("row")).toThrow(MajikAPIValidationError);
+    expect(() => MajikAPI.migrate({ schema_version: -1 })).toThrow(
+      MajikAPIValidationError,
+    );
+  });
+
+  describe("MajikAPIMigrationRegistry", () => {
+    it("lists the built-in migrations in order", () => {
+      expect(defaultMigrations.list().map((m) => m.from)).toEqual([
+        0, 1, 2, 3, 4,
+      ]);
+    });
+
+    it("runs custom migrations and stops at a gap", () => {
+      const registry = new MajikAPIMigrationRegistry([
+        { from: 0, description: "Add a", migrate: (d) => ({ ...d, a: 1 }) },
+      ]);
+
+      expect(registry.run({}, 1).data).toMatchObject({
+        a: 1,
+        schema_version: 1,
+      });
+      expect(() => registry.run({}, 2)).toThrow(/No migration registered/);
+    });
+
+    it("refuses duplicate and malformed migrations", () => {
+      const registry = new MajikAPIMigrationRegistry();
+      registry.register({ from: 0, description: "", migrate: (d) => d });
+
+      expect(() =>
+        registry.register({ from: 0, description: "", migrate: (d) => d }),
+      ).toThrow(MajikAPIValidationError);
+      expect(() =>
+        registry.register({ from: 1.5, description: "", migrate: (d) => d }),
+      ).toThrow(MajikAPIValidationError);
+    });
+  });
+});
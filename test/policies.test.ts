@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikAPI,
+  MajikAPIPolicyRegistry,
+  MajikAPIValidationError,
+  explainSettings,
+  resolveSettings,
+} from "../src/index";
+
+function registry() {
+  return new MajikAPIPolicyRegistry([
+    {
+      id: "free",
+      settings: {
+        rateLimit: { amount: 60, frequency: "minutes" },
+        quota: null,
+      },
+    },
+    {
+      id: "pro",
+      settings: {
+        rateLimit: { amount: 600, frequency: "minutes" },
+        scopes: ["orders:read", "orders:write"],
+      },
+    },
+  ]);
+}
+
+describe("MajikAPIPolicyRegistry", () => {
+  it("registers, replaces and removes policies", () => {
+    const policies = registry();
+    expect(policies.list().map((p) => p.id)).toEqual(["free", "pro"]);
+
+    policies.register({
+      id: "free",
+      settings: { rateLimit: { amount: 30, frequency: "minutes" } },
+    });
+    expect(policies.size).toBe(2);
+    expect(policies.get("free")?.settings.rateLimit?.amount).toBe(30);
+
+    expect(policies.remove("free")).toBe(true);
+    expect(policies.has("free")).toBe(false);
+    expect(policies.get("free")).toBeNull();
+  });
+
+  it("hands out copies", () => {
+    const policies = registry();
+    policies.get("pro")!.settings.scopes!.push("admin");
+    expect(policies.get("pro")?.settings.scopes).toEqual([
+      "orders:read",
+      "orders:write",
+    ]);
+  });
+
+  it("rejects invalid policy settings", () => {
+    expect(() =>
+      registry().register({
+        id: "broken",
+        settings: { rateLimit: { amount: 0, frequency: "minutes" } },
+      }),
+    ).toThrow(MajikAPIValidationError);
+  });
+});
+
+describe("policy-backed keys", () => {
+  it("resolve their settings from the policy", () => {
+    const key = MajikAPI.create("owner", undefined, {
+      policy: "pro",
+      policies: registry(),
+    });
+
+    expect(key.policyId).toBe("pro");
+    expect(key.rateLimit).toEqual({ amount: 600, frequency: "minutes" });
+    expect(key.scopes).toEqual(["orders:read", "orders:write"]);
+  });
+
+  it("follow changes to the policy", () => {
+    const policies = registry();
+    const key = MajikAPI.create("owner", undefined, {
+      policy: "free",
+      policies,
+    });
+
+    policies.register({
+      id: "free",
+      settings: { rateLimit: { amount: 10, frequency: "minutes" } },
+    });
+
+    expect(key.rateLimit.amount).toBe(10);
+  });
+
+  it("store setter calls as overrides, which clearOverride drops", () => {
+    const key = MajikAPI.create("owner", undefined, {
+      policy: "pro",
+      policies: registry(),
+    });
+
+    key.setRateLimit(100, "minutes");
+    expect(key.overrides).toEqual({
+      rateLimit: { amount: 100, frequency: "minutes" },
+    });
+    expect(key.rateLimit.amount).toBe(100);
+
+    key.clearOverride("rateLimit");
+    expect(key.overrides).toEqual({});
+    expect(key.rateLimit.amount).toBe(600);
+  });
+
+  it("keep overrides when switching policies", () => {
+    const key = MajikAPI.create("owner", undefined, {
+      policy: "free",
+      policies: registry(),
+    });
+    key.setRateLimit(5, "minutes");
+
+    key.setPolicy("pro");
+
+    expect(key.rateLimit.amount).toBe(5);
+    expect(key.scopes).toEqual(["orders:read", "orders:write"]);
+  });
+
+  it("keep their effective settings when leaving the policy", () => {
+    const key = MajikAPI.create("owner", undefined, {
+      policy: "pro",
+      policies: registry(),
+    });
+
+    key.setPolicy(null);
+
+    expect(key.policyId).toBeNull();
+    expect(key.overrides).toEqual({});
+    expect(key.rateLimit.amount).toBe(600);
+    expect(key.scopes).toEqual(["orders:read", "orders:write"]);
+  });
+
+  it("refuse unknown policies and missing registries", () => {
+    const key = MajikAPI.create("owner", undefined, { policies: registry() });
+    expect(() => key.setPolicy("enterprise")).toThrow(
+      expect.objectContaining({
+        issues: [expect.objectContaining({ code: "unknown_policy" })],
+      }),
+    );
+    expect(() => MajikAPI.create("owner").setPolicy("pro")).toThrow(
+      MajikAPIValidationError,
+    );
+  });
+
+  it("explain where each setting came from", () => {
+    const key = MajikAPI.create("owner", undefined, {
+      policy: "pro",
+      policies: registry(),
+    });
+    key.setPeriodicQuota(1000, "months");
+
+    const sources = Object.fromEntries(
+      key.explainSettings().map(({ field, source }) => [field, source]),
+    );
+
+    expect(sources).toMatchObject({
+      rateLimit: "policy",
+      scopes: "policy",
+      quota: "override",
+      ipWhitelist: "key",
+    });
+  });
+});
+
+describe("resolveSettings", () => {
+  it("resolves a stored row against a registry", () => {
+    const policies = registry();
+    const row = MajikAPI.create("owner", undefined, {
+      policy: "free",
+      policies,
+    }).toJSON();
+    row.overrides = { scopes: ["reports:read"] };
+
+    const settings = resolveSettings(row, policies);
+
+    expect(settings.rateLimit.amount).toBe(60);
+    expect(settings.scopes).toEqual(["reports:read"]);
+  });
+
+  it("falls back to the key's own settings without the policy", () => {
+    const row = MajikAPI.create("owner", undefined, {
+      policy: "pro",
+      policies: registry(),
+    }).toJSON();
+
+    expect(resolveSettings(row).rateLimit).toEqual(row.settings.rateLimit);
+    expect(explainSettings(row).every(({ source }) => source === "key")).toBe(
+      true,
+    );
+  });
+});
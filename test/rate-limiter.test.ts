@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryRateLimitBackend,
+  MajikAPI,
+  MajikAPIRateLimiter,
+  type RateLimitAlgorithm,
+  type RateLimitCounterBackend,
+} from "../src/index";
+
+const ALGORITHMS: RateLimitAlgorithm[] = [
+  "fixed_window",
+  "sliding_window_log",
+  "sliding_window_counter",
+  "token_bucket",
+];
+
+function fixedClock(iso = "2026-01-01T00:00:00Z") {
+  let now = new Date(iso).getTime();
+  return {
+    clock: () => new Date(now),
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+/** A backend whose every call resolves after a short, random delay. */
+function slowBackend(inner: RateLimitCounterBackend): RateLimitCounterBackend {
+  const delay = () =>
+    new Promise((resolve) => setTimeout(resolve, Math.random() * 3));
+  return {
+    get: async (key) => (await delay(), inner.get(key)),
+    set: async (key, value, ttlMs) => (
+      await delay(),
+      inner.set(key, value, ttlMs)
+    ),
+    increment: async (key, by, ttlMs) => (
+      await delay(),
+      inner.increment(key, by, ttlMs)
+    ),
+    delete: async (key) => (await delay(), inner.delete(key)),
+  };
+}
+
+describe("MajikAPIRateLimiter", () => {
+  it.each(ALGORITHMS)("%s allows up to the limit", async (algorithm) => {
+    const { clock } = fixedClock();
+    const limiter = new MajikAPIRateLimiter(
+      new InMemoryRateLimitBackend(clock),
+      { algorithm, clock },
+    );
+    const key = MajikAPI.create("owner", undefined, {
+      settings: { rateLimit: { amount: 3, frequency: "minutes" } },
+    });
+
+    const decisions = [];
+    for (let i = 0; i < 4; i++) decisions.push(await limiter.consume(key));
+
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, true, false]);
+    expect(decisions[3].retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it("frees capacity once the window has passed", async () => {
+    const { clock, advance } = fixedClock();
+    const limiter = new MajikAPIRateLimiter(
+      new InMemoryRateLimitBackend(clock),
+      { clock },
+    );
+    const key = MajikAPI.create("owner", undefined, {
+      settings: { rateLimit: { amount: 1, frequency: "minutes" } },
+    });
+
+    expect((await limiter.consume(key)).allowed).toBe(true);
+    expect((await limiter.consume(key)).allowed).toBe(false);
+    advance(60_000);
+    expect((await limiter.consume(key)).allowed).toBe(true);
+  });
+
+  it("does not consume other rules for a denied request", async () => {
+    const { clock } = fixedClock();
+    const limiter = new MajikAPIRateLimiter(
+      new InMemoryRateLimitBackend(clock),
+      { clock },
+    );
+    const key = MajikAPI.create("owner", undefined, {
+      settings: {
+        rateLimit: { amount: 10, frequency: "minutes" },
+        rateLimits: [{ amount: 1, frequency: "minutes", method: "POST" }],
+      },
+    });
+
+    await limiter.consume(key, 1, { method: "POST" });
+    const denied = await limiter.consume(key, 1, { method: "POST" });
+    const base = await limiter.consume(key, 1, { method: "GET" });
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.rule.method).toBe("POST");
+    expect(base.remaining).toBe(8);
+  });
+
+  it("reports a denial when another process fills a rule mid-request", async () => {
+    const { clock } = fixedClock();
+    const inner = new InMemoryRateLimitBackend(clock);
+    let interfered = false;
+    const backend: RateLimitCounterBackend = {
+      get: (key) => inner.get(key),
+      set: (key, value, ttlMs) => inner.set(key, value, ttlMs),
+      delete: (key) => inner.delete(key),
+      async increment(key, by, ttlMs) {
+        // Another process takes the base rule's last unit between the
+        // check and the commit.
+        if (!interfered && !key.includes("/")) {
+          interfered = true;
+          await inner.increment(key, 1, ttlMs);
+        }
+        return inner.increment(key, by, ttlMs);
+      },
+    };
+    const limiter = new MajikAPIRateLimiter(backend, { clock });
+    const key = MajikAPI.create("owner", undefined, {
+      settings: {
+        rateLimit: { amount: 1, frequency: "minutes" },
+        rateLimits: [{ amount: 1, frequency: "hours" }],
+      },
+    });
+
+    const decision = await limiter.consume(key);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule.frequency).toBe("minutes");
+  });
+
+  it.each(ALGORITHMS)(
+    "%s never exceeds a limit under concurrent requests",
+    async (algorithm) => {
+      const { clock } = fixedClock();
+      const limiter = new MajikAPIRateLimiter(
+        slowBackend(new InMemoryRateLimitBackend(clock)),
+        { algorithm, clock },
+      );
+      const key = MajikAPI.create("owner", undefined, {
+        settings: {
+          rateLimit: { amount: 5, frequency: "minutes" },
+          rateLimits: [{ amount: 3, frequency: "minutes" }],
+        },
+      });
+
+      const decisions = await Promise.all(
+        Array.from({ length: 20 }, () => limiter.consume(key)),
+      );
+
+      expect(decisions.filter((d) => d.allowed)).toHaveLength(3);
+    },
+  );
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPINegativeCache,
+  MajikAPIRepository,
+  MajikAPIRevocationList,
+  authenticateRequest,
+  authorize,
+  type MajikAPIRequestInfo,
+} from "../src/index";
+
+const HOUR = 60 * 60 * 1000;
+
+function testClock(iso = "2026-01-01T00:00:00Z") {
+  let now = new Date(iso).getTime();
+  return {
+    clock: () => new Date(now),
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe("MajikAPIRevocationList", () => {
+  it("matches a revoked key by id and by hash", () => {
+    const list = new MajikAPIRevocationList();
+    const key = MajikAPI.create("owner");
+    key.revoke("compromised");
+
+    const entry = list.revoke(key);
+
+    expect(entry).toMatchObject({ seq: 1, type: "revoked", id: key.id });
+    expect(list.has(key.id)).toBe(true);
+    expect(list.has(key.apiKey)).toBe(true);
+    expect(list.check(MajikAPI.create("owner").toJSON())).toBeNull();
+  });
+
+  it("matches retired hashes only once they are retired", () => {
+    const { clock, advance } = testClock();
+    const list = new MajikAPIRevocationList({ clock });
+
+    list.retire("key-1", ["old-hash"], new Date(clock().getTime() + HOUR));
+
+    expect(list.has("old-hash")).toBe(false);
+    expect(list.has("key-1")).toBe(false);
+    advance(HOUR);
+    expect(list.has("old-hash")).toBe(true);
+  });
+
+  it("drops entries after their TTL", () => {
+    const { clock, advance } = testClock();
+    const list = new MajikAPIRevocationList({ ttlMs: HOUR, clock });
+    list.retire("key-1", ["old-hash"]);
+
+    advance(HOUR);
+
+    expect(list.size).toBe(0);
+    expect(list.has("old-hash")).toBe(false);
+  });
+
+  describe("sync", () => {
+    it("replicates incrementally", async () => {
+      const source = new MajikAPIRevocationList();
+      const replica = new MajikAPIRevocationList();
+      source.retire("key-1", ["hash-1"]);
+      await replica.sync(async (since) => source.changesSince(since));
+
+      source.retire("key-2", ["hash-2"]);
+      const delta = source.changesSince(replica.sequence);
+      replica.apply(delta);
+
+      expect(delta).toMatchObject({ from: 1, to: 2, reset: false });
+      expect(delta.entries).toHaveLength(1);
+      expect(replica.sequence).toBe(2);
+      expect(replica.has("hash-1") && replica.has("hash-2")).toBe(true);
+    });
+
+    it("resets a replica that missed pruned entries", () => {
+      const { clock, advance } = testClock();
+      const source = new MajikAPIRevocationList({ ttlMs: HOUR, clock });
+      source.retire("key-1", ["hash-1"]);
+      advance(HOUR);
+      source.retire("key-2", ["hash-2"]);
+
+      const delta = source.changesSince(0);
+      const replica = new MajikAPIRevocationList({ ttlMs: HOUR, clock });
+      replica.apply(delta);
+
+      expect(delta.reset).toBe(true);
+      expect(replica.has("hash-2")).toBe(true);
+      expect(replica.sequence).toBe(2);
+    });
+
+    it("refuses a delta that skips entries", () => {
+      const replica = new MajikAPIRevocationList();
+      expect(() =>
+        replica.apply({ from: 5, to: 6, reset: false, entries: [] }),
+      ).toThrow(/changesSince\(0\)/);
+    });
+  });
+
+  describe("with a repository", () => {
+    it("records revoked and deleted keys and retired hashes on save", async () => {
+      const revocations = new MajikAPIRevocationList();
+      const repository = new MajikAPIRepository(new InMemoryMajikAPIStore(), {
+        revocations,
+      });
+      const revoked = MajikAPI.create("owner");
+      const rotated = MajikAPI.create("owner");
+      const deleted = MajikAPI.create("owner");
+      for (const key of [revoked, rotated, deleted]) await repository.save(key);
+      const oldHash = rotated.apiKey;
+
+      revoked.revoke("compromised");
+      await repository.save(revoked);
+      rotated.rotate();
+      await repository.save(rotated);
+      await repository.delete(deleted.id);
+
+      expect(revocations.has(revoked.id)).toBe(true);
+      expect(revocations.has(oldHash)).toBe(true);
+      expect(revocations.has(rotated.apiKey)).toBe(false);
+      expect(revocations.has(deleted.id)).toBe(true);
+    });
+
+    it("resolves null for a row the list revokes", async () => {
+      const store = new InMemoryMajikAPIStore();
+      const key = MajikAPI.create("owner");
+      await store.save(key.toJSON());
+      const revocations = new MajikAPIRevocationList();
+      revocations.revoke(key);
+
+      const repository = new MajikAPIRepository(store, { revocations });
+      expect(await repository.verify(key.rawApiKey!)).toBeNull();
+    });
+  });
+
+  describe("where the key is checked", () => {
+    const key = MajikAPI.create("owner");
+    const rawKey = key.rawApiKey!;
+    const replica = new MajikAPIRevocationList();
+    replica.revoke(key);
+
+    it("denies in authorize()", () => {
+      expect(authorize(key.toJSON(), {}, null, replica).reason).toBe("revoked");
+      expect(authorize(key.toJSON(), { revocations: replica }).reason).toBe(
+        "revoked",
+      );
+      expect(authorize(key.toJSON()).allowed).toBe(true);
+    });
+
+    it("denies in key.authorize()", () => {
+      expect(key.authorize({ revocations: replica }).reason).toBe("revoked");
+    });
+
+    it("rejects in the middleware with any resolver", async () => {
+      const request: MajikAPIRequestInfo = {
+        header: (name) => (name === "x-api-key" ? rawKey : null),
+        method: "GET",
+        url: "/",
+        ip: null,
+      };
+      const result = await authenticateRequest(request, {
+        resolver: { verify: async () => key },
+        revocations: replica,
+      });
+
+      expect(result).toMatchObject({
+        ok: false,
+        status: 401,
+        error: "revoked",
+      });
+    });
+  });
+});
+
+describe("MajikAPINegativeCache", () => {
+  it("remembers misses until the TTL passes", () => {
+    const { clock, advance } = testClock();
+    const cache = new MajikAPINegativeCache({ ttlMs: 1000, clock });
+    cache.add("hash");
+
+    expect(cache.has("hash")).toBe(true);
+    advance(1000);
+    expect(cache.has("hash")).toBe(false);
+  });
+
+  it("evicts the oldest entries beyond maxEntries", () => {
+    const cache = new MajikAPINegativeCache({ maxEntries: 2 });
+    cache.add("a");
+    cache.add("b");
+    cache.add("c");
+
+    expect(cache.size).toBe(2);
+    expect(cache.has("a")).toBe(false);
+  });
+
+  it("spares the store repeated lookups and forgets saved keys", async () => {
+    const store = new InMemoryMajikAPIStore();
+    let lookups = 0;
+    const findByHash = store.findByHash.bind(store);
+    store.findByHash = (hash) => {
+      lookups += 1;
+      return findByHash(hash);
+    };
+    const negativeCache = new MajikAPINegativeCache();
+    const repository = new MajikAPIRepository(store, { negativeCache });
+    const key = MajikAPI.create("owner", "custom-key");
+
+    await repository.verify("custom-key");
+    await repository.verify("custom-key");
+    expect(lookups).toBe(1);
+
+    await repository.save(key);
+    expect((await repository.verify("custom-key"))?.id).toBe(key.id);
+  });
+});
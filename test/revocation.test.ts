@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPIInactiveKeyError,
+  MajikAPIRepository,
+  authorize,
+} from "../src/index";
+
+describe("revocation", () => {
+  it("records who revoked the key, when and why", () => {
+    const clock = () => new Date("2026-05-01T12:00:00Z");
+    const key = MajikAPI.create("owner", undefined, {
+      config: { clock },
+      actor: "admin:7",
+    });
+
+    key.revoke("compromised");
+
+    expect(key.status).toBe("revoked");
+    expect(key.revocation).toEqual({
+      revokedAt: new Date("2026-05-01T12:00:00Z"),
+      revokedBy: "admin:7",
+      reason: "compromised",
+    });
+    expect(key.toJSON()).toMatchObject({
+      revoked_at: "2026-05-01T12:00:00.000Z",
+      revocation_reason: "compromised",
+    });
+  });
+
+  it("cannot be undone or changed", () => {
+    const key = MajikAPI.create("owner");
+    key.revoke("owner_request");
+
+    expect(() => key.unrestrict()).toThrow(MajikAPIInactiveKeyError);
+    expect(() => key.setExpiry(null)).toThrow(MajikAPIInactiveKeyError);
+    expect(() => key.rotate()).toThrow(MajikAPIInactiveKeyError);
+    expect(() => key.revoke("policy")).toThrow(MajikAPIInactiveKeyError);
+    expect(key.revocation?.reason).toBe("owner_request");
+  });
+
+  it("survives a round trip through JSON", () => {
+    const key = MajikAPI.create("owner");
+    key.revoke("superseded", "system:rotation");
+    const loaded = MajikAPI.fromJSON(key.toJSON());
+
+    expect(loaded.isRevoked()).toBe(true);
+    expect(loaded.revocation?.revokedBy).toBe("system:rotation");
+    expect(loaded.authorize().reason).toBe("revoked");
+  });
+
+  it("is denied by the standalone authorize()", () => {
+    const key = MajikAPI.create("owner");
+    key.revoke();
+    expect(authorize(key.toJSON()).reason).toBe("revoked");
+  });
+
+  it("still verifies, so callers can tell revoked from unknown", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const repository = new MajikAPIRepository(store);
+    const key = MajikAPI.create("owner");
+    const rawKey = key.rawApiKey!;
+    key.revoke("compromised");
+    await repository.save(key);
+
+    const resolved = await repository.verify(rawKey);
+    expect(resolved?.status).toBe("revoked");
+    expect(resolved?.isActive()).toBe(false);
+  });
+
+  it("rejects an unknown reason", () => {
+    const key = MajikAPI.create("owner");
+    expect(() => key.revoke("bored" as "policy")).toThrow(/reason/);
+    expect(key.isRevoked()).toBe(false);
+  });
+});
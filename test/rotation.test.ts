@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPIRepository,
+  createMajikAPI,
+} from "../src/index";
+
+const HOUR = 60 * 60 * 1000;
+
+function setup() {
+  let now = new Date("2026-01-01T00:00:00Z").getTime();
+  const majik = createMajikAPI({ clock: () => new Date(now) });
+  return {
+    majik,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe("rotate()", () => {
+  it("invalidates the old key immediately by default", () => {
+    const { majik } = setup();
+    const key = majik.create("owner");
+    const oldKey = key.rawApiKey!;
+
+    key.rotate();
+
+    expect(key.verify(oldKey)).toBe(false);
+    expect(key.verify(key.rawApiKey!)).toBe(true);
+    expect(key.previousKeys).toEqual([]);
+  });
+
+  it("keeps the old key valid for the grace period", () => {
+    const { majik, advance } = setup();
+    const key = majik.create("owner");
+    const oldKey = key.rawApiKey!;
+
+    key.rotate(undefined, { gracePeriodMs: HOUR });
+
+    expect(key.tryVerify(oldKey)).toMatchObject({
+      ok: true,
+      matched: "previous",
+    });
+    expect(key.tryVerify(key.rawApiKey!)).toMatchObject({
+      ok: true,
+      matched: "current",
+    });
+    expect(key.previousKeys[0].expiresAt).toEqual(
+      new Date("2026-01-01T01:00:00Z"),
+    );
+
+    advance(HOUR + 1);
+    expect(key.verify(oldKey)).toBe(false);
+    expect(key.previousKeys).toEqual([]);
+  });
+
+  it("generates the new key in the current key's format", () => {
+    const { majik } = setup();
+    const key = majik.create("owner", undefined, {
+      keyFormat: { prefix: "acme", environment: "test" },
+    });
+
+    key.rotate();
+
+    expect(key.rawApiKey!.startsWith("acme_test_")).toBe(true);
+    expect(key.keyPrefix).toBe("acme_test");
+  });
+
+  it("ends grace periods early with finalizeRotation()", () => {
+    const { majik } = setup();
+    const key = majik.create("owner");
+    const oldKey = key.rawApiKey!;
+    key.rotate(undefined, { gracePeriodMs: HOUR });
+
+    key.finalizeRotation();
+
+    expect(key.verify(oldKey)).toBe(false);
+  });
+
+  it("serialises previous keys", () => {
+    const { majik } = setup();
+    const key = majik.create("owner");
+    const oldKey = key.rawApiKey!;
+    key.rotate(undefined, { gracePeriodMs: HOUR });
+
+    const row = key.toJSON();
+    const loaded = majik.fromJSON(row);
+
+    expect(row.previous_keys).toHaveLength(1);
+    expect(row.previous_keys[0].expires_at).toBe("2026-01-01T01:00:00.000Z");
+    expect(loaded.verify(oldKey)).toBe(true);
+  });
+
+  it("rejects a negative grace period", () => {
+    const { majik } = setup();
+    const key = majik.create("owner");
+
+    expect(() => key.rotate(undefined, { gracePeriodMs: -1 })).toThrow(
+      /gracePeriodMs/,
+    );
+  });
+});
+
+describe("MajikAPIRepository.rotate() with a grace period", () => {
+  it("resolves both keys until the grace period ends", async () => {
+    const { majik } = setup();
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore(), {
+      config: majik.config,
+    });
+    const key = majik.create("owner");
+    const oldKey = key.rawApiKey!;
+    await repository.save(key);
+
+    const rotated = await repository.rotate(key.id, undefined, {
+      gracePeriodMs: HOUR,
+    });
+
+    expect((await repository.verify(oldKey))?.id).toBe(key.id);
+    expect((await repository.verify(rotated!.rawApiKey!))?.id).toBe(key.id);
+  });
+});
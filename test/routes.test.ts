@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryRateLimitBackend,
+  MajikAPI,
+  MajikAPIRateLimiter,
+  MajikAPIValidationError,
+  isValidRoute,
+  matchRateLimitRules,
+  matchRoute,
+  normalizeRoute,
+} from "../src/index";
+
+describe("route patterns", () => {
+  it("match exact paths, single segments and subtrees", () => {
+    expect(matchRoute("/v1/search", "/v1/search")).toBe(true);
+    expect(matchRoute("/v1/search", "/v1/search/more")).toBe(false);
+
+    expect(matchRoute("/v1/projects/*", "/v1/projects/42")).toBe(true);
+    expect(matchRoute("/v1/projects/*", "/v1/projects")).toBe(false);
+    expect(matchRoute("/v1/projects/*", "/v1/projects/42/files")).toBe(false);
+
+    expect(matchRoute("/v1/projects/**", "/v1/projects")).toBe(true);
+    expect(matchRoute("/v1/projects/**", "/v1/projects/42/files")).toBe(true);
+    expect(matchRoute("/v1/projects/**", "/v1/projectsx")).toBe(false);
+  });
+
+  it("ignore query strings and trailing slashes", () => {
+    expect(matchRoute("/v1/projects/*", "/v1/projects/42?expand=1")).toBe(true);
+    expect(matchRoute("/v1/search", "/v1/search/#top")).toBe(true);
+  });
+
+  it("are case-sensitive", () => {
+    expect(matchRoute("/v1/search", "/V1/Search")).toBe(false);
+  });
+
+  it("are normalised and validated", () => {
+    expect(normalizeRoute(" /v1/search/ ")).toBe("/v1/search");
+    expect(isValidRoute("/")).toBe(true);
+    expect(isValidRoute("v1/search")).toBe(false);
+    expect(isValidRoute("/v1//search")).toBe(false);
+    expect(isValidRoute("/v1/**/files")).toBe(false);
+    expect(isValidRoute("/v1/proj*")).toBe(false);
+    expect(isValidRoute("/v1/search?q=1")).toBe(false);
+    expect(() => normalizeRoute("nope", "rules[0].route")).toThrow(
+      expect.objectContaining({
+        issues: [
+          expect.objectContaining({
+            path: "rules[0].route",
+            code: "invalid_format",
+          }),
+        ],
+      }),
+    );
+  });
+});
+
+describe("layered rate limits", () => {
+  function key() {
+    const key = MajikAPI.create("owner", undefined, {
+      settings: { rateLimit: { amount: 100, frequency: "minutes" } },
+    });
+    key.setRateLimits([
+      {
+        amount: 5,
+        frequency: "minutes",
+        method: "post",
+        route: "/v1/exports/**",
+      },
+      { amount: 10, frequency: "minutes", route: "/v1/search" },
+    ]);
+    return key;
+  }
+
+  it("store methods in upper case and routes normalised", () => {
+    expect(key().rateLimits).toEqual([
+      {
+        amount: 5,
+        frequency: "minutes",
+        method: "POST",
+        route: "/v1/exports/**",
+      },
+      { amount: 10, frequency: "minutes", route: "/v1/search" },
+    ]);
+  });
+
+  it("reject invalid routes", () => {
+    expect(() =>
+      key().setRateLimits([
+        { amount: 5, frequency: "minutes", route: "exports" },
+      ]),
+    ).toThrow(MajikAPIValidationError);
+  });
+
+  it("apply on top of the base limit when method and route match", () => {
+    const k = key();
+
+    expect(
+      matchRateLimitRules(k, { method: "POST", path: "/v1/exports/42" }),
+    ).toEqual([
+      { amount: 100, frequency: "minutes" },
+      {
+        amount: 5,
+        frequency: "minutes",
+        method: "POST",
+        route: "/v1/exports/**",
+      },
+    ]);
+    expect(
+      matchRateLimitRules(k, { method: "GET", path: "/v1/exports/42" }),
+    ).toEqual([{ amount: 100, frequency: "minutes" }]);
+    expect(matchRateLimitRules(k, {})).toEqual([
+      { amount: 100, frequency: "minutes" },
+    ]);
+  });
+
+  it("count each rule separately", async () => {
+    const clock = () => new Date("2026-01-01T00:00:00Z");
+    const limiter = new MajikAPIRateLimiter(
+      new InMemoryRateLimitBackend(clock),
+      { clock },
+    );
+    const k = key();
+    const exportRequest = { method: "POST", path: "/v1/exports/1" };
+
+    for (let i = 0; i < 5; i++) {
+      expect((await limiter.consume(k, 1, exportRequest)).allowed).toBe(true);
+    }
+    const denied = await limiter.consume(k, 1, exportRequest);
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.rule.route).toBe("/v1/exports/**");
+    expect((await limiter.consume(k, 1, { path: "/v1/search" })).allowed).toBe(
+      true,
+    );
+  });
+});
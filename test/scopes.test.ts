@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPIInsufficientScopeError,
+  MajikAPIRepository,
+  MajikAPIValidationError,
+  compactScopes,
+  intersectScopes,
+  isValidScope,
+  normalizeScope,
+  scopeGrants,
+} from "../src/index";
+
+describe("scopes", () => {
+  it("normalises and validates scope syntax", () => {
+    expect(normalizeScope(" Projects:Read ")).toBe("projects:read");
+    expect(isValidScope("admin:*")).toBe(true);
+    expect(isValidScope("*")).toBe(true);
+    expect(isValidScope("admin:*:read")).toBe(false);
+    expect(isValidScope("projects::read")).toBe(false);
+    expect(() => normalizeScope("bad scope")).toThrow(MajikAPIValidationError);
+  });
+
+  it("grants everything beneath a scope", () => {
+    expect(scopeGrants("projects", "projects:read:own")).toBe(true);
+    expect(scopeGrants("projects", "projectsx")).toBe(false);
+    expect(scopeGrants("admin:*", "admin:users")).toBe(true);
+    expect(scopeGrants("admin:*", "admin")).toBe(false);
+    expect(scopeGrants("*", "billing:write")).toBe(true);
+  });
+
+  it("compacts and intersects scope sets", () => {
+    expect(compactScopes(["projects:read", "projects", "Projects"])).toEqual([
+      "projects",
+    ]);
+    expect(
+      intersectScopes(
+        ["projects:read", "billing"],
+        ["projects", "billing:read"],
+      ),
+    ).toEqual(["billing:read", "projects:read"]);
+  });
+});
+
+describe("key scopes", () => {
+  it("answers hasScope() through broader scopes", () => {
+    const key = MajikAPI.create("owner");
+    key.setScopes(["projects", "admin:*"]);
+
+    expect(key.hasScope("projects:read")).toBe(true);
+    expect(key.hasScope("admin:users")).toBe(true);
+    expect(key.hasScope("admin")).toBe(false);
+    expect(key.missingScopes(["projects:write", "billing:read"])).toEqual([
+      "billing:read",
+    ]);
+  });
+
+  it("throws a typed error from requireScopes()", () => {
+    const key = MajikAPI.create("owner");
+    key.addScope("projects:read");
+
+    expect(() => key.requireScopes(["projects:read"])).not.toThrow();
+    try {
+      key.requireScopes(["billing:write"]);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MajikAPIInsufficientScopeError);
+      expect((error as MajikAPIInsufficientScopeError).missing).toEqual([
+        "billing:write",
+      ]);
+    }
+  });
+
+  it("removes a scope without adding back what it covered", () => {
+    const key = MajikAPI.create("owner");
+    key.setScopes(["projects"]);
+    key.removeScope("projects");
+
+    expect(key.hasScope("projects:read")).toBe(false);
+  });
+
+  it("checks scopes against a catalogue", () => {
+    const scopeCatalogue = ["projects:read", "projects:write"];
+
+    expect(() =>
+      MajikAPI.create("owner", undefined, {
+        scopeCatalogue,
+        settings: { scopes: ["projects:*"] },
+      }),
+    ).not.toThrow();
+    expect(() =>
+      MajikAPI.create("owner", undefined, {
+        scopeCatalogue,
+        settings: { scopes: ["billing:read"] },
+      }),
+    ).toThrow(MajikAPIValidationError);
+  });
+});
+
+describe("derived keys", () => {
+  it("narrow scopes to what the parent grants", () => {
+    const parent = MajikAPI.create("owner");
+    parent.setScopes(["projects:read", "billing"]);
+
+    const child = parent.derive({ scopes: ["projects", "billing:read"] });
+
+    expect(child.parentId).toBe(parent.id);
+    expect(child.ownerId).toBe(parent.ownerId);
+    expect(child.scopes).toEqual(["billing:read", "projects:read"]);
+    expect(child.rawApiKey).toBeDefined();
+  });
+
+  it("never outlive the parent", () => {
+    const parent = MajikAPI.create("owner");
+    const expiry = new Date(Date.now() + 60 * 60 * 1000);
+    parent.setExpiry(expiry);
+
+    const child = parent.derive({
+      valid_until: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    });
+
+    expect(child.validUntil).toEqual(expiry);
+  });
+
+  it("cannot be derived from an inactive key", () => {
+    const parent = MajikAPI.create("owner", undefined, { restricted: true });
+    expect(() => parent.derive()).toThrow(/restricted/);
+  });
+
+  it("lose scopes their stored parent no longer grants", async () => {
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const parent = MajikAPI.create("owner");
+    parent.setScopes(["projects", "billing"]);
+    await repository.save(parent);
+    const child = await repository.derive(parent.id, {
+      scopes: ["projects:read", "billing:read"],
+    });
+
+    parent.removeScope("billing");
+    await repository.save(parent);
+
+    expect(await repository.effectiveScopes(child!)).toEqual(["projects:read"]);
+    expect(await repository.derive("missing")).toBeNull();
+  });
+});
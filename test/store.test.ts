@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPIRepository,
+} from "../src/index";
+
+describe("InMemoryMajikAPIStore", () => {
+  it("finds rows by hash, id and owner", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const key = MajikAPI.create("owner-a");
+    await store.save(key.toJSON());
+    await store.save(MajikAPI.create("owner-b").toJSON());
+
+    expect((await store.findByHash(key.apiKey))?.id).toBe(key.id);
+    expect((await store.findById(key.id))?.owner_id).toBe("owner-a");
+    expect(await store.listByOwner("owner-a")).toHaveLength(1);
+    expect(await store.findByHash("unknown")).toBeNull();
+  });
+
+  it("returns copies, so callers cannot change what is stored", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const key = MajikAPI.create("owner");
+    await store.save(key.toJSON());
+
+    const row = await store.findById(key.id);
+    row!.name = "Changed";
+
+    expect((await store.findById(key.id))?.name).toBe(key.name);
+  });
+
+  it("refuses a hash that belongs to another key", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const first = MajikAPI.create("owner", "shared-text");
+    const second = MajikAPI.create("owner", "shared-text");
+    await store.save(first.toJSON());
+
+    await expect(store.save(second.toJSON())).rejects.toThrow(
+      /already belongs/,
+    );
+  });
+
+  it("pages through keys in id order", async () => {
+    const store = new InMemoryMajikAPIStore();
+    for (let i = 0; i < 5; i++) {
+      await store.save(MajikAPI.create("owner").toJSON());
+    }
+
+    const first = await store.list({ limit: 3 });
+    const second = await store.list({ limit: 3, cursor: first.cursor });
+
+    expect(first.rows).toHaveLength(3);
+    expect(second.rows).toHaveLength(2);
+    expect(second.cursor).toBeNull();
+    expect(first.rows[2].id < second.rows[0].id).toBe(true);
+  });
+
+  it("deletes rows and their hashes", async () => {
+    const store = new InMemoryMajikAPIStore();
+    const key = MajikAPI.create("owner");
+    await store.save(key.toJSON());
+
+    expect(await store.delete(key.id)).toBe(true);
+    expect(await store.delete(key.id)).toBe(false);
+    expect(await store.findByHash(key.apiKey)).toBeNull();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("MajikAPIRepository", () => {
+  it("saves and resolves keys", async () => {
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const key = MajikAPI.create("owner");
+    await repository.save(key);
+
+    const resolved = await repository.verify(key.rawApiKey!);
+
+    expect(resolved).toBeInstanceOf(MajikAPI);
+    expect(resolved?.id).toBe(key.id);
+    expect(await repository.verify("wrong")).toBeNull();
+    expect(await repository.verify("")).toBeNull();
+    expect((await repository.listByOwner("owner")).map((k) => k.id)).toEqual([
+      key.id,
+    ]);
+  });
+
+  it("rotates a stored key in one step", async () => {
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const key = MajikAPI.create("owner");
+    const oldKey = key.rawApiKey!;
+    await repository.save(key);
+
+    const rotated = await repository.rotate(key.id);
+
+    expect(rotated?.id).toBe(key.id);
+    expect((await repository.verify(rotated!.rawApiKey!))?.id).toBe(key.id);
+    expect(await repository.verify(oldKey)).toBeNull();
+    expect(await repository.rotate("missing")).toBeNull();
+  });
+
+  it("deletes keys so they no longer resolve", async () => {
+    const repository = new MajikAPIRepository(new InMemoryMajikAPIStore());
+    const key = MajikAPI.create("owner");
+    await repository.save(key);
+
+    expect(await repository.delete(key.id)).toBe(true);
+    expect(await repository.verify(key.rawApiKey!)).toBeNull();
+    expect(await repository.findById(key.id)).toBeNull();
+  });
+});
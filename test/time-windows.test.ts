@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  MajikAPI,
+  MajikAPIValidationError,
+  createMajikAPI,
+  formatTimeWindow,
+  isValidTimeOfDay,
+  matchTimeWindow,
+} from "../src/index";
+import type { MajikAPITimeWindow } from "../src/index";
+
+const officeHours: MajikAPITimeWindow = {
+  days: ["mon", "tue", "wed", "thu", "fri"],
+  start: "08:00",
+  end: "18:00",
+  timeZone: "Europe/Berlin",
+};
+
+/** A factory whose clock reads `now`, which the test can move. */
+function testFactory(start: string) {
+  let now = new Date(start);
+  const majik = createMajikAPI({ clock: () => new Date(now) });
+  return {
+    majik,
+    setNow: (iso: string) => {
+      now = new Date(iso);
+    },
+  };
+}
+
+describe("matchTimeWindow()", () => {
+  it("evaluates windows in their own time zone", () => {
+    // Monday 07:30 UTC is 08:30 in Berlin (CET).
+    expect(
+      matchTimeWindow([officeHours], new Date("2026-03-02T07:30:00Z")),
+    ).toBe(officeHours);
+    // Monday 06:30 UTC is still 07:30 in Berlin.
+    expect(
+      matchTimeWindow([officeHours], new Date("2026-03-02T06:30:00Z")),
+    ).toBeNull();
+    // Saturday.
+    expect(
+      matchTimeWindow([officeHours], new Date("2026-03-07T09:30:00Z")),
+    ).toBeNull();
+  });
+
+  it("follows daylight saving time", () => {
+    // After the switch to CEST, 06:30 UTC is 08:30 in Berlin.
+    expect(
+      matchTimeWindow([officeHours], new Date("2026-04-06T06:30:00Z")),
+    ).toBe(officeHours);
+  });
+
+  it("treats the end as exclusive", () => {
+    // Monday 17:00 UTC is 18:00 in Berlin.
+    expect(
+      matchTimeWindow([officeHours], new Date("2026-03-02T16:59:59Z")),
+    ).toBe(officeHours);
+    expect(
+      matchTimeWindow([officeHours], new Date("2026-03-02T17:00:00Z")),
+    ).toBeNull();
+  });
+
+  it("runs overnight windows into the next day", () => {
+    const night: MajikAPITimeWindow = {
+      days: ["fri"],
+      start: "22:00",
+      end: "06:00",
+      timeZone: "UTC",
+    };
+
+    expect(matchTimeWindow([night], new Date("2026-03-06T23:00:00Z"))).toBe(
+      night,
+    );
+    expect(matchTimeWindow([night], new Date("2026-03-07T05:59:00Z"))).toBe(
+      night,
+    );
+    expect(
+      matchTimeWindow([night], new Date("2026-03-07T23:00:00Z")),
+    ).toBeNull();
+    expect(
+      matchTimeWindow([night], new Date("2026-03-06T05:00:00Z")),
+    ).toBeNull();
+  });
+
+  it("closes at midnight with 24:00", () => {
+    const evening: MajikAPITimeWindow = {
+      days: ["sun"],
+      start: "20:00",
+      end: "24:00",
+      timeZone: "UTC",
+    };
+    expect(matchTimeWindow([evening], new Date("2026-03-01T23:59:00Z"))).toBe(
+      evening,
+    );
+    expect(
+      matchTimeWindow([evening], new Date("2026-03-02T00:00:00Z")),
+    ).toBeNull();
+  });
+});
+
+describe("time window helpers", () => {
+  it("validates times of day", () => {
+    expect(isValidTimeOfDay("00:00")).toBe(true);
+    expect(isValidTimeOfDay("24:00")).toBe(true);
+    expect(isValidTimeOfDay("24:01")).toBe(false);
+    expect(isValidTimeOfDay("8:00")).toBe(false);
+  });
+
+  it("formats windows for authorization rules", () => {
+    expect(formatTimeWindow(officeHours)).toBe(
+      "mon,tue,wed,thu,fri 08:00-18:00 Europe/Berlin",
+    );
+  });
+});
+
+describe("keys with time windows", () => {
+  it("are only active inside a window", () => {
+    const { majik, setNow } = testFactory("2026-03-02T09:00:00Z");
+    const key = majik.create("owner");
+    key.setTimeWindows([officeHours]);
+
+    expect(key.isActive()).toBe(true);
+    expect(key.authorize().matched).toContainEqual({
+      type: "timeWindows",
+      value: formatTimeWindow(officeHours),
+    });
+
+    setNow("2026-03-07T09:00:00Z");
+    expect(key.isActive()).toBe(false);
+    expect(key.authorize().reason).toBe("outside_time_window");
+
+    key.clearTimeWindows();
+    expect(key.isActive()).toBe(true);
+  });
+
+  it("reject invalid windows", () => {
+    const key = MajikAPI.create("owner");
+    expect(() =>
+      key.setTimeWindows([{ ...officeHours, start: "25:00" }]),
+    ).toThrow(MajikAPIValidationError);
+    expect(() =>
+      key.setTimeWindows([{ ...officeHours, timeZone: "Mars/Base" }]),
+    ).toThrow(MajikAPIValidationError);
+  });
+});
+
+describe("valid_from", () => {
+  it("keeps a key pending until it starts", () => {
+    const { majik, setNow } = testFactory("2026-08-31T12:00:00Z");
+    const key = majik.create("owner");
+    key.setValidFrom("2026-09-01T00:00:00Z");
+
+    expect(key.status).toBe("pending");
+    expect(key.isActive()).toBe(false);
+    expect(key.authorize().reason).toBe("not_yet_valid");
+
+    setNow("2026-09-01T00:00:00Z");
+    expect(key.status).toBe("active");
+    expect(key.authorize().allowed).toBe(true);
+  });
+
+  it("must come before valid_until", () => {
+    const key = MajikAPI.create("owner");
+    key.setExpiry("2030-01-01T00:00:00Z");
+    expect(() => key.setValidFrom("2031-01-01T00:00:00Z")).toThrow(
+      MajikAPIValidationError,
+    );
+  });
+
+  it("round-trips through toJSON()", () => {
+    const key = MajikAPI.create("owner");
+    key.setValidFrom("2030-01-01T00:00:00Z");
+
+    const loaded = MajikAPI.fromJSON(key.toJSON());
+
+    expect(loaded.validFrom?.toISOString()).toBe("2030-01-01T00:00:00.000Z");
+    expect(loaded.toJSON().is_valid).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryUsageBackend,
+  MajikAPI,
+  MajikAPIUsageMeter,
+  getQuotaPeriod,
+} from "../src/index";
+import { addMonths, fromWallTime, toWallTime } from "../src/time";
+
+const at = (iso: string) => new Date(iso);
+
+function fixedClock(iso: string) {
+  let now = new Date(iso).getTime();
+  return {
+    clock: () => new Date(now),
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe("getQuotaPeriod()", () => {
+  it("aligns calendar periods in UTC", () => {
+    const now = at("2026-05-14T15:30:00Z");
+
+    expect(getQuotaPeriod("hours", now)).toEqual({
+      start: at("2026-05-14T15:00:00Z"),
+      end: at("2026-05-14T16:00:00Z"),
+    });
+    expect(getQuotaPeriod("weeks", now)).toEqual({
+      start: at("2026-05-11T00:00:00Z"),
+      end: at("2026-05-18T00:00:00Z"),
+    });
+    expect(getQuotaPeriod("quarters", now)).toEqual({
+      start: at("2026-04-01T00:00:00Z"),
+      end: at("2026-07-01T00:00:00Z"),
+    });
+    expect(getQuotaPeriod("years", now).start).toEqual(
+      at("2026-01-01T00:00:00Z"),
+    );
+  });
+
+  it("aligns calendar periods to midnight in the given time zone", () => {
+    const period = getQuotaPeriod("months", at("2026-05-31T20:00:00Z"), {
+      timeZone: "Asia/Manila",
+    });
+
+    expect(period).toEqual({
+      start: at("2026-05-31T16:00:00Z"),
+      end: at("2026-06-30T16:00:00Z"),
+    });
+  });
+
+  it("keeps days whole across a DST change", () => {
+    const period = getQuotaPeriod("days", at("2026-03-29T12:00:00Z"), {
+      timeZone: "Europe/Berlin",
+    });
+
+    expect(period).toEqual({
+      start: at("2026-03-28T23:00:00Z"),
+      end: at("2026-03-29T22:00:00Z"),
+    });
+  });
+
+  it("anchors periods to the key's creation", () => {
+    const createdAt = at("2026-01-31T10:00:00Z");
+    const options = { anchor: "creation" as const, createdAt };
+
+    expect(
+      getQuotaPeriod("months", at("2026-03-01T00:00:00Z"), options),
+    ).toEqual({
+      start: at("2026-02-28T10:00:00Z"),
+      end: at("2026-03-31T10:00:00Z"),
+    });
+    expect(
+      getQuotaPeriod("hours", at("2026-01-31T12:30:00Z"), options),
+    ).toEqual({
+      start: at("2026-01-31T12:00:00Z"),
+      end: at("2026-01-31T13:00:00Z"),
+    });
+  });
+
+  it("rejects unknown time zones and a creation anchor without a date", () => {
+    const now = at("2026-01-01T00:00:00Z");
+    expect(() =>
+      getQuotaPeriod("days", now, { timeZone: "Mars/Base" }),
+    ).toThrow(/Unknown time zone/);
+    expect(() => getQuotaPeriod("days", now, { anchor: "creation" })).toThrow(
+      /createdAt/,
+    );
+  });
+});
+
+describe("time helpers", () => {
+  it("clamps month arithmetic to the end of the month", () => {
+    const wall = toWallTime(at("2028-01-31T00:00:00Z"), "UTC");
+    expect(addMonths(wall, 1)).toMatchObject({ year: 2028, month: 2, day: 29 });
+    expect(addMonths(wall, -2)).toMatchObject({
+      year: 2027,
+      month: 11,
+      day: 30,
+    });
+  });
+
+  it("resolves wall times in a DST gap forward", () => {
+    const wall = toWallTime(at("2026-03-29T00:00:00Z"), "UTC");
+    const gap = fromWallTime({ ...wall, hour: 2, minute: 30 }, "Europe/Berlin");
+    expect(gap).toEqual(at("2026-03-29T01:30:00Z"));
+  });
+});
+
+describe("MajikAPIUsageMeter", () => {
+  it("consumes within the quota and refuses past it", async () => {
+    const { clock } = fixedClock("2026-05-14T12:00:00Z");
+    const meter = new MajikAPIUsageMeter(new InMemoryUsageBackend(clock), {
+      clock,
+    });
+    const key = MajikAPI.create("owner");
+    key.setPeriodicQuota(3, "days");
+
+    const first = await meter.consume(key, 2);
+    const second = await meter.consume(key, 2);
+    const usage = await meter.getUsage(key);
+
+    expect(first).toMatchObject({ allowed: true, used: 2, remaining: 1 });
+    expect(first.resetsAt).toEqual(at("2026-05-15T00:00:00Z"));
+    expect(second).toMatchObject({ allowed: false, used: 2, exceeded: false });
+    expect(usage.used).toBe(2);
+  });
+
+  it("starts a new count in the next period", async () => {
+    const { clock, advance } = fixedClock("2026-05-14T23:00:00Z");
+    const meter = new MajikAPIUsageMeter(new InMemoryUsageBackend(clock), {
+      clock,
+    });
+    const key = MajikAPI.create("owner");
+    key.setPeriodicQuota(1, "days");
+    await meter.consume(key);
+
+    advance(2 * 60 * 60 * 1000);
+
+    expect((await meter.consume(key)).allowed).toBe(true);
+  });
+
+  it("records past the quota and reports it exceeded", async () => {
+    const meter = new MajikAPIUsageMeter(new InMemoryUsageBackend());
+    const key = MajikAPI.create("owner");
+    key.setFixedQuota(2);
+
+    const report = await meter.record(key, 3);
+
+    expect(report).toMatchObject({
+      used: 3,
+      remaining: 0,
+      exceeded: true,
+      periodStart: null,
+      resetsAt: null,
+    });
+  });
+
+  it("keeps counting across rotation and clears on reset()", async () => {
+    const meter = new MajikAPIUsageMeter(new InMemoryUsageBackend());
+    const key = MajikAPI.create("owner");
+    key.setFixedQuota(10);
+    await meter.record(key, 4);
+
+    key.rotate();
+    expect((await meter.getUsage(key)).used).toBe(4);
+
+    await meter.reset(key);
+    expect((await meter.getUsage(key)).used).toBe(0);
+  });
+
+  it("reports unlimited keys without a limit", async () => {
+    const meter = new MajikAPIUsageMeter(new InMemoryUsageBackend());
+    const report = await meter.consume(MajikAPI.create("owner"), 100);
+
+    expect(report).toMatchObject({
+      allowed: true,
+      limit: null,
+      remaining: null,
+    });
+  });
+});
+
+describe("isQuotaExceeded()", () => {
+  it("accepts zero usage", () => {
+    const key = MajikAPI.create("owner");
+    key.setFixedQuota(1);
+
+    expect(key.isQuotaExceeded(0)).toBe(false);
+    expect(key.isQuotaExceeded(1)).toBe(true);
+  });
+});
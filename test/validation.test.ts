@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAJIK_API_JSON_SCHEMA,
+  MajikAPI,
+  MajikAPIError,
+  MajikAPIValidationError,
+  assertValid,
+  normalizeIPEntry,
+  validateMajikAPIJSON,
+  validateMajikAPISettings,
+} from "../src/index";
+
+describe("validateMajikAPISettings", () => {
+  it("returns every issue with its path and code", () => {
+    const issues = validateMajikAPISettings({
+      rateLimit: { amount: 0, frequency: "weeks" },
+      ipWhitelist: { enabled: true, addresses: ["10.0.0.300"] },
+      domainWhitelist: { enabled: false, domains: [] },
+      quota: null,
+    });
+
+    expect(issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: "settings.rateLimit.amount", code: "out_of_range" },
+      { path: "settings.rateLimit.frequency", code: "invalid_value" },
+      { path: "settings.ipWhitelist.addresses[0]", code: "invalid_format" },
+    ]);
+  });
+
+  it("accepts the settings of a fresh key", () => {
+    const { settings } = MajikAPI.create("owner").toJSON();
+    expect(validateMajikAPISettings(settings)).toEqual([]);
+  });
+});
+
+describe("validateMajikAPIJSON", () => {
+  it("accepts what toJSON() writes", () => {
+    const row = MajikAPI.create("owner", undefined, {
+      settings: { scopes: ["orders:read"] },
+    }).toJSON();
+    expect(validateMajikAPIJSON(row)).toEqual([]);
+  });
+
+  it("rejects non-objects at the root", () => {
+    expect(validateMajikAPIJSON([])).toEqual([
+      expect.objectContaining({ path: "", code: "invalid_type" }),
+    ]);
+  });
+
+  it("reports nested problems under the settings path", () => {
+    const row = MajikAPI.create("owner").toJSON();
+    const broken = {
+      ...row,
+      id: "",
+      settings: { ...row.settings, rateLimit: { amount: 1.5, frequency: "x" } },
+    };
+
+    const paths = validateMajikAPIJSON(broken).map((issue) => issue.path);
+
+    expect(paths).toContain("id");
+    expect(paths).toContain("settings.rateLimit.amount");
+    expect(paths).toContain("settings.rateLimit.frequency");
+  });
+
+  it("makes fromJSON() throw with all issues attached", () => {
+    const row = { ...MajikAPI.create("owner").toJSON(), id: "", name: 7 };
+
+    try {
+      MajikAPI.fromJSON(row as never);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MajikAPIValidationError);
+      const { issues } = error as MajikAPIValidationError;
+      expect(issues.map((issue) => issue.path)).toEqual(
+        expect.arrayContaining(["id", "name"]),
+      );
+    }
+  });
+});
+
+describe("error classes", () => {
+  it("serialises validation errors for API clients", () => {
+    const error = new MajikAPIValidationError(
+      [
+        { path: "a", code: "required", message: "a is required." },
+        { path: "b", code: "required", message: "b is required." },
+      ],
+      "create",
+    );
+
+    expect(error).toBeInstanceOf(MajikAPIError);
+    expect(error.code).toBe("validation_failed");
+    expect(error.message).toBe(
+      "[MajikAPI] create(): a is required. (and 1 more issue)",
+    );
+    expect(error.toJSON()).toEqual({
+      error: "validation_failed",
+      message: error.message,
+      issues: error.issues,
+    });
+  });
+
+  it("is thrown by assertValid only when there are issues", () => {
+    expect(() => assertValid([])).not.toThrow();
+    expect(() =>
+      assertValid([{ path: "x", code: "invalid_type", message: "Bad." }]),
+    ).toThrow(MajikAPIValidationError);
+  });
+
+  it("is thrown by IP normalisation and migrations", () => {
+    expect(() => normalizeIPEntry("not-an-ip")).toThrow(
+      MajikAPIValidationError,
+    );
+    expect(() => MajikAPI.migrate(null)).toThrow(MajikAPIValidationError);
+  });
+});
+
+describe("MAJIK_API_JSON_SCHEMA", () => {
+  it("requires exactly the fields toJSON() writes", () => {
+    const row = MajikAPI.create("owner").toJSON();
+
+    expect([...MAJIK_API_JSON_SCHEMA.required].sort()).toEqual(
+      Object.keys(row).sort(),
+    );
+    expect(Object.keys(MAJIK_API_JSON_SCHEMA.properties).sort()).toEqual(
+      Object.keys(row).sort(),
+    );
+  });
+
+  it("pins the current schema version", () => {
+    const row = MajikAPI.create("owner").toJSON();
+    expect(MAJIK_API_JSON_SCHEMA.properties.schema_version).toEqual({
+      const: row.schema_version,
+    });
+  });
+
+  it("describes every settings field", () => {
+    const { settings } = MajikAPI.create("owner").toJSON();
+    const described = Object.keys(
+      MAJIK_API_JSON_SCHEMA.$defs.settings.properties,
+    );
+    expect(described).toEqual(expect.arrayContaining(Object.keys(settings)));
+  });
+});
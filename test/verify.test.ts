@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  InMemoryMajikAPIStore,
+  MajikAPI,
+  MajikAPIRepository,
+  type MajikAPIKeyHasher,
+} from "../src/index";
+
+/** A hasher whose verification always fails with an exception. */
+const throwingHasher: MajikAPIKeyHasher = {
+  hash: (rawKey) => `test$${rawKey.length}`,
+  verify: () => {
+    throw new Error("hasher unavailable");
+  },
+  verifyAsync: async () => {
+    throw new Error("hasher unavailable");
+  },
+  candidates: (rawKey) => [`test$${rawKey.length}`],
+  needsRehash: () => false,
+};
+
+describe("key verification", () => {
+  it("accepts the raw key and rejects anything else", async () => {
+    const key = MajikAPI.create("owner");
+    const rawKey = key.rawApiKey!;
+
+    expect(key.verify(rawKey)).toBe(true);
+    expect(key.verify(` ${rawKey} `)).toBe(true);
+    expect(await key.verifyAsync(rawKey)).toBe(true);
+    expect(key.verify(MajikAPI.create("owner").rawApiKey!)).toBe(false);
+  });
+
+  it("explains failures", () => {
+    const key = MajikAPI.create("owner", "custom-key");
+
+    expect(key.tryVerify("")).toEqual({ ok: false, reason: "malformed_input" });
+    expect(key.tryVerify("other-key")).toEqual({
+      ok: false,
+      reason: "mismatch",
+    });
+    expect(key.tryVerify("custom-key")).toEqual({
+      ok: true,
+      needsRehash: false,
+      matched: "current",
+    });
+  });
+
+  it("never throws for non-string input", () => {
+    const key = MajikAPI.create("owner");
+    expect(key.verify(undefined as unknown as string)).toBe(false);
+    expect(key.verify(42 as unknown as string)).toBe(false);
+  });
+
+  describe("with a hasher that throws", () => {
+    const key = MajikAPI.create("owner", "custom-key", {
+      hasher: throwingHasher,
+    });
+
+    it("treats the error as a mismatch, sync and async", async () => {
+      expect(key.tryVerify("custom-key")).toEqual({
+        ok: false,
+        reason: "mismatch",
+      });
+      expect(await key.tryVerifyAsync("custom-key")).toEqual({
+        ok: false,
+        reason: "mismatch",
+      });
+      expect(key.verifyAndUpgrade("custom-key")).toEqual({
+        valid: false,
+        upgraded: false,
+      });
+    });
+
+    it("resolves null from the repository", async () => {
+      const store = new InMemoryMajikAPIStore();
+      await store.save(key.toJSON());
+      const repository = new MajikAPIRepository(store, {
+        hasher: throwingHasher,
+      });
+
+      await expect(repository.verify("custom-key")).resolves.toBeNull();
+    });
+  });
+});